@@ -0,0 +1,276 @@
+// DataGuard client
+// Negotiates, pays for and verifies data requests to a DataGuard install
+
+import { CountProof, NonceStore, checkBinding, verifyAttestation, verifyCountProof } from '@dataguard/verifier';
+import { DataGuardClientError, isFailure } from './errors.js';
+import {
+    AnswerResult,
+    Binding,
+    Capabilities,
+    EmailsResult,
+    Failure,
+    Mode,
+    Negotiation,
+    NegotiationMessage,
+    PaymentRequirements,
+    Predicate,
+    ProofResult,
+    PublicTerms,
+    Quote
+} from './protocol.js';
+import { DataGuardTransport, createBridgeTransport, detectDataGuard } from './transports.js';
+
+// Page API major version this client speaks
+export const SUPPORTED_API_VERSION = 1;
+
+/**
+ * Pays a quote and returns the base64 X-PAYMENT value, e.g. from an x402 wallet library
+ */
+export type PaymentHandler = (accepts: PaymentRequirements[], quote: Quote) => Promise<string>;
+
+export interface DataGuardClientOptions {
+    transport?: DataGuardTransport; // defaults to window.DataGuard, or a bridge at bridgeUrl
+    bridgeUrl?: string; // a local DataGuard bridge, for agents outside the browser
+    audience?: string; // who responses are bound to; defaults to the page origin, required outside a page
+    pay?: PaymentHandler; // without one, priced requests fail with payment_required
+    maxPrice?: number; // USDC per request; higher quotes are not paid
+    verificationKey?: object; // count_in_window verification key, to check proofs in full and not only their attestation
+    detectTimeoutMs?: number;
+}
+
+export interface RequestOptions {
+    nonce?: string; // one your verifier issued; a random one otherwise
+    purpose?: string; // shown to the user
+    negotiation?: string; // an agreed negotiateTerms() session, whose terms the request is made under
+}
+
+export interface ProofOptions extends RequestOptions {
+    minWindowDays?: number;
+    maxProofAgeSeconds?: number;
+    nonceStore?: NonceStore; // consumes the nonce once the proof is accepted
+}
+
+type ReleaseKind = 'emails' | 'answer' | 'proof';
+
+export class DataGuardClient {
+    private transport: DataGuardTransport;
+    private info: Capabilities;
+    private options: DataGuardClientOptions;
+    readonly audience: string;
+
+    private constructor(transport: DataGuardTransport, info: Capabilities, audience: string, options: DataGuardClientOptions) {
+        this.transport = transport;
+        this.info = info;
+        this.audience = audience;
+        this.options = options;
+    }
+
+    /**
+     * Find the install, from the page or through the bridge, and check it speaks a supported API version
+     */
+    static async connect(options: DataGuardClientOptions = {}): Promise<DataGuardClient> {
+        const transport = options.transport
+            ?? (options.bridgeUrl ? createBridgeTransport(options.bridgeUrl) : await detectDataGuard({ timeoutMs: options.detectTimeoutMs }));
+        if (!transport) {
+            throw new DataGuardClientError('not_installed', 'extension_not_detected', 'DataGuard is not installed in this browser');
+        }
+
+        const audience = options.audience ?? (globalThis as { location?: { origin?: string } }).location?.origin;
+        if (!audience) {
+            throw new TypeError('An audience is required outside a web page');
+        }
+
+        const info = await transport.capabilities();
+        const major = parseInt(String(info?.version), 10);
+        if (major !== SUPPORTED_API_VERSION) {
+            throw new DataGuardClientError(
+                'unsupported_version',
+                'api_version_mismatch',
+                `DataGuard API ${info?.version} is not supported; this client speaks ${SUPPORTED_API_VERSION}.x`
+            );
+        }
+
+        return new DataGuardClient(transport, info, audience, options);
+    }
+
+    get capabilities(): Capabilities {
+        return this.info;
+    }
+
+    getPublicTerms(): Promise<PublicTerms> {
+        return this.call(() => this.transport.getPublicTerms());
+    }
+
+    /**
+     * The price and conditions for a request, or for the terms agreed in a negotiation; throws when it would be refused
+     */
+    async negotiate(predicate: Predicate, mode: Mode = 'emails', negotiation?: string): Promise<Quote> {
+        return this.unwrap(await this.call(() => this.transport.negotiate({
+            predicate,
+            mode,
+            ...(negotiation ? { negotiation } : {})
+        })));
+    }
+
+    /**
+     * One message of a multi-round negotiation; the session comes back whatever its status, refusals throw
+     */
+    async negotiateTerms(message: NegotiationMessage): Promise<Negotiation> {
+        // Added in API 1.1
+        if (!this.info.methods.includes('negotiateTerms')) {
+            throw new DataGuardClientError(
+                'unsupported_version',
+                'method_unavailable',
+                `DataGuard API ${this.info.version} does not negotiate terms`
+            );
+        }
+        return this.unwrap(await this.call(() => this.transport.negotiateTerms(message)));
+    }
+
+    requestEmails(predicate: Predicate, options: RequestOptions = {}): Promise<EmailsResult> {
+        return this.release('emails', predicate, options) as Promise<EmailsResult>;
+    }
+
+    requestAnswer(predicate: Predicate, options: RequestOptions = {}): Promise<AnswerResult> {
+        return this.release('answer', predicate, options) as Promise<AnswerResult>;
+    }
+
+    prove(predicate: Predicate, options: ProofOptions = {}): Promise<ProofResult> {
+        return this.release('proof', predicate, options) as Promise<ProofResult>;
+    }
+
+    /**
+     * Quote, pay, request and verify. A payment that was not accepted, e.g. because the quote expired
+     * while the user decided, is retried once against a fresh quote.
+     */
+    private async release(kind: ReleaseKind, predicate: Predicate, options: ProofOptions): Promise<EmailsResult | AnswerResult | ProofResult> {
+        // Proofs are priced like answers
+        const mode: Mode = kind === 'emails' ? 'emails' : 'answer';
+        const nonce = options.nonce ?? createNonce();
+
+        let result: EmailsResult | AnswerResult | ProofResult | Failure | undefined;
+        for (let attempt = 0; attempt < 2; attempt++) {
+            const payment = await this.payFor(await this.negotiate(predicate, mode, options.negotiation));
+            const request = {
+                predicate,
+                nonce,
+                audience: this.audience,
+                ...(options.purpose ? { purpose: options.purpose } : {}),
+                ...(options.negotiation ? { negotiation: options.negotiation } : {}),
+                ...(payment ? { payment } : {})
+            };
+
+            result = kind === 'proof'
+                ? await this.call(() => this.transport.prove(request))
+                : await this.call(() => this.transport.request({ ...request, mode }));
+
+            if (!isFailure(result) || result.error !== 'payment_required' || !payment) break;
+        }
+
+        const released = this.unwrap(result!);
+        await this.verify(kind, released, predicate, nonce, options);
+        return released;
+    }
+
+    private async payFor(quote: Quote): Promise<string | undefined> {
+        if (!quote.paymentRequired) {
+            return undefined;
+        }
+        if (this.options.maxPrice !== undefined && quote.price > this.options.maxPrice) {
+            throw new DataGuardClientError(
+                'over_budget',
+                'price_above_max',
+                `Quoted ${quote.price} USDC, above the maximum of ${this.options.maxPrice}`
+            );
+        }
+        if (!this.options.pay) {
+            throw new DataGuardClientError('payment_required', 'no_payment_handler', `Request costs ${quote.price} USDC`, {
+                retryable: true,
+                accepts: quote.accepts
+            });
+        }
+        return this.options.pay(quote.accepts ?? [], quote);
+    }
+
+    /**
+     * Check the binding and attestation of a released result, and a proof's Groth16 proof when a verification key is set
+     */
+    private async verify(
+        kind: ReleaseKind,
+        result: EmailsResult | AnswerResult | ProofResult,
+        predicate: Predicate,
+        nonce: string,
+        options: ProofOptions
+    ): Promise<void> {
+        const key = this.info.attestationKey;
+        if (!key) {
+            throw new DataGuardClientError('verification_failed', 'no_attestation_key', 'DataGuard did not publish an attestation key');
+        }
+
+        const expectations = { audience: this.audience, nonce };
+        let binding: Binding;
+        let attestation: string;
+        let body: string | undefined;
+        if (kind === 'emails') {
+            const emails = result as EmailsResult;
+            ({ binding, attestation } = emails);
+            body = JSON.stringify(emails.data);
+        } else if (kind === 'answer') {
+            ({ binding, attestation } = (result as AnswerResult).answer);
+        } else {
+            ({ binding, attestation } = (result as ProofResult).proof);
+        }
+
+        const reasons = checkBinding(binding, expectations);
+        const signed = await verifyAttestation(attestation, key, { ...expectations, body });
+        reasons.push(...signed.reasons);
+        if (signed.claims && (signed.claims.kind !== kind || signed.claims.predicate?.type !== predicate.type)) {
+            reasons.push(`Attestation is for a ${signed.claims.kind} about ${signed.claims.predicate?.type}`);
+        }
+
+        if (kind === 'proof' && this.options.verificationKey && reasons.length === 0) {
+            const proof = (result as ProofResult).proof as unknown as CountProof;
+            const checked = await verifyCountProof(proof, this.options.verificationKey, {
+                ...expectations,
+                attestationKey: key,
+                predicate: predicate.type,
+                minCount: predicate.minCount,
+                minWindowDays: options.minWindowDays,
+                maxProofAgeSeconds: options.maxProofAgeSeconds,
+                nonceStore: options.nonceStore
+            });
+            reasons.push(...checked.reasons);
+        }
+
+        if (reasons.length > 0) {
+            throw new DataGuardClientError('verification_failed', `${kind}_unverified`, reasons.join('; '));
+        }
+    }
+
+    // Rejected arguments surface as invalid_request, like every other failure the caller can handle
+    private async call<T>(run: () => Promise<T>): Promise<T> {
+        try {
+            return await run();
+        } catch (error) {
+            if (error instanceof TypeError) {
+                throw new DataGuardClientError('invalid_request', 'invalid_arguments', error.message);
+            }
+            throw error;
+        }
+    }
+
+    private unwrap<T>(result: T | Failure): T {
+        if (isFailure(result)) {
+            throw DataGuardClientError.fromFailure(result);
+        }
+        return result;
+    }
+}
+
+/**
+ * A single-use nonce in the form DataGuard accepts: 32 URL-safe characters
+ */
+export function createNonce(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_');
+}
@@ -0,0 +1,51 @@
+// Errors thrown by the DataGuard client
+
+import { ErrorCode, Failure, PaymentRequirements } from './protocol.js';
+
+/**
+ * Codes for failures the client detects itself, alongside the extension's own error codes
+ */
+export type ClientErrorCode =
+    | 'not_installed' // no window.DataGuard and no bridge answering
+    | 'unsupported_version' // the install speaks an API major version this client does not
+    | 'invalid_request' // the install rejected the arguments
+    | 'over_budget' // the quote is above the caller's maxPrice
+    | 'verification_failed'; // a signature, binding or proof did not check out
+
+export class DataGuardClientError extends Error {
+    readonly code: ErrorCode | ClientErrorCode;
+    readonly reason: string;
+    readonly retryable: boolean;
+    readonly retryAfter?: number; // seconds
+    readonly accepts?: PaymentRequirements[]; // with payment_required
+
+    constructor(
+        code: ErrorCode | ClientErrorCode,
+        reason: string,
+        message: string,
+        options: { retryable?: boolean; retryAfter?: number; accepts?: PaymentRequirements[] } = {}
+    ) {
+        super(message);
+        this.name = 'DataGuardClientError';
+        this.code = code;
+        this.reason = reason;
+        this.retryable = options.retryable ?? false;
+        this.retryAfter = options.retryAfter;
+        this.accepts = options.accepts;
+    }
+
+    /**
+     * The error for a refusal or failure the install answered with
+     */
+    static fromFailure(failure: Failure): DataGuardClientError {
+        return new DataGuardClientError(failure.error, failure.reason, failure.message, {
+            retryable: failure.retryable,
+            retryAfter: failure.retryAfter,
+            accepts: failure.accepts
+        });
+    }
+}
+
+export function isFailure(result: unknown): result is Failure {
+    return !!result && typeof result === 'object' && (result as { success?: unknown }).success === false;
+}
@@ -0,0 +1,15 @@
+// DataGuard client
+// Requests email data, answers and proofs from a DataGuard install for web apps and agents
+
+export {
+    DataGuardClient,
+    DataGuardClientOptions,
+    PaymentHandler,
+    ProofOptions,
+    RequestOptions,
+    SUPPORTED_API_VERSION,
+    createNonce
+} from './client.js';
+export { ClientErrorCode, DataGuardClientError, isFailure } from './errors.js';
+export { BridgeOptions, DataGuardTransport, DetectOptions, createBridgeTransport, detectDataGuard } from './transports.js';
+export * from './protocol.js';
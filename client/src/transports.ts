@@ -0,0 +1,87 @@
+// Transports for the DataGuard client
+// How calls reach a DataGuard install: window.DataGuard in a browser page, or a local bridge over HTTP from Node
+
+import { DataGuardClientError } from './errors.js';
+import { Method, PageApi } from './protocol.js';
+
+/**
+ * The page API without its version, which a bridge only reports through capabilities()
+ */
+export type DataGuardTransport = Omit<PageApi, 'version'>;
+
+export interface DetectOptions {
+    timeoutMs?: number; // how long to wait for the extension to define window.DataGuard, default 1000
+}
+
+export interface BridgeOptions {
+    fetch?: typeof fetch; // defaults to the global fetch
+    headers?: Record<string, string>; // e.g. an authorization header the bridge asks for
+}
+
+const DEFAULT_DETECT_TIMEOUT_MS = 1000;
+const DETECT_POLL_MS = 50;
+
+/**
+ * window.DataGuard, or undefined outside a browser or when the extension is not installed.
+ * The extension defines it before page scripts run; the wait covers pages where it is injected late.
+ */
+export async function detectDataGuard(options: DetectOptions = {}): Promise<PageApi | undefined> {
+    const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_DETECT_TIMEOUT_MS);
+
+    for (;;) {
+        const api = (globalThis as { DataGuard?: PageApi }).DataGuard;
+        if (api) {
+            return api;
+        }
+        if (typeof window === 'undefined' || Date.now() >= deadline) {
+            return undefined;
+        }
+        await new Promise(resolve => setTimeout(resolve, DETECT_POLL_MS));
+    }
+}
+
+/**
+ * The page API over a local DataGuard bridge. Each call is a POST of its argument as JSON to `<url>/<method>`,
+ * answered with what the page API resolves to; rejected arguments come back as 400 with `{ invalid }`.
+ */
+export function createBridgeTransport(url: string, options: BridgeOptions = {}): DataGuardTransport {
+    const baseUrl = url.replace(/\/+$/, '');
+    const fetchImpl = options.fetch ?? fetch;
+
+    async function call<T>(method: Method, params?: unknown): Promise<T> {
+        let response: Response;
+        try {
+            response = await fetchImpl(`${baseUrl}/${method}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...options.headers },
+                body: JSON.stringify(params ?? {})
+            });
+        } catch (error) {
+            throw new DataGuardClientError(
+                'not_installed',
+                'bridge_unreachable',
+                `DataGuard bridge at ${baseUrl} is not reachable: ${error instanceof Error ? error.message : String(error)}`,
+                { retryable: true }
+            );
+        }
+
+        const body = await response.json().catch(() => undefined);
+        if (response.status === 400 && typeof body?.invalid === 'string') {
+            throw new TypeError(body.invalid);
+        }
+        // Refusals are results, whatever status the bridge sent them with
+        if (body !== undefined && (response.ok || body.success === false)) {
+            return body as T;
+        }
+        throw new Error(`DataGuard bridge answered ${method} with ${response.status}`);
+    }
+
+    return {
+        capabilities: () => call('capabilities'),
+        negotiate: request => call('negotiate', request),
+        negotiateTerms: message => call('negotiateTerms', message),
+        request: request => call('request', request),
+        prove: request => call('prove', request),
+        getPublicTerms: () => call('getPublicTerms')
+    };
+}
@@ -0,0 +1,81 @@
+pragma circom 2.1.6;
+
+// DataGuard count predicate
+// Proves "at least `threshold` emails matching `predicateId` fall inside
+// [windowStart, windowEnd]" over a committed inbox snapshot, without
+// revealing the emails, their timestamps or the exact count. The proof is
+// bound to a requester challenge so it cannot be replayed to other parties.
+//
+// Trust assumption: the snapshot, including each `matched` flag, is chosen
+// by the prover, and nothing outside the circuit anchors `commitment` to a
+// real inbox. The proof alone therefore only shows that the prover claims
+// such a snapshot. It is evidence about the user's inbox only to a verifier
+// that trusts the DataGuard install whose attestation key signed these
+// public signals (see verifyCountProof's `attestationKey`).
+
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "../node_modules/circomlib/circuits/comparators.circom";
+
+template CountInWindow(N) {
+    // Private inbox snapshot (unused slots are all zero)
+    signal input emailHash[N];
+    signal input timestamp[N]; // unix seconds
+    signal input matched[N]; // 1 if the local classifier matched the predicate; only constrained to be boolean
+
+    // Public statement
+    signal input predicateId;
+    signal input threshold;
+    signal input windowStart;
+    signal input windowEnd;
+    signal input challenge; // field hash of the requester's nonce
+
+    // Poseidon chain over the snapshot the prover chose; it pins the proof to that snapshot, not to a real inbox
+    signal output commitment;
+
+    component hashers[N];
+    signal chain[N + 1];
+    chain[0] <== predicateId;
+
+    component afterStart[N];
+    component beforeEnd[N];
+    signal inWindow[N];
+    signal counted[N];
+    signal runningCount[N + 1];
+    runningCount[0] <== 0;
+
+    for (var i = 0; i < N; i++) {
+        matched[i] * (matched[i] - 1) === 0;
+
+        hashers[i] = Poseidon(4);
+        hashers[i].inputs[0] <== chain[i];
+        hashers[i].inputs[1] <== emailHash[i];
+        hashers[i].inputs[2] <== timestamp[i];
+        hashers[i].inputs[3] <== matched[i];
+        chain[i + 1] <== hashers[i].out;
+
+        afterStart[i] = GreaterEqThan(40);
+        afterStart[i].in[0] <== timestamp[i];
+        afterStart[i].in[1] <== windowStart;
+
+        beforeEnd[i] = LessEqThan(40);
+        beforeEnd[i].in[0] <== timestamp[i];
+        beforeEnd[i].in[1] <== windowEnd;
+
+        inWindow[i] <== afterStart[i].out * beforeEnd[i].out;
+        counted[i] <== inWindow[i] * matched[i];
+        runningCount[i + 1] <== runningCount[i] + counted[i];
+    }
+
+    commitment <== chain[N];
+
+    // Constrain the challenge so the proof cannot be re-bound to another nonce
+    signal challengeSquare;
+    challengeSquare <== challenge * challenge;
+
+    component enough = GreaterEqThan(16);
+    enough.in[0] <== runningCount[N];
+    enough.in[1] <== threshold;
+    enough.out === 1;
+}
+
+component main {public [predicateId, threshold, windowStart, windowEnd, challenge]} = CountInWindow(32);
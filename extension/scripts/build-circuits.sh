@@ -0,0 +1,35 @@
+#!/bin/sh
+# Compile the DataGuard circuits and run a local Groth16 setup.
+# Artifacts land in src/assets/zk/ so `yarn build` bundles them into dist/zk/.
+set -e
+
+cd "$(dirname "$0")/.."
+
+CIRCUIT=count_in_window
+BUILD=circuits/build
+OUT=src/assets/zk
+PTAU_POWER=${PTAU_POWER:-14}
+
+entropy() {
+    head -c 32 /dev/urandom | od -An -tx1 | tr -d ' \n'
+}
+
+mkdir -p "$BUILD" "$OUT"
+
+npx circom2 "circuits/$CIRCUIT.circom" --O2 --r1cs --wasm -o "$BUILD"
+
+# Phase 1 is circuit independent, so it is reused across builds
+if [ ! -f "$BUILD/pot_final.ptau" ]; then
+    npx snarkjs powersoftau new bn128 "$PTAU_POWER" "$BUILD/pot_0000.ptau"
+    npx snarkjs powersoftau contribute "$BUILD/pot_0000.ptau" "$BUILD/pot_0001.ptau" \
+        --name="DataGuard local" -e="$(entropy)"
+    npx snarkjs powersoftau prepare phase2 "$BUILD/pot_0001.ptau" "$BUILD/pot_final.ptau"
+fi
+
+npx snarkjs groth16 setup "$BUILD/$CIRCUIT.r1cs" "$BUILD/pot_final.ptau" "$BUILD/${CIRCUIT}_0000.zkey"
+npx snarkjs zkey contribute "$BUILD/${CIRCUIT}_0000.zkey" "$OUT/$CIRCUIT.zkey" \
+    --name="DataGuard local" -e="$(entropy)"
+npx snarkjs zkey export verificationkey "$OUT/$CIRCUIT.zkey" "$OUT/${CIRCUIT}_vkey.json"
+cp "$BUILD/${CIRCUIT}_js/$CIRCUIT.wasm" "$OUT/$CIRCUIT.wasm"
+
+echo "Circuit artifacts written to $OUT"
@@ -0,0 +1,250 @@
+// Negotiation sessions for DataGuard extension
+// Multi-round offers and counter-offers between a requester and the PolicyAgent, kept in chrome.storage.session
+
+import {
+    AgreedTerms,
+    NegotiationMessage,
+    NegotiationOffer,
+    NegotiationSession,
+    Policy,
+    PredicateId,
+    RequesterIdentity
+} from '../types/index.js';
+import { DataGuardRequestError, dataGuardError } from '../errors/dataguard-error.js';
+import { resolveDisclosure } from '../predicates/predicate-answer.js';
+import { PolicyAgent } from './policy-agent.js';
+
+const STORAGE_KEY = 'negotiationSessions';
+
+// Offers a requester can make; DataGuard's counter to the last one is final
+export const MAX_NEGOTIATION_ROUNDS = 5;
+
+// How long a session waits for its next message, and agreed terms for the request made under them
+export const NEGOTIATION_TTL_SECONDS = 300;
+
+export class NegotiationSessions {
+    private agent: PolicyAgent;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(agent: PolicyAgent) {
+        this.agent = agent;
+    }
+
+    /**
+     * Start a session with the requester's first offer
+     */
+    open(
+        party: string,
+        predicateType: PredicateId,
+        mode: 'emails' | 'answer',
+        offer: NegotiationOffer,
+        policy: Policy,
+        requester?: RequesterIdentity
+    ): Promise<NegotiationSession> {
+        return this.exclusive(async () => {
+            const now = new Date();
+            const session: NegotiationSession = {
+                id: crypto.randomUUID(),
+                party,
+                predicateType,
+                mode,
+                status: 'open',
+                round: 0,
+                maxRounds: MAX_NEGOTIATION_ROUNDS,
+                createdAt: now.toISOString(),
+                expiresAt: now.toISOString(),
+                messages: []
+            };
+            return this.save(this.evaluate(session, offer, policy, requester, now));
+        });
+    }
+
+    /**
+     * A further offer in answer to DataGuard's counter-offer; after the last round the session is rejected instead
+     */
+    offer(id: string, party: string, offer: NegotiationOffer, policy: Policy, requester?: RequesterIdentity): Promise<NegotiationSession> {
+        return this.exclusive(async () => {
+            const now = new Date();
+            const session = this.expectOpen(await this.find(id, party, now));
+
+            if (session.round >= session.maxRounds) {
+                session.messages.push({ type: 'offer', from: 'requester', terms: offer, at: now.toISOString() });
+                return this.save(this.close(session, 'dataguard', `No offers after round ${session.maxRounds}`, now));
+            }
+            return this.save(this.evaluate(session, offer, policy, requester, now));
+        });
+    }
+
+    /**
+     * The requester takes DataGuard's standing counter-offer
+     */
+    accept(id: string, party: string): Promise<NegotiationSession> {
+        return this.exclusive(async () => {
+            const now = new Date();
+            const session = this.expectOpen(await this.find(id, party, now));
+            const { final, ...agreed } = session.counterOffer!;
+
+            session.status = 'agreed';
+            session.agreed = agreed;
+            delete session.counterOffer;
+            return this.save(this.record(session, { type: 'accept', from: 'requester', at: now.toISOString() }, now));
+        });
+    }
+
+    reject(id: string, party: string, reason: string): Promise<NegotiationSession> {
+        return this.exclusive(async () => {
+            const now = new Date();
+            const session = this.expectOpen(await this.find(id, party, now));
+            return this.save(this.close(session, 'requester', reason, now));
+        });
+    }
+
+    /**
+     * The agreed terms a request is quoted at; they stay available until a release uses them
+     */
+    agreedTerms(id: string, party: string, predicateType: PredicateId, mode: 'emails' | 'answer'): Promise<AgreedTerms> {
+        return this.exclusive(async () => this.expectAgreed(await this.find(id, party, new Date()), predicateType, mode));
+    }
+
+    /**
+     * The agreed terms, used up by the one release made under them
+     */
+    consume(id: string, party: string, predicateType: PredicateId, mode: 'emails' | 'answer'): Promise<AgreedTerms> {
+        return this.exclusive(async () => {
+            const session = await this.find(id, party, new Date());
+            const agreed = this.expectAgreed(session, predicateType, mode);
+            session.status = 'used';
+            await this.save(session);
+            return agreed;
+        });
+    }
+
+    private evaluate(
+        session: NegotiationSession,
+        offer: NegotiationOffer,
+        policy: Policy,
+        requester: RequesterIdentity | undefined,
+        now: Date
+    ): NegotiationSession {
+        session.round += 1;
+        this.record(session, { type: 'offer', from: 'requester', terms: offer, at: now.toISOString() }, now);
+
+        const round = this.agent.evaluateOffer(session.predicateType, offer, session.round, policy, requester);
+        const terms = { ...round.terms, conditions: round.conditions, priceBreakdown: round.priceBreakdown };
+
+        if (round.accepted) {
+            session.status = 'agreed';
+            session.agreed = terms;
+            delete session.counterOffer;
+            return this.record(session, { type: 'accept', from: 'dataguard', at: now.toISOString() }, now);
+        }
+
+        const final = session.round >= session.maxRounds;
+        session.counterOffer = { ...terms, final };
+        return this.record(session, {
+            type: 'counter_offer',
+            from: 'dataguard',
+            terms: round.terms,
+            conditions: round.conditions,
+            final,
+            at: now.toISOString()
+        }, now);
+    }
+
+    private close(session: NegotiationSession, from: 'requester' | 'dataguard', reason: string, now: Date): NegotiationSession {
+        session.status = 'rejected';
+        session.reason = reason;
+        delete session.counterOffer;
+        return this.record(session, { type: 'reject', from, reason, at: now.toISOString() }, now);
+    }
+
+    private record(session: NegotiationSession, message: NegotiationMessage, now: Date): NegotiationSession {
+        session.messages.push(message);
+        session.expiresAt = new Date(now.getTime() + NEGOTIATION_TTL_SECONDS * 1000).toISOString();
+        return session;
+    }
+
+    /**
+     * A session of this party; another party's sessions are reported as unknown
+     */
+    private async find(id: string, party: string, now: Date): Promise<NegotiationSession> {
+        const session = (await loadSessions(now))[id];
+        if (!session || session.party !== party) {
+            throw negotiationError('negotiation_not_found', 'Unknown negotiation');
+        }
+        if (new Date(session.expiresAt).getTime() <= now.getTime() && (session.status === 'open' || session.status === 'agreed')) {
+            session.status = 'expired';
+            await this.save(session);
+        }
+        return session;
+    }
+
+    private expectOpen(session: NegotiationSession): NegotiationSession {
+        if (session.status !== 'open') {
+            throw negotiationError(session.status === 'expired' ? 'negotiation_expired' : 'negotiation_closed', `Negotiation is ${session.status}`);
+        }
+        return session;
+    }
+
+    private expectAgreed(session: NegotiationSession, predicateType: PredicateId, mode: 'emails' | 'answer'): AgreedTerms {
+        if (session.status !== 'agreed') {
+            const reason = session.status === 'expired' ? 'negotiation_expired'
+                : session.status === 'used' ? 'negotiation_used'
+                : 'negotiation_not_agreed';
+            throw negotiationError(reason, `Negotiation is ${session.status}`);
+        }
+        if (session.predicateType !== predicateType || session.mode !== mode) {
+            throw negotiationError(
+                'negotiation_mismatch',
+                `Negotiation is for ${session.predicateType} ${session.mode}, not ${predicateType} ${mode}`
+            );
+        }
+        return session.agreed!;
+    }
+
+    private async save(session: NegotiationSession): Promise<NegotiationSession> {
+        const sessions = await loadSessions(new Date());
+        sessions[session.id] = session;
+        await chrome.storage.session.set({ [STORAGE_KEY]: sessions });
+        return session;
+    }
+
+    // Read-modify-write of the stored sessions one message at a time, so agreed terms are used only once
+    private exclusive<T>(run: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(run);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+}
+
+/**
+ * The policy a release runs under: the user's, narrowed to the agreed terms but never widened by them
+ */
+export function applyNegotiatedTerms(policy: Policy, terms: AgreedTerms): Policy {
+    return {
+        ...policy,
+        maxEmailAge: Math.min(policy.maxEmailAge, terms.maxAge),
+        maxEmailsPerRequest: Math.min(policy.maxEmailsPerRequest, terms.maxEmails),
+        showSubjectInfo: policy.showSubjectInfo && terms.fields.includes('subject'),
+        showSenderInfo: policy.showSenderInfo && terms.fields.includes('sender'),
+        redactEmailBodies: policy.redactEmailBodies || !terms.fields.includes('body'),
+        countDisclosure: resolveDisclosure(terms.countDisclosure, policy.countDisclosure)
+    };
+}
+
+/**
+ * Sessions by id; those past their expiry for longer than a session lasts are dropped
+ */
+async function loadSessions(now: Date): Promise<Record<string, NegotiationSession>> {
+    const result = await chrome.storage.session.get([STORAGE_KEY]);
+    const stored: Record<string, NegotiationSession> = result[STORAGE_KEY] || {};
+    const cutoff = now.getTime() - NEGOTIATION_TTL_SECONDS * 1000;
+
+    return Object.fromEntries(
+        Object.entries(stored).filter(([, session]) => new Date(session.expiresAt).getTime() > cutoff)
+    );
+}
+
+function negotiationError(reason: string, message: string): DataGuardRequestError {
+    return new DataGuardRequestError(dataGuardError('denied_by_policy', reason, message));
+}
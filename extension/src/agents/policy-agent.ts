@@ -1,57 +1,41 @@
 // Policy Negotiation Agent for DataGuard Extension
 // Handles automated pricing and policy enforcement for x402 payments
 
-import { Policy } from '../types';
-import { PaymentRequest, X402PaymentService } from '../payments/x402-service';
-
-export interface NegotiationRequest {
-    predicateType: 'subscription' | 'delivery' | 'purchase' | 'financial';
-    requesterId: string;
-    requesterType: 'ai-agent' | 'third-party-app' | 'human';
-    requestedData: {
-        maxAge: number; // days
-        maxEmails: number;
-        includeBodies: boolean;
-        includePersonalInfo: boolean;
-    };
-    timestamp: number;
-}
-
-export interface NegotiationResult {
-    accepted: boolean;
-    finalPrice?: number;
-    adjustedPolicy?: Partial<Policy>;
-    reason?: string;
-    counterOffer?: {
-        price: number;
-        conditions: string[];
-    };
-}
-
-export interface PricingStrategy {
-    basePrice: number;
-    demandMultiplier: number;
-    privacyMultiplier: number;
-    volumeMultiplier: number;
-}
+import {
+    NegotiableField,
+    NegotiationOffer,
+    NegotiationRequest,
+    NegotiationResult,
+    NegotiationRound,
+    NegotiationStrategy,
+    NegotiationTerms,
+    PaymentRequest,
+    Policy,
+    PredicateId,
+    PriceBreakdown,
+    RequesterIdentity
+} from '../types/index.js';
+import { X402PaymentService } from '../payments/x402-service.js';
+import { predicateRegistry } from '../predicates/index.js';
+import { resolveDisclosure } from '../predicates/predicate-answer.js';
+import { requesterRegistry } from '../requesters/index.js';
 
 export class PolicyAgent {
     private x402Service: X402PaymentService;
     private requestHistory: Map<string, NegotiationRequest[]> = new Map();
-    private pricingStrategies: Map<string, PricingStrategy> = new Map();
 
     constructor() {
         this.x402Service = new X402PaymentService();
-        this.initializePricingStrategies();
         console.log('Policy Agent initialized');
     }
 
     /**
-     * Process incoming data request and negotiate terms
+     * Process incoming data request and negotiate terms, applying the registered requester's rules if any
      */
     async negotiateRequest(
         request: NegotiationRequest,
-        currentPolicy: Policy
+        currentPolicy: Policy,
+        requester?: RequesterIdentity
     ): Promise<NegotiationResult> {
         console.log('Processing data request:', request);
 
@@ -63,18 +47,18 @@ export class PolicyAgent {
             };
         }
 
-        // Check if specific predicate is allowed
-        const isPredicateAllowed = this.isPredicateAllowed(request.predicateType, currentPolicy);
-        if (!isPredicateAllowed) {
+        // Check if specific predicate is allowed for this requester
+        const denial = requesterRegistry.denial(requester, request.predicateType, currentPolicy);
+        if (denial) {
             return {
                 accepted: false,
-                reason: `Access to ${request.predicateType} data is disabled`
+                reason: denial.message
             };
         }
 
         // Calculate dynamic pricing
-        const basePrice = this.getBasePrice(request.predicateType, currentPolicy);
-        const dynamicPrice = this.calculateDynamicPrice(request, basePrice);
+        const basePrice = this.getBasePrice(request.predicateType, currentPolicy, requester);
+        const priceBreakdown = this.calculateDynamicPrice(request, basePrice, currentPolicy.negotiationStrategy);
 
         // Check privacy requirements
         const privacyCompatible = this.checkPrivacyCompatibility(request, currentPolicy);
@@ -83,7 +67,7 @@ export class PolicyAgent {
                 accepted: false,
                 reason: privacyCompatible.reason,
                 counterOffer: {
-                    price: dynamicPrice,
+                    price: priceBreakdown.finalPrice,
                     conditions: privacyCompatible.suggestedConditions || []
                 }
             };
@@ -97,11 +81,68 @@ export class PolicyAgent {
             };
         }
 
-        // Accept request with dynamic pricing
+        // Accept request with dynamic pricing; conditions the policy imposes come back as the accepted terms
+        const conditions = privacyCompatible.suggestedConditions || [];
         return {
             accepted: true,
-            finalPrice: dynamicPrice,
-            adjustedPolicy: this.createAdjustedPolicy(request, currentPolicy)
+            finalPrice: priceBreakdown.finalPrice,
+            priceBreakdown,
+            adjustedPolicy: this.createAdjustedPolicy(request, currentPolicy),
+            ...(conditions.length > 0 ? { counterOffer: { price: priceBreakdown.finalPrice, conditions } } : {})
+        };
+    }
+
+    /**
+     * One round of a negotiation session. An offer the policy allows as made, at or above the asking price, is accepted;
+     * anything else gets a counter-offer with the nearest terms the policy allows. The asking price gives up the
+     * strategy's concession rate of the list price each round, down to its reserve price, or by default to the price
+     * without demand pricing.
+     */
+    evaluateOffer(
+        predicateType: PredicateId,
+        offer: NegotiationOffer,
+        round: number,
+        policy: Policy,
+        requester?: RequesterIdentity,
+        at: number = Date.now()
+    ): NegotiationRound {
+        const strategy = policy.negotiationStrategy;
+        const { terms, conditions, narrowed } = this.boundOffer(predicateType, offer, policy);
+
+        const request: NegotiationRequest = {
+            predicateType,
+            requesterId: requester?.id ?? 'anonymous',
+            // Unregistered requesters are priced as apps; what a request says it is does not count
+            requesterType: requester?.requesterType ?? 'third-party-app',
+            requestedData: {
+                maxAge: terms.maxAge,
+                maxEmails: terms.maxEmails,
+                includeBodies: terms.fields.includes('body'),
+                includePersonalInfo: terms.fields.includes('sender')
+            },
+            timestamp: at
+        };
+
+        // Without a wallet there is nowhere to be paid
+        const basePrice = policy.walletAddress ? this.getBasePrice(predicateType, policy, requester) : 0;
+        const listed = this.calculateDynamicPrice(request, basePrice, strategy);
+        const undemanded = listed.finalPrice / listed.demandMultiplier;
+        const reserve = basePrice > 0 ? Math.max(strategy.reservePrice ?? undemanded, strategy.floorPrice) : 0;
+        const conceded = listed.finalPrice * (1 - strategy.concessionRate * (round - 1));
+        const asking = Math.round(Math.max(reserve, conceded) * 1000) / 1000;
+
+        const accepted = !narrowed && offer.price !== undefined && offer.price >= asking;
+        const price = accepted ? offer.price! : asking;
+
+        return {
+            accepted,
+            terms: { ...terms, price },
+            conditions,
+            priceBreakdown: {
+                ...listed,
+                demandMultiplier: undemanded > 0 ? Math.round(asking / undemanded * 1000) / 1000 : 1.0,
+                finalPrice: price
+            }
         };
     }
 
@@ -125,65 +166,45 @@ export class PolicyAgent {
     /**
      * Check if predicate type is allowed by policy
      */
-    private isPredicateAllowed(predicateType: string, policy: Policy): boolean {
-        switch (predicateType) {
-            case 'subscription':
-                return policy.allowSubscriptionProof;
-            case 'delivery':
-                return policy.allowDeliveryProof;
-            case 'purchase':
-                return policy.allowPurchaseProof;
-            case 'financial':
-                return policy.allowFinancialProof;
-            default:
-                return false;
-        }
+    isPredicateAllowed(predicateType: string, policy: Policy): boolean {
+        return predicateRegistry.isAllowed(predicateType, policy);
     }
 
     /**
-     * Get base price for predicate type
+     * Get base price for predicate type, or the requester's price override
      */
-    private getBasePrice(predicateType: string, policy: Policy): number {
-        const pricing = policy.pricing;
-        
-        switch (predicateType) {
-            case 'subscription':
-                return pricing?.subscription || 0.05;
-            case 'delivery':
-                return pricing?.delivery || 0.10;
-            case 'purchase':
-                return pricing?.purchase || 0.25;
-            case 'financial':
-                return pricing?.financial || 0.50;
-            default:
-                return 0;
-        }
+    getBasePrice(predicateType: string, policy: Policy, requester?: RequesterIdentity): number {
+        return requesterRegistry.getPrice(requester, predicateType, policy);
     }
 
     /**
-     * Calculate dynamic pricing based on demand and conditions
+     * Calculate dynamic pricing based on demand and conditions, with the user's strategy
      */
-    private calculateDynamicPrice(request: NegotiationRequest, basePrice: number): number {
-        const strategy = this.pricingStrategies.get(request.predicateType);
-        if (!strategy) return basePrice;
-
-        let finalPrice = basePrice;
-
-        // Apply demand multiplier based on request history
-        const requestCount = this.getRecentRequestCount(request.predicateType);
-        const demandMultiplier = Math.min(1 + (requestCount * 0.1), 2.0); // Max 2x multiplier
-        finalPrice *= demandMultiplier;
-
-        // Apply privacy multiplier
-        const privacyMultiplier = this.calculatePrivacyMultiplier(request);
-        finalPrice *= privacyMultiplier;
+    private calculateDynamicPrice(request: NegotiationRequest, basePrice: number, strategy: NegotiationStrategy): PriceBreakdown {
+        const breakdown: PriceBreakdown = {
+            basePrice,
+            // Apply demand multiplier based on request history
+            demandMultiplier: Math.min(
+                1 + this.getRecentRequestCount(request.predicateType) * strategy.demandCurve.step,
+                strategy.demandCurve.max
+            ),
+            privacyMultiplier: this.calculatePrivacyMultiplier(request, strategy),
+            volumeMultiplier: this.calculateVolumeMultiplier(request, strategy),
+            requesterMultiplier: strategy.requesterPremiums[request.requesterType] ?? 1.0,
+            timeMultiplier: this.calculateTimeMultiplier(request, strategy),
+            finalPrice: basePrice
+        };
 
-        // Apply volume multiplier
-        const volumeMultiplier = this.calculateVolumeMultiplier(request);
-        finalPrice *= volumeMultiplier;
+        const finalPrice = basePrice *
+            breakdown.demandMultiplier *
+            breakdown.privacyMultiplier *
+            breakdown.volumeMultiplier *
+            breakdown.requesterMultiplier *
+            breakdown.timeMultiplier;
 
-        // Round to 3 decimal places
-        return Math.round(finalPrice * 1000) / 1000;
+        // Round to 3 decimal places; free predicates stay free
+        breakdown.finalPrice = basePrice > 0 ? Math.max(Math.round(finalPrice * 1000) / 1000, strategy.floorPrice) : 0;
+        return breakdown;
     }
 
     /**
@@ -213,6 +234,11 @@ export class PolicyAgent {
             };
         }
 
+        // Predicates with their own redaction (e.g. financial) mask bodies regardless
+        if (request.requestedData.includeBodies && predicateRegistry.get(request.predicateType)?.redact) {
+            conditions.push('Amounts and account numbers are masked in email bodies');
+        }
+
         // Check max email age
         if (request.requestedData.maxAge > policy.maxEmailAge) {
             conditions.push(`Limit to ${policy.maxEmailAge} days maximum`);
@@ -229,6 +255,61 @@ export class PolicyAgent {
         };
     }
 
+    /**
+     * The nearest terms to an offer that the policy allows, the conditions that describe them,
+     * and whether any term had to be narrowed
+     */
+    private boundOffer(
+        predicateType: PredicateId,
+        offer: NegotiationOffer,
+        policy: Policy
+    ): { terms: Omit<NegotiationTerms, 'price'>; conditions: string[]; narrowed: boolean } {
+        const conditions: string[] = [];
+
+        const maxAge = Math.min(offer.maxAge ?? policy.maxEmailAge, policy.maxEmailAge);
+        if (offer.maxAge !== undefined && maxAge < offer.maxAge) {
+            conditions.push(`Limit to ${policy.maxEmailAge} days maximum`);
+        }
+
+        const maxEmails = Math.min(offer.maxEmails ?? policy.maxEmailsPerRequest, policy.maxEmailsPerRequest);
+        if (offer.maxEmails !== undefined && maxEmails < offer.maxEmails) {
+            conditions.push(`Limit to ${policy.maxEmailsPerRequest} emails maximum`);
+        }
+
+        // The same fields the mail service leaves unredacted
+        const released: NegotiableField[] = [
+            ...(policy.showSubjectInfo ? ['subject' as const] : []),
+            ...(policy.showSenderInfo ? ['sender' as const] : []),
+            ...(policy.redactEmailBodies ? [] : ['body' as const])
+        ];
+        const requested = Array.from(new Set(offer.fields ?? released));
+        const refused = requested.filter(field => !released.includes(field));
+        if (refused.includes('body')) conditions.push('Accept redacted email bodies only');
+        if (refused.includes('subject')) conditions.push('Accept redacted subjects only');
+        if (refused.includes('sender')) conditions.push('Accept redacted personal information only');
+        const fields = requested.filter(field => released.includes(field));
+
+        // Predicates with their own redaction (e.g. financial) mask bodies regardless
+        if (fields.includes('body') && predicateRegistry.get(predicateType)?.redact) {
+            conditions.push('Amounts and account numbers are masked in email bodies');
+        }
+
+        const countDisclosure = resolveDisclosure(offer.countDisclosure, policy.countDisclosure);
+        const disclosureNarrowed = offer.countDisclosure !== undefined && countDisclosure !== offer.countDisclosure;
+        if (disclosureNarrowed) {
+            conditions.push(`Counts disclosed as ${countDisclosure} only`);
+        }
+
+        return {
+            terms: { maxAge, maxEmails, fields, countDisclosure },
+            conditions,
+            narrowed: (offer.maxAge !== undefined && maxAge < offer.maxAge) ||
+                (offer.maxEmails !== undefined && maxEmails < offer.maxEmails) ||
+                refused.length > 0 ||
+                disclosureNarrowed
+        };
+    }
+
     /**
      * Create adjusted policy for accepted request
      */
@@ -244,15 +325,15 @@ export class PolicyAgent {
     /**
      * Calculate privacy multiplier based on request sensitivity
      */
-    private calculatePrivacyMultiplier(request: NegotiationRequest): number {
+    private calculatePrivacyMultiplier(request: NegotiationRequest, strategy: NegotiationStrategy): number {
         let multiplier = 1.0;
 
         if (request.requestedData.includeBodies) {
-            multiplier += 0.5; // 50% increase for body access
+            multiplier += strategy.privacyPremiums.body;
         }
 
         if (request.requestedData.includePersonalInfo) {
-            multiplier += 0.3; // 30% increase for personal info
+            multiplier += strategy.privacyPremiums.personalInfo;
         }
 
         return multiplier;
@@ -261,7 +342,7 @@ export class PolicyAgent {
     /**
      * Calculate volume multiplier based on request size
      */
-    private calculateVolumeMultiplier(request: NegotiationRequest): number {
+    private calculateVolumeMultiplier(request: NegotiationRequest, strategy: NegotiationStrategy): number {
         const baseEmails = 10;
         const requestedEmails = request.requestedData.maxEmails;
         
@@ -270,8 +351,19 @@ export class PolicyAgent {
         }
 
         // Graduated pricing for larger requests
-        const volumeMultiplier = 1 + ((requestedEmails - baseEmails) / baseEmails) * 0.2;
-        return Math.min(volumeMultiplier, 2.0); // Cap at 2x
+        const volumeMultiplier = 1 + ((requestedEmails - baseEmails) / baseEmails) * strategy.volumeCurve.step;
+        return Math.min(volumeMultiplier, strategy.volumeCurve.max);
+    }
+
+    /**
+     * Calculate time-of-day multiplier from the hour the request was made, in local time
+     */
+    private calculateTimeMultiplier(request: NegotiationRequest, strategy: NegotiationStrategy): number {
+        const { start, end, multiplier } = strategy.peakHours;
+        const hour = new Date(request.timestamp).getHours();
+        const peak = start <= end ? hour >= start && hour < end : hour >= start || hour < end;
+
+        return peak ? multiplier : 1.0;
     }
 
     /**
@@ -299,39 +391,6 @@ export class PolicyAgent {
         this.requestHistory.set(request.predicateType, existingRequests);
     }
 
-    /**
-     * Initialize pricing strategies for different predicate types
-     */
-    private initializePricingStrategies(): void {
-        this.pricingStrategies.set('subscription', {
-            basePrice: 0.05,
-            demandMultiplier: 1.0,
-            privacyMultiplier: 1.0,
-            volumeMultiplier: 1.0
-        });
-
-        this.pricingStrategies.set('delivery', {
-            basePrice: 0.10,
-            demandMultiplier: 1.0,
-            privacyMultiplier: 1.0,
-            volumeMultiplier: 1.0
-        });
-
-        this.pricingStrategies.set('purchase', {
-            basePrice: 0.25,
-            demandMultiplier: 1.0,
-            privacyMultiplier: 1.0,
-            volumeMultiplier: 1.0
-        });
-
-        this.pricingStrategies.set('financial', {
-            basePrice: 0.50,
-            demandMultiplier: 1.0,
-            privacyMultiplier: 1.0,
-            volumeMultiplier: 1.0
-        });
-    }
-
     /**
      * Get pricing analytics
      */
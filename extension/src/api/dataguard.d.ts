@@ -0,0 +1,235 @@
+// DataGuard page API declarations
+// Published for requesters: reference this file to type window.DataGuard. Also used by the extension's own scripts.
+
+declare namespace DataGuard {
+  type Mode = 'emails' | 'answer';
+  type CountDisclosure = 'exact' | 'bucketed' | 'boolean';
+  type Method = 'capabilities' | 'negotiate' | 'negotiateTerms' | 'request' | 'prove' | 'getPublicTerms';
+
+  type ErrorCode =
+    | 'denied_by_user'
+    | 'denied_by_policy'
+    | 'payment_required'
+    | 'timeout'
+    | 'rate_limited'
+    | 'source_unavailable'
+    | 'internal_error';
+
+  // Why a request was refused or failed; the same body intercepted requests get
+  interface ErrorBody {
+    error: ErrorCode;
+    reason: string; // machine-readable cause within the code, e.g. 'requester_blocked'
+    message: string;
+    retryable: boolean;
+    retryAfter?: number; // seconds
+  }
+
+  interface Failure extends ErrorBody {
+    success: false;
+    accepts?: PaymentRequirements[]; // with payment_required: the x402 options to pay with
+  }
+
+  interface Predicate {
+    type: string; // a predicate id from capabilities()
+    maxAge: number; // days
+    minCount?: number;
+    disclosure?: CountDisclosure; // capped by the user's policy
+  }
+
+  // Values DataGuard binds and signs its output for
+  interface BindingOptions {
+    nonce?: string; // 16-128 URL-safe characters, single use
+    audience?: string; // defaults to the page origin
+  }
+
+  interface Binding {
+    nonce: string;
+    audience: string;
+    issuedAt: string;
+    expiresAt: string;
+  }
+
+  interface Capabilities {
+    version: string; // API version, semver major.minor
+    methods: Method[];
+    modes: Mode[];
+    predicates: {
+      id: string;
+      title: string;
+      description: string;
+      defaultMaxAge: number;
+    }[];
+    attestationKey: {
+      kid: string;
+      alg: 'ES256';
+      jwk: JsonWebKey;
+    } | null;
+  }
+
+  // The price list this site is offered; final prices come from negotiate()
+  interface PublicTerms {
+    currency: 'USDC';
+    predicates: {
+      id: string;
+      title: string;
+      price: number; // base price per request, 0 when free
+      maxAge: number; // the furthest back, in days, the user shares
+    }[];
+    payment: {
+      x402Version: 1;
+      networks: { network: string; assets: string[] }[];
+    } | null; // null when requests are free
+  }
+
+  // x402 requirements entry, as in a 402 response
+  interface PaymentRequirements {
+    scheme: string;
+    network: string;
+    maxAmountRequired: string;
+    resource: string;
+    payTo: string;
+    maxTimeoutSeconds: number;
+    asset: string;
+    [field: string]: unknown;
+  }
+
+  interface NegotiateRequest {
+    predicate: Predicate;
+    mode?: Mode; // default 'emails'
+    negotiation?: string; // quote the terms agreed in this negotiateTerms() session
+  }
+
+  type NegotiableField = 'subject' | 'sender' | 'body';
+
+  interface Terms {
+    price: number; // USDC per request
+    maxAge: number; // days
+    maxEmails: number;
+    fields: NegotiableField[]; // email fields released unredacted; id, date and type always are
+    countDisclosure: CountDisclosure;
+  }
+
+  // A message of a multi-round negotiation; an offer without a negotiation id opens one
+  type NegotiationMessage =
+    | { type: 'offer'; predicate: Predicate; mode?: Mode; terms?: Partial<Terms> }
+    | { type: 'offer'; negotiation: string; terms: Partial<Terms> }
+    | { type: 'accept'; negotiation: string } // takes DataGuard's standing counter-offer
+    | { type: 'reject'; negotiation: string; reason?: string };
+
+  interface Negotiation {
+    success: true;
+    negotiation: string; // once agreed, pass it to negotiate() and then request() or prove(), for one request
+    status: 'open' | 'agreed' | 'rejected' | 'expired' | 'used';
+    round: number;
+    maxRounds: number; // DataGuard's counter to the last offer is final
+    expiresAt: string; // every message extends it
+    offer?: Terms & { conditions: string[]; final: boolean }; // DataGuard's counter-offer while open
+    agreed?: Terms & { conditions: string[] };
+    reason?: string; // why it was rejected
+  }
+
+  interface Quote {
+    success: true;
+    price: number; // USDC
+    conditions: string[];
+    paymentRequired: boolean;
+    accepts?: PaymentRequirements[]; // pay one of these and pass the X-PAYMENT value to request() or prove()
+    expiresAt?: string; // when paymentRequired
+  }
+
+  interface DataRequest extends BindingOptions {
+    predicate: Predicate;
+    mode?: Mode; // default 'emails'
+    purpose?: string; // shown to the user
+    payment?: string; // base64 X-PAYMENT payload for a quote from negotiate()
+    negotiation?: string; // as passed to negotiate(); the agreed terms are used up by this request
+  }
+
+  interface ProofRequest extends BindingOptions {
+    predicate: Predicate; // proves at least minCount (default 1) matching emails; priced like an answer
+    nonce: string; // proofs are only useful to a verifier that issued the nonce
+    purpose?: string;
+    payment?: string;
+    negotiation?: string; // agreed for mode 'answer'
+  }
+
+  // Settlement of a paid request, as in the X-PAYMENT-RESPONSE header
+  interface PaymentReceipt {
+    success: boolean;
+    transaction?: string;
+    network?: string;
+    payer?: string;
+  }
+
+  interface Email {
+    id: string;
+    subject: string;
+    sender: string;
+    date: string;
+    body: string;
+    type: string;
+  }
+
+  interface Answer {
+    predicate: string;
+    satisfied: boolean;
+    minCount: number;
+    count?: number; // exact disclosure only
+    countBucket?: string; // bucketed disclosure only, e.g. '5-9'
+    disclosure: CountDisclosure;
+    window: { from: string; to: string; days: number };
+    binding: Binding;
+    attestation: string; // compact JWS
+  }
+
+  interface EmailsResult {
+    success: true;
+    mode: 'emails';
+    data: Email[];
+    binding: Binding;
+    attestation: string; // compact JWS; its dataHash is the SHA-256 of JSON.stringify(data)
+    payment?: PaymentReceipt;
+  }
+
+  interface AnswerResult {
+    success: true;
+    mode: 'answer';
+    answer: Answer;
+    payment?: PaymentReceipt;
+  }
+
+  interface ProofResult {
+    success: true;
+    proof: {
+      circuit: string;
+      predicate: Predicate;
+      threshold: number;
+      window: { from: string; to: string; days: number };
+      commitment: string;
+      binding: Binding;
+      attestation: string;
+      proof: unknown; // Groth16 proof
+      publicSignals: string[];
+      timestamp: string;
+    };
+    payment?: PaymentReceipt;
+  }
+
+  /**
+   * Refusals and failures of data calls resolve to a Failure; invalid arguments reject with a TypeError,
+   * and capabilities() or getPublicTerms() reject with an Error when the extension cannot answer
+   */
+  interface API {
+    readonly version: string;
+    capabilities(): Promise<Capabilities>;
+    negotiate(request: NegotiateRequest): Promise<Quote | Failure>;
+    negotiateTerms(message: NegotiationMessage): Promise<Negotiation | Failure>;
+    request(request: DataRequest): Promise<EmailsResult | AnswerResult | Failure>;
+    prove(request: ProofRequest): Promise<ProofResult | Failure>;
+    getPublicTerms(): Promise<PublicTerms>;
+  }
+}
+
+interface Window {
+  readonly DataGuard?: DataGuard.API;
+}
@@ -0,0 +1,160 @@
+// Attestation Service for DataGuard Extension
+// Signs responses and proofs as compact JWS with a per-install ECDSA P-256 key
+
+import { AttestationClaims, AttestationPublicKey, EmailPredicate, Policy, RequestBinding } from '../types/index.js';
+
+const STORAGE_KEY = 'attestationKey';
+
+const SIGNING_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+const KEY_ALGORITHM: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+
+interface StoredKey {
+    publicKey: AttestationPublicKey;
+    privateJwk: JsonWebKey;
+}
+
+/**
+ * base64url without padding, as JWS requires
+ */
+export function base64url(data: Uint8Array | string): string {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    let binary = '';
+    bytes.forEach(byte => binary += String.fromCharCode(byte));
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * JSON with object keys sorted, so equal values always hash the same
+ */
+export function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value)
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Hex SHA-256 of a string
+ */
+export async function sha256Hex(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export class AttestationService {
+    private key: Promise<{ publicKey: AttestationPublicKey; privateKey: CryptoKey }> | null = null;
+
+    /**
+     * Load the install's signing key, generating it on first use
+     */
+    async ensureKeyPair(): Promise<AttestationPublicKey> {
+        return (await this.loadKey()).publicKey;
+    }
+
+    async getPublicKey(): Promise<AttestationPublicKey> {
+        return this.ensureKeyPair();
+    }
+
+    /**
+     * Sign the outcome of a request as a compact JWS. `origin` is the requester's origin as the browser reported it;
+     * the page chooses the binding's audience, so verifiers compare the two.
+     */
+    async attest(
+        kind: AttestationClaims['kind'],
+        predicate: EmailPredicate,
+        result: unknown,
+        policy: Policy,
+        binding: RequestBinding,
+        origin: string
+    ): Promise<string> {
+        const claims: AttestationClaims = {
+            iss: 'dataguard',
+            kind,
+            predicate,
+            result,
+            policyHash: await sha256Hex(canonicalJson(policy)),
+            aud: binding.audience,
+            origin,
+            nonce: binding.nonce,
+            iat: Math.floor(new Date(binding.issuedAt).getTime() / 1000),
+            exp: Math.floor(new Date(binding.expiresAt).getTime() / 1000)
+        };
+
+        return this.sign(claims);
+    }
+
+    private async sign(claims: AttestationClaims): Promise<string> {
+        const { publicKey, privateKey } = await this.loadKey();
+
+        const header = { alg: publicKey.alg, typ: 'JWT', kid: publicKey.kid };
+        const signingInput = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(claims))}`;
+
+        // WebCrypto ECDSA signatures are already raw r||s, the JWS encoding
+        const signature = await crypto.subtle.sign(
+            SIGNING_ALGORITHM,
+            privateKey,
+            new TextEncoder().encode(signingInput)
+        );
+
+        return `${signingInput}.${base64url(new Uint8Array(signature))}`;
+    }
+
+    private loadKey() {
+        if (!this.key) {
+            this.key = this.readOrCreateKey().catch(error => {
+                this.key = null;
+                throw error;
+            });
+        }
+        return this.key;
+    }
+
+    private async readOrCreateKey(): Promise<{ publicKey: AttestationPublicKey; privateKey: CryptoKey }> {
+        const result = await chrome.storage.local.get([STORAGE_KEY]);
+        let stored: StoredKey | undefined = result[STORAGE_KEY];
+
+        if (!stored) {
+            stored = await this.generateKey();
+            await chrome.storage.local.set({ [STORAGE_KEY]: stored });
+            console.log('Generated attestation key', stored.publicKey.kid);
+        }
+
+        const privateKey = await crypto.subtle.importKey('jwk', stored.privateJwk, KEY_ALGORITHM, false, ['sign']);
+        return { publicKey: stored.publicKey, privateKey };
+    }
+
+    private async generateKey(): Promise<StoredKey> {
+        // Extractable so the private half can be persisted in chrome.storage.local
+        const pair = await crypto.subtle.generateKey(KEY_ALGORITHM, true, ['sign', 'verify']) as CryptoKeyPair;
+        const publicJwk = await crypto.subtle.exportKey('jwk', pair.publicKey);
+        const privateJwk = await crypto.subtle.exportKey('jwk', pair.privateKey);
+
+        const jwk: JsonWebKey = { kty: publicJwk.kty, crv: publicJwk.crv, x: publicJwk.x, y: publicJwk.y };
+
+        return {
+            publicKey: {
+                kid: await this.thumbprint(jwk),
+                alg: 'ES256',
+                jwk,
+                createdAt: new Date().toISOString()
+            },
+            privateJwk
+        };
+    }
+
+    /**
+     * RFC 7638 thumbprint: SHA-256 over the required EC members in lexical order
+     */
+    private async thumbprint(jwk: JsonWebKey): Promise<string> {
+        const members = JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y });
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(members));
+        return base64url(new Uint8Array(digest));
+    }
+}
@@ -1,90 +1,44 @@
 // Background service worker for DataGuard extension
 // Handles request interception, x402 payment processing, and communication with content scripts
 
-// Import services (Note: In a real implementation, these would be imported as modules)
-// For now, we'll define the interfaces and implement simplified versions
-
-interface EmailData {
-  id: string;
-  subject: string;
-  sender: string;
-  date: string;
-  body: string;
-  type: string;
-}
-
-interface EmailPredicate {
-  type: 'subscription' | 'delivery' | 'purchase';
-  maxAge: number;
-}
-
-interface Policy {
-  globalDataSharing: boolean;
-  allowSubscriptionProof: boolean;
-  allowDeliveryProof: boolean;
-  allowPurchaseProof: boolean;
-  allowFinancialProof: boolean;
-  redactEmailBodies: boolean;
-  redactPersonalInfo: boolean;
-  pricing: {
-    subscription: number;
-    delivery: number;
-    purchase: number;
-    financial: number;
-  };
-  maxEmailAge: number;
-  maxEmailsPerRequest: number;
-  requestTimeout: number;
-  walletAddress: string;
-  facilitatorUrl: string;
-  network: 'polygon' | 'polygon-mumbai';
-  showSenderInfo: boolean;
-  showSubjectInfo: boolean;
-  lastUpdated?: string;
-  version?: string;
-}
-
-interface X402PaymentRequest {
-  predicateType: string;
-  price: number;
-  walletAddress: string;
-  facilitatorUrl: string;
-  network: 'polygon' | 'polygon-mumbai';
-  requestId: string;
-  timestamp: number;
-}
-
-interface X402PaymentResponse {
-  success: boolean;
-  paymentProof?: string;
-  transactionHash?: string;
-  error?: string;
-  facilitatorResponse?: any;
-}
-
-interface NegotiationRequest {
-  predicateType: 'subscription' | 'delivery' | 'purchase' | 'financial';
-  requesterId: string;
-  requesterType: 'ai-agent' | 'third-party-app' | 'human';
-  requestedData: {
-    maxAge: number;
-    maxEmails: number;
-    includeBodies: boolean;
-    includePersonalInfo: boolean;
-  };
-  timestamp: number;
-}
+import { AgreedTerms, ApprovalDecision, ApprovalTicket, ApprovedPayment, DataGuardError, EarningsPeriod, EmailPredicate, NegotiationRequest, NegotiationSession, IssuedQuote, OfferSimulation, PaymentRecord, PaymentRequest, PaymentRequirements, PaymentResponse, Policy, PriceBreakdown, RequesterIdentity } from './types/index.js';
+import { PolicyAgent } from './agents/policy-agent.js';
+import { NegotiationSessions, applyNegotiatedTerms } from './agents/negotiation-sessions.js';
+import { X402PaymentService } from './payments/x402-service.js';
+import { EarningsLedger, earningsToCsv, earningsToJson, summarizeEarnings } from './payments/earnings-ledger.js';
+import { createAuthorizedPayment, paymentRecordId } from './payments/payment-state.js';
+import { FREE_QUOTE_TTL_SECONDS, IssuedQuotes } from './payments/issued-quotes.js';
+import { AssetDefinition, networkRegistry } from './networks/index.js';
+import { MailService } from './mail-service.js';
+import { predicateRegistry } from './predicates/index.js';
+import { ProofService } from './proofs/proof-service.js';
+import { createRequestBinding } from './binding/request-binding.js';
+import { DataGuardRequestError, dataGuardError, toDataGuardError } from './errors/dataguard-error.js';
+import { AttestationService, sha256Hex } from './attestations/attestation-service.js';
+import { ensureUserPolicy, getUserPolicy, mergeStrategy, saveUserPolicy } from './policy/policy-store.js';
+import { requesterRegistry } from './requesters/index.js';
+import { addConsentGrant, findConsentGrant, getConsentGrants, revokeConsentGrant } from './consent/consent-store.js';
+import { ApprovalPrompts, applyApprovalScope } from './consent/approval-prompts.js';
+import { ApprovalTickets } from './consent/approval-tickets.js';
+import {
+  addInterceptRule,
+  applyInterceptRules,
+  getInterceptRules,
+  removeInterceptRule,
+  toInterceptMatchers,
+  updateInterceptRule
+} from './interception/intercept-rules.js';
 
-interface NegotiationResult {
-  accepted: boolean;
-  finalPrice?: number;
-  adjustedPolicy?: Partial<Policy>;
-  reason?: string;
-  counterOffer?: {
-    price: number;
-    conditions: string[];
-  };
-}
+const policyAgent = new PolicyAgent();
+const negotiationSessions = new NegotiationSessions(policyAgent);
+const x402Service = new X402PaymentService();
+const mailService = new MailService();
+const proofService = new ProofService();
+const attestationService = new AttestationService();
+const earningsLedger = new EarningsLedger();
+const approvalPrompts = new ApprovalPrompts();
+const approvalTickets = new ApprovalTickets();
+const issuedQuotes = new IssuedQuotes();
 
 // Listen for messages from content scripts
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
@@ -92,100 +46,288 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   
   switch (message.type) {
     case 'REQUEST_EMAIL_DATA':
-      handleEmailDataRequest(message.data, sendResponse);
+      handleEmailDataRequest(message.data, sender, sendResponse);
       return true; // Keep message channel open for async response
       
+    case 'ANSWER_PREDICATE':
+      handlePredicateAnswer(message.data, sender, sendResponse);
+      return true;
+      
     case 'GENERATE_PROOF':
-      handleProofGeneration(message.data, sendResponse);
+      handleProofGeneration(message.data, sender, sendResponse);
       return true;
       
     case 'GET_USER_POLICY':
-      handleGetUserPolicy(sendResponse);
+      handleGetUserPolicy(sender, sendResponse);
       return true;
       
     case 'UPDATE_USER_POLICY':
-      handleUpdateUserPolicy(message.data, sendResponse);
+      handleUpdateUserPolicy(message.data, sender, sendResponse);
+      return true;
+      
+    case 'SIMULATE_OFFER':
+      handleSimulateOffer(message.data, sender, sendResponse);
       return true;
       
     case 'PROCESS_PAYMENT':
-      handleProcessPayment(message.data, sendResponse);
+      handleProcessPayment(message.data, sender, sendResponse);
       return true;
       
     case 'VERIFY_PAYMENT':
-      handleVerifyPayment(message.data, sendResponse);
+      handleVerifyPayment(message.data, sender, sendResponse);
       return true;
       
     case 'NEGOTIATE_REQUEST':
-      handleNegotiateRequest(message.data, sendResponse);
+      handleNegotiateRequest(message.data, sender, sendResponse);
+      return true;
+      
+    case 'NEGOTIATE_TERMS':
+      handleNegotiateTerms(message.data, sender, sendResponse);
+      return true;
+      
+    case 'QUOTE_DATA_REQUEST':
+      handleQuoteDataRequest(message.data, sender, sendResponse);
+      return true;
+      
+    case 'VERIFY_X402_PAYMENT':
+      handleVerifyX402Payment(message.data, sender, sendResponse);
+      return true;
+      
+    case 'SETTLE_X402_PAYMENT':
+      handleSettleX402Payment(message.data, sender, sendResponse);
+      return true;
+      
+    case 'RELEASE_X402_PAYMENT':
+      handleReleaseX402Payment(message.data, sender, sendResponse);
+      return true;
+      
+    case 'REFUND_X402_PAYMENT':
+      handleRefundX402Payment(message.data, sender, sendResponse);
+      return true;
+      
+    case 'GET_PUBLIC_TERMS':
+      handleGetPublicTerms(sender, sendResponse);
+      return true;
+      
+    case 'GET_PUBLIC_KEY':
+      handleGetPublicKey(sendResponse);
+      return true;
+      
+    case 'GET_EARNINGS':
+      handleGetEarnings(message.data, sender, sendResponse);
+      return true;
+      
+    case 'EXPORT_EARNINGS':
+      handleExportEarnings(message.data, sender, sendResponse);
+      return true;
+      
+    case 'GET_REQUESTERS':
+      handleGetRequesters(sender, sendResponse);
+      return true;
+      
+    case 'ADD_REQUESTER':
+      handleAddRequester(message.data, sender, sendResponse);
+      return true;
+      
+    case 'UPDATE_REQUESTER':
+      handleUpdateRequester(message.data, sender, sendResponse);
+      return true;
+      
+    case 'REMOVE_REQUESTER':
+      handleRemoveRequester(message.data, sender, sendResponse);
+      return true;
+      
+    case 'GET_CONSENT_GRANTS':
+      handleGetConsentGrants(sender, sendResponse);
+      return true;
+      
+    case 'REVOKE_CONSENT_GRANT':
+      handleRevokeConsentGrant(message.data, sender, sendResponse);
+      return true;
+      
+    case 'REQUEST_APPROVAL':
+      handleRequestApproval(message.data, sender, sendResponse);
+      return true;
+      
+    case 'CANCEL_APPROVAL':
+      handleCancelApproval(message.data, sender, sendResponse);
+      return true;
+      
+    case 'GET_APPROVAL_REQUEST':
+      handleGetApprovalRequest(message.data, sender, sendResponse);
+      return true;
+      
+    case 'PREVIEW_APPROVAL_REQUEST':
+      handlePreviewApprovalRequest(message.data, sender, sendResponse);
+      return true;
+      
+    case 'RESOLVE_APPROVAL_REQUEST':
+      handleResolveApprovalRequest(message.data, sender, sendResponse);
+      return true;
+      
+    case 'GET_INTERCEPT_RULES':
+      handleGetInterceptRules(sendResponse);
+      return true;
+      
+    case 'ADD_INTERCEPT_RULE':
+      handleAddInterceptRule(message.data, sender, sendResponse);
+      return true;
+      
+    case 'UPDATE_INTERCEPT_RULE':
+      handleUpdateInterceptRule(message.data, sender, sendResponse);
+      return true;
+      
+    case 'REMOVE_INTERCEPT_RULE':
+      handleRemoveInterceptRule(message.data, sender, sendResponse);
       return true;
       
+    case 'GET_PREDICATES':
+      sendResponse({ success: true, predicates: predicateRegistry.describe() });
+      break;
+      
     default:
       console.warn('Unknown message type:', message.type);
       sendResponse({ error: 'Unknown message type' });
   }
 });
 
-async function handleEmailDataRequest(request: any, sendResponse: (response: any) => void) {
+async function handleEmailDataRequest(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  let approval: ApprovalTicket | undefined;
   try {
+    approval = await redeemApproval(request, sender, 'emails');
+    const release = approvedRelease(request, approval);
+    
     // Get user policy from storage
     const policy = await getUserPolicy();
+    const requester = await resolveRequester(sender);
     
-    // Check if request is allowed by policy
-    if (!isRequestAllowed(request, policy)) {
-      sendResponse({ 
-        error: 'Request not allowed by user policy',
-        policy: policy 
-      });
+    // Check if request is allowed by policy, the requester's rules and its rate limit
+    const denial = await authorizeDataRequest(release.predicate, policy, requester);
+    if (denial) {
+      await voidPayment(approval?.payment, denial.message);
+      sendResponse({ success: false, ...denial });
       return;
     }
     
-    // Fetch email data from mail-demo service
-    const emailData = await fetchEmailData(request.predicate);
+    const binding = createRequestBinding(release);
+    const releasePolicy = await negotiatedPolicy(release, 'emails', policy, sender, requester);
     
-    // Apply redaction based on policy
-    const redactedData = applyRedaction(emailData, policy);
+    // Fetch, window, cap and redact email data from mail-demo service; the user may have approved fewer emails
+    const redactedData = await mailService.prepareEmailResponse(release.predicate, releasePolicy, release.maxEmails);
+    
+    // Requesters hash the response body they received to compare with dataHash
+    const attestation = await attestationService.attest('emails', release.predicate, {
+      emailCount: redactedData.length,
+      dataHash: await sha256Hex(JSON.stringify(redactedData))
+    }, releasePolicy, binding, senderOrigin(sender));
     
     sendResponse({
       success: true,
       data: redactedData,
-      policy: policy
+      binding: binding,
+      attestation: attestation,
+      policy: releasePolicy,
+      settlement: await settleApprovedPayment(approval)
     });
     
   } catch (error) {
     console.error('Error handling email data request:', error);
-    sendResponse({ 
-      error: 'Failed to process email data request',
-      details: error instanceof Error ? error.message : String(error)
+    await voidPayment(approval?.payment, error instanceof Error ? error.message : String(error));
+    sendResponse({ success: false, ...toDataGuardError(error) });
+  }
+}
+
+async function handlePredicateAnswer(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  let approval: ApprovalTicket | undefined;
+  try {
+    approval = await redeemApproval(request, sender, 'answer');
+    const release = approvedRelease(request, approval);
+    
+    const policy = await getUserPolicy();
+    const requester = await resolveRequester(sender);
+    
+    const denial = await authorizeDataRequest(release.predicate, policy, requester);
+    if (denial) {
+      await voidPayment(approval?.payment, denial.message);
+      sendResponse({ success: false, ...denial });
+      return;
+    }
+    
+    const binding = createRequestBinding(release);
+    const releasePolicy = await negotiatedPolicy(release, 'answer', policy, sender, requester);
+    
+    // Only the aggregate answer leaves the extension, never the emails
+    const answer = await mailService.answerPredicate(release.predicate, releasePolicy);
+    const attestation = await attestationService.attest('answer', release.predicate, answer, releasePolicy, binding, senderOrigin(sender));
+    
+    sendResponse({
+      success: true,
+      answer: { ...answer, binding, attestation },
+      settlement: await settleApprovedPayment(approval)
     });
+    
+  } catch (error) {
+    console.error('Error answering predicate:', error);
+    await voidPayment(approval?.payment, error instanceof Error ? error.message : String(error));
+    sendResponse({ success: false, ...toDataGuardError(error) });
   }
 }
 
-async function handleProofGeneration(request: any, sendResponse: (response: any) => void) {
+async function handleProofGeneration(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  let approval: ApprovalTicket | undefined;
   try {
-    // For now, generate a mock proof without ZK
-    const mockProof = {
-      predicate: request.predicate,
-      emailCount: request.emailData.length,
-      proof: 'mock-proof-' + Date.now(),
-      publicSignals: [request.emailData.length.toString()],
-      timestamp: new Date().toISOString()
+    // Proofs are approved as answers, which reveal as much
+    approval = await redeemApproval(request, sender, 'answer');
+    const release = approvedRelease(request, approval);
+    
+    const policy = await getUserPolicy();
+    const requester = await resolveRequester(sender);
+    
+    const denial = await authorizeDataRequest(release.predicate, policy, requester);
+    if (denial) {
+      await voidPayment(approval?.payment, denial.message);
+      sendResponse({ success: false, ...denial });
+      return;
+    }
+    
+    // A proof is only useful to a verifier that issued the nonce, so one is required
+    const binding = createRequestBinding(release, true);
+    
+    // Proofs are negotiated as answers, which reveal as much
+    const releasePolicy = await negotiatedPolicy(release, 'answer', policy, sender, requester);
+    
+    // Prove over the extension's own inbox, never over requester-supplied emails
+    const predicate: EmailPredicate = {
+      ...release.predicate,
+      maxAge: Math.min(release.predicate.maxAge, releasePolicy.maxEmailAge)
     };
+    const emails = await mailService.getEmails();
+    const proof = await proofService.generateCountProof(emails, predicate, binding);
+    const attestation = await attestationService.attest('proof', predicate, {
+      circuit: proof.circuit,
+      publicSignals: proof.publicSignals
+    }, releasePolicy, binding, senderOrigin(sender));
     
     sendResponse({
       success: true,
-      proof: mockProof
+      proof: { ...proof, attestation },
+      settlement: await settleApprovedPayment(approval)
     });
   } catch (error) {
     console.error('Error generating proof:', error);
-    sendResponse({ 
-      error: 'Failed to generate proof',
-      details: error instanceof Error ? error.message : String(error)
-    });
+    await voidPayment(approval?.payment, error instanceof Error ? error.message : String(error));
+    sendResponse({ success: false, ...toDataGuardError(error) });
   }
 }
 
-async function handleGetUserPolicy(sendResponse: (response: any) => void) {
+async function handleGetUserPolicy(sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
   try {
+    // The policy is the user's own business; pages only see what getPublicTerms offers them
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'The user policy is only available to extension pages' });
+      return;
+    }
+    
     const policy = await getUserPolicy();
     sendResponse({
       success: true,
@@ -200,9 +342,14 @@ async function handleGetUserPolicy(sendResponse: (response: any) => void) {
   }
 }
 
-async function handleUpdateUserPolicy(policy: any, sendResponse: (response: any) => void) {
+async function handleUpdateUserPolicy(policy: Policy, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
   try {
-    await chrome.storage.local.set({ userPolicy: policy });
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'The user policy can only be changed from extension pages' });
+      return;
+    }
+    
+    await saveUserPolicy(policy);
     sendResponse({
       success: true,
       message: 'Policy updated successfully'
@@ -216,168 +363,280 @@ async function handleUpdateUserPolicy(policy: any, sendResponse: (response: any)
   }
 }
 
-async function getUserPolicy() {
-  const result = await chrome.storage.local.get(['userPolicy']);
-  return result.userPolicy || getDefaultPolicy();
-}
-
-function getDefaultPolicy() {
-  return {
-    allowSubscriptionProof: true,
-    allowDeliveryProof: true,
-    allowPurchaseProof: false,
-    maxEmailAge: 90, // days
-    redactEmailBodies: true,
-    showSenderInfo: true,
-    showSubjectInfo: true
-  };
-}
-
-function isRequestAllowed(request: any, policy: any): boolean {
-  // Check if the requested predicate type is allowed
-  switch (request.predicate.type) {
-    case 'subscription':
-      return policy.allowSubscriptionProof;
-    case 'delivery':
-      return policy.allowDeliveryProof;
-    case 'purchase':
-      return policy.allowPurchaseProof;
-    default:
-      return false;
+/**
+ * How the PolicyAgent would answer an offer under a policy still being edited, without opening a negotiation
+ */
+async function handleSimulateOffer(simulation: OfferSimulation, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'Offers can only be simulated from extension pages' });
+      return;
+    }
+    
+    const stored = await getUserPolicy();
+    const policy: Policy = {
+      ...stored,
+      ...simulation.policy,
+      pricing: { ...stored.pricing, ...simulation.policy.pricing },
+      negotiationStrategy: mergeStrategy(stored.negotiationStrategy, simulation.policy.negotiationStrategy)
+    };
+    
+    const at = new Date();
+    at.setHours(simulation.hour, 0, 0, 0);
+    
+    // A requester of the chosen type with no profile of its own
+    const requester: RequesterIdentity = {
+      id: 'simulation',
+      name: 'Simulated requester',
+      origin: '',
+      requesterType: simulation.requesterType
+    };
+    
+    sendResponse({
+      success: true,
+      allowed: policyAgent.isPredicateAllowed(simulation.predicateType, policy),
+      round: policyAgent.evaluateOffer(simulation.predicateType, simulation.offer, simulation.round, policy, requester, at.getTime())
+    });
+  } catch (error) {
+    console.error('Offer simulation error:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
   }
 }
 
-async function fetchEmailData(predicate: EmailPredicate): Promise<EmailData[]> {
-  // Connect to the mail-demo service with proper URL parameters
+/**
+ * What the requesting site is offered: the predicates it may ask for, their base prices and how it can pay.
+ * Per-request prices still come from negotiation.
+ */
+async function handleGetPublicTerms(sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
   try {
-    const url = `http://localhost:3000/api/emails?type=${predicate.type}`;
-    console.log('Fetching email data from:', url);
+    const policy = await getUserPolicy();
+    const requester = await resolveRequester(sender);
+    const paid = !!policy.walletAddress;
     
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    const networks = new Map<string, string[]>();
+    if (paid) {
+      networkRegistry.getPaymentOptions(policy).forEach(({ network, asset }) => {
+        networks.set(network.id, [...(networks.get(network.id) ?? []), asset.symbol]);
+      });
     }
-    const emails = await response.json();
-    console.log(`Fetched ${emails.length} emails from mail-demo service`);
     
-    // Apply additional filtering based on predicate criteria
-    return filterEmailsByPredicate(emails, predicate);
+    const terms: DataGuard.PublicTerms = {
+      currency: 'USDC',
+      predicates: predicateRegistry.list()
+        .filter(definition => !requestDenial({ type: definition.id, maxAge: policy.maxEmailAge }, policy, requester))
+        .map(definition => ({
+          id: definition.id,
+          title: definition.title,
+          price: paid ? requesterRegistry.getPrice(requester, definition.id, policy) : 0,
+          maxAge: policy.maxEmailAge
+        })),
+      payment: paid
+        ? { x402Version: 1, networks: Array.from(networks, ([network, assets]) => ({ network, assets })) }
+        : null
+    };
+    
+    sendResponse({ success: true, terms });
+  } catch (error) {
+    console.error('Error getting public terms:', error);
+    sendResponse({ success: false, ...toDataGuardError(error) });
+  }
+}
+
+async function handleGetPublicKey(sendResponse: (response: any) => void) {
+  try {
+    const publicKey = await attestationService.getPublicKey();
+    sendResponse({
+      success: true,
+      publicKey: publicKey
+    });
   } catch (error) {
-    console.error('Failed to fetch email data from mail-demo service:', error);
-    // Fallback to mock data for development
-    console.log('Using mock data as fallback');
-    return getMockEmailData(predicate);
+    console.error('Error getting public key:', error);
+    sendResponse({ 
+      error: 'Failed to get public key',
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+function requestDenial(predicate: EmailPredicate, policy: Policy, requester?: RequesterIdentity): DataGuardError | undefined {
+  if (!policy.globalDataSharing) {
+    return dataGuardError('denied_by_policy', 'sharing_disabled', 'Global data sharing is disabled');
+  }
+  return requesterRegistry.denial(requester, predicate.type, policy);
+}
+
+/**
+ * Policy, requester rules and rate limit for a request that releases data; an allowed request counts against the limit
+ */
+async function authorizeDataRequest(predicate: EmailPredicate, policy: Policy, requester?: RequesterIdentity): Promise<DataGuardError | undefined> {
+  const denial = requestDenial(predicate, policy, requester) ?? await requesterRegistry.checkRateLimit(requester);
+  if (!denial) {
+    await requesterRegistry.recordRequest(requester);
+  }
+  return denial;
+}
+
+/**
+ * The policy a release runs under. A request made under negotiated terms gets the policy narrowed to them,
+ * and uses the terms up; its attestation's policyHash then covers them too.
+ */
+async function negotiatedPolicy(
+  request: any,
+  mode: 'emails' | 'answer',
+  policy: Policy,
+  sender: chrome.runtime.MessageSender,
+  requester?: RequesterIdentity
+): Promise<Policy> {
+  if (!request.negotiationId) {
+    return policy;
   }
+  const agreed = await negotiationSessions.consume(
+    request.negotiationId,
+    negotiationParty(sender, requester),
+    request.predicate.type,
+    mode
+  );
+  return applyNegotiatedTerms(policy, agreed);
 }
 
-function filterEmailsByPredicate(emails: any[], predicate: EmailPredicate): EmailData[] {
-  const now = new Date();
-  const cutoffDate = new Date(now.getTime() - predicate.maxAge * 24 * 60 * 60 * 1000);
+/**
+ * The approval a page's release is made under, used up by it. Extension pages act for the user and need none.
+ */
+async function redeemApproval(
+  request: any,
+  sender: chrome.runtime.MessageSender,
+  mode: 'emails' | 'answer'
+): Promise<ApprovalTicket | undefined> {
+  const origin = pageOrigin(sender);
+  return origin ? approvalTickets.consume(request.approvalId, origin, mode) : undefined;
+}
+
+// A page's release runs on the approved predicate, email cap and negotiation, whatever its message says
+function approvedRelease(request: any, approval?: ApprovalTicket): any {
+  return approval
+    ? { ...request, predicate: approval.predicate, maxEmails: approval.maxEmails, negotiationId: approval.negotiationId }
+    : request;
+}
+
+/**
+ * Settle the payment a release was approved with, once its data is ready. Returns the X-PAYMENT-RESPONSE body, if paid.
+ */
+async function settleApprovedPayment(approval?: ApprovalTicket): Promise<object | undefined> {
+  const payment = approval?.payment;
+  if (!payment) {
+    return undefined;
+  }
   
-  console.log(`Filtering emails by predicate: ${predicate.type}, maxAge: ${predicate.maxAge} days`);
+  const record = await earningsLedger.get(payment.id);
+  if (record?.state !== 'authorized') {
+    throw new DataGuardRequestError(
+      dataGuardError('payment_required', 'payment_unavailable', `Payment is ${record ? `already ${record.state}` : 'unknown'}`)
+    );
+  }
   
-  return emails.filter(email => {
-    // Check date filter
-    const emailDate = new Date(email.timestamp || email.date);
-    if (emailDate < cutoffDate) {
-      console.log(`Email ${email.id} filtered out due to age (${emailDate.toISOString()} < ${cutoffDate.toISOString()})`);
-      return false;
-    }
-    
-    // Since the mail-demo service already filters by type, we mainly need to check date
-    // But we can also do additional keyword-based filtering for robustness
-    const emailType = email.type || 'general';
-    const subject = email.subject || '';
-    const sender = email.from || email.sender || '';
-    
-    switch (predicate.type) {
-      case 'subscription':
-        return emailType === 'subscription' || 
-               subject.toLowerCase().includes('unsubscribe') ||
-               subject.toLowerCase().includes('subscription') ||
-               subject.toLowerCase().includes('newsletter');
-      case 'delivery':
-        return emailType === 'delivery' ||
-               subject.toLowerCase().includes('delivered') ||
-               subject.toLowerCase().includes('delivery') ||
-               sender.toLowerCase().includes('amazon') ||
-               sender.toLowerCase().includes('dhl') ||
-               sender.toLowerCase().includes('ups');
-      case 'purchase':
-        return emailType === 'purchase' ||
-               subject.toLowerCase().includes('order') ||
-               subject.toLowerCase().includes('receipt') ||
-               subject.toLowerCase().includes('payment');
-      default:
-        return false;
-    }
-  }).map(email => ({
-    id: email.id,
-    subject: email.subject,
-    sender: email.from || email.sender,
-    date: email.timestamp || email.date,
-    body: email.body,
-    type: email.type
-  }));
-}
-
-function applyRedaction(emailData: EmailData[], policy: any): EmailData[] {
-  return emailData.map(email => ({
-    ...email,
-    body: policy.redactEmailBodies ? '[REDACTED]' : email.body,
-    subject: policy.showSubjectInfo ? email.subject : '[REDACTED]',
-    sender: policy.showSenderInfo ? email.sender : '[REDACTED]'
-  }));
-}
-
-function getMockEmailData(predicate: EmailPredicate): EmailData[] {
-  // Mock data for development when mail-demo service is not available
-  const mockEmails: EmailData[] = [
-    {
-      id: '1',
-      subject: 'Your Amazon order has been delivered',
-      sender: 'noreply@amazon.com',
-      date: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-      body: 'Your order #123-456789 has been delivered to your address.',
-      type: 'delivery'
-    },
-    {
-      id: '2',
-      subject: 'Newsletter: Weekly Tech Updates',
-      sender: 'newsletter@techcrunch.com',
-      date: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
-      body: 'This week in tech: AI breakthroughs, startup funding, and more.',
-      type: 'subscription'
-    }
-  ];
+  const paymentResponse = await x402Service.settlePayment(payment.paymentHeader, payment.requirements, await getUserPolicy());
+  await recordSettlement(record, paymentResponse);
+  if (!paymentResponse.success) {
+    throw new DataGuardRequestError(
+      dataGuardError('payment_required', 'settlement_failed', paymentResponse.error || 'Payment settlement failed')
+    );
+  }
   
-  return filterEmailsByPredicate(mockEmails, predicate);
+  return {
+    success: true,
+    transaction: paymentResponse.transactionHash,
+    network: payment.requirements.network,
+    payer: paymentResponse.payer
+  };
+}
+
+/**
+ * Release the unsettled authorization of a request that was denied or could not be served
+ */
+async function voidPayment(payment: ApprovedPayment | undefined, reason: string): Promise<void> {
+  if (!payment) {
+    return;
+  }
+  try {
+    const record = await earningsLedger.get(payment.id);
+    if (record?.state === 'authorized') {
+      await earningsLedger.apply(payment.id, 'authorization_released', {}, reason);
+    }
+  } catch (error) {
+    console.error('Could not release payment authorization:', error);
+  }
+}
+
+// Who a negotiation session belongs to: the registered requester, or else the page origin
+function negotiationParty(sender: chrome.runtime.MessageSender, requester?: RequesterIdentity): string {
+  return requester?.id ?? pageOrigin(sender) ?? 'extension';
+}
+
+/**
+ * The requester behind a message, from the origin Chrome reports for the sending page rather than anything the page claims.
+ * Extension pages such as the popup act for the user and have no requester.
+ */
+async function resolveRequester(sender: chrome.runtime.MessageSender): Promise<RequesterIdentity | undefined> {
+  const origin = pageOrigin(sender);
+  return origin ? requesterRegistry.resolve(origin) : undefined;
+}
+
+// The sender's origin including extension pages, signed into attestations next to the page-chosen audience
+function senderOrigin(sender: chrome.runtime.MessageSender): string {
+  return pageOrigin(sender) ?? new URL(chrome.runtime.getURL('')).origin;
+}
+
+function pageOrigin(sender: chrome.runtime.MessageSender): string | undefined {
+  const origin = sender.origin || (sender.url ? new URL(sender.url).origin : undefined);
+  if (!origin) {
+    throw new Error('Cannot determine the requesting origin');
+  }
+  return origin === new URL(chrome.runtime.getURL('')).origin ? undefined : origin;
 }
 
 // x402 Payment Processing Handlers
 
-async function handleProcessPayment(request: any, sendResponse: (response: any) => void) {
+async function handleProcessPayment(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
   try {
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'Payments can only be processed from extension pages' });
+      return;
+    }
+    
     console.log('Processing x402 payment:', request);
     
-    // Simulate payment processing through x402 facilitator
-    const paymentRequest: X402PaymentRequest = {
+    const policy = await getUserPolicy();
+    const network = networkRegistry.get(request.network || policy.acceptedNetworks[0]);
+    if (!network) {
+      sendResponse({ success: false, error: 'No supported payment network' });
+      return;
+    }
+    
+    const paymentRequest: PaymentRequest = {
       predicateType: request.predicateType,
       price: request.price,
-      walletAddress: request.walletAddress,
-      facilitatorUrl: request.facilitatorUrl || 'https://x402.org/facilitator',
-      network: 'polygon',
+      walletAddress: request.walletAddress || policy.walletAddress,
+      facilitatorUrl: request.facilitatorUrl || networkRegistry.getFacilitatorUrl(network.id, policy),
+      network: network.id,
       requestId: `req_${Date.now()}`,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      paymentHeader: request.paymentHeader,
+      resource: request.resource
     };
 
-    // Simulate facilitator interaction
-    const paymentResponse: X402PaymentResponse = await simulateFacilitatorPayment(paymentRequest);
+    const paymentResponse = await x402Service.processPayment(paymentRequest);
+    
+    if (paymentRequest.paymentHeader) {
+      // processPayment settles in the network's first asset
+      const record = await earningsLedger.authorize(createPaymentRecord(paymentRequest.paymentHeader, network.assets[0], {
+        requesterId: request.requester || 'unknown',
+        predicateType: paymentRequest.predicateType,
+        resource: paymentRequest.resource
+      }));
+      await recordSettlement(record, paymentResponse);
+    }
     
     if (paymentResponse.success) {
-      // Store payment record
-      await storePaymentRecord(paymentRequest, paymentResponse);
-      
       sendResponse({
         success: true,
         paymentProof: paymentResponse.paymentProof,
@@ -401,20 +660,31 @@ async function handleProcessPayment(request: any, sendResponse: (response: any)
   }
 }
 
-async function handleVerifyPayment(request: any, sendResponse: (response: any) => void) {
+async function handleVerifyPayment(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
   try {
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'Payments can only be verified from extension pages' });
+      return;
+    }
+    
     console.log('Verifying payment:', request);
     
-    // Simulate payment verification
-    const verification = await simulatePaymentVerification(request.paymentProof);
+    const policy = await getUserPolicy();
+    const verification = await x402Service.verifyPayment(
+      request.paymentProof,
+      request.expectedAmount,
+      request.expectedRecipient,
+      policy
+    );
     
     sendResponse({
       success: true,
       isValid: verification.isValid,
       amount: verification.amount,
       recipient: verification.recipient,
+      payer: verification.payer,
       timestamp: verification.timestamp,
-      blockNumber: verification.blockNumber
+      failures: verification.failures
     });
     
   } catch (error) {
@@ -426,173 +696,901 @@ async function handleVerifyPayment(request: any, sendResponse: (response: any) =
   }
 }
 
-async function handleNegotiateRequest(request: any, sendResponse: (response: any) => void) {
+async function handleQuoteDataRequest(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
   try {
-    console.log('Negotiating request:', request);
-    
-    // Get current policy
     const policy = await getUserPolicy();
+    const requester = await resolveRequester(sender);
     
-    // Simulate policy agent negotiation
-    const negotiationResult = await simulateNegotiation(request, policy);
+    // Checked again, and counted, when the data is released
+    const denial = requestDenial(request.predicate, policy, requester) ?? await requesterRegistry.checkRateLimit(requester);
+    if (denial) {
+      sendResponse({ success: false, ...denial });
+      return;
+    }
     
-    sendResponse({
-      success: true,
-      result: negotiationResult
-    });
+    // Terms agreed in a negotiation session are quoted as they were agreed
+    if (request.negotiationId) {
+      const agreed = await negotiationSessions.agreedTerms(
+        request.negotiationId,
+        negotiationParty(sender, requester),
+        request.predicate.type,
+        request.mode === 'answer' ? 'answer' : 'emails'
+      );
+      const price = policy.walletAddress ? agreed.price : 0;
+      await sendQuote(request, senderOrigin(sender), price, agreed.priceBreakdown, agreed.conditions, policy, sendResponse);
+      return;
+    }
     
-  } catch (error) {
-    console.error('Negotiation error:', error);
-    sendResponse({
-      success: false,
-      error: error instanceof Error ? error.message : 'Negotiation failed'
-    });
-  }
-}
-
-// Simulation functions for x402 integration
-async function simulateFacilitatorPayment(paymentRequest: X402PaymentRequest): Promise<X402PaymentResponse> {
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 1000));
-  
-  // Simulate successful payment for demo
-  return {
-    success: true,
-    paymentProof: `proof_${paymentRequest.requestId}_${Date.now()}`,
-    transactionHash: `0x${Math.random().toString(16).substr(2, 64)}`,
-    facilitatorResponse: {
-      amount: paymentRequest.price,
-      recipient: paymentRequest.walletAddress,
-      timestamp: Date.now()
+    // Without a wallet there is nowhere to be paid, so data is released without a 402
+    if (!policy.walletAddress) {
+      await sendQuote(request, senderOrigin(sender), 0, undefined, [], policy, sendResponse);
+      return;
     }
-  };
-}
-
-async function simulatePaymentVerification(paymentProof: string): Promise<any> {
-  // Simulate verification delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  // Simulate successful verification
-  return {
-    isValid: true,
-    amount: 0.25, // Simulated amount
-    recipient: '0x742d35Cc6634C0532925a3b8D', // Simulated recipient
-    timestamp: Date.now(),
-    blockNumber: 12345678 // Simulated block number
-  };
-}
-
-async function simulateNegotiation(request: NegotiationRequest, policy: Policy): Promise<NegotiationResult> {
-  // Simulate negotiation delay
-  await new Promise(resolve => setTimeout(resolve, 300));
-  
-  // Check if request is allowed
-  if (!policy.globalDataSharing) {
-    return {
-      accepted: false,
-      reason: 'Global data sharing is disabled'
-    };
-  }
-
-  const isPredicateAllowed = checkPredicateAllowed(request.predicateType, policy);
-  if (!isPredicateAllowed) {
-    return {
-      accepted: false,
-      reason: `Access to ${request.predicateType} data is disabled`
+    
+    const negotiationRequest: NegotiationRequest = {
+      predicateType: request.predicate.type,
+      requesterId: requester?.id ?? request.requester,
+      requesterType: requester?.requesterType ?? 'third-party-app',
+      requestedData: {
+        maxAge: request.predicate.maxAge,
+        maxEmails: policy.maxEmailsPerRequest,
+        // Responses are redacted per policy, so the quote is for redacted data
+        includeBodies: false,
+        includePersonalInfo: false
+      },
+      timestamp: Date.now()
     };
-  }
-
-  // Calculate dynamic pricing
-  const basePrice = getBasePrice(request.predicateType, policy);
-  const finalPrice = calculateDynamicPrice(request, basePrice);
-
-  return {
-    accepted: true,
-    finalPrice: finalPrice,
-    adjustedPolicy: {
-      maxEmailAge: Math.min(request.requestedData.maxAge, policy.maxEmailAge),
-      maxEmailsPerRequest: Math.min(request.requestedData.maxEmails, policy.maxEmailsPerRequest),
-      redactEmailBodies: !request.requestedData.includeBodies || policy.redactEmailBodies,
-      redactPersonalInfo: !request.requestedData.includePersonalInfo || policy.redactPersonalInfo
+    
+    const negotiationResult = await policyAgent.negotiateRequest(negotiationRequest, policy, requester);
+    if (!negotiationResult.accepted || negotiationResult.finalPrice === undefined) {
+      sendResponse({
+        success: false,
+        ...dataGuardError('denied_by_policy', 'negotiation_rejected', negotiationResult.reason || 'Request rejected by negotiation')
+      });
+      return;
     }
-  };
-}
-
-function checkPredicateAllowed(predicateType: string, policy: Policy): boolean {
-  switch (predicateType) {
-    case 'subscription':
-      return policy.allowSubscriptionProof;
-    case 'delivery':
-      return policy.allowDeliveryProof;
-    case 'purchase':
-      return policy.allowPurchaseProof;
-    case 'financial':
-      return policy.allowFinancialProof;
-    default:
-      return false;
+    
+    policyAgent.recordRequest(negotiationRequest);
+    
+    await sendQuote(
+      request,
+      senderOrigin(sender),
+      negotiationResult.finalPrice,
+      negotiationResult.priceBreakdown,
+      negotiationResult.counterOffer?.conditions || [],
+      policy,
+      sendResponse
+    );
+    
+  } catch (error) {
+    console.error('Quote error:', error);
+    sendResponse({ success: false, ...toDataGuardError(error) });
   }
 }
 
-function getBasePrice(predicateType: string, policy: Policy): number {
-  const pricing = policy.pricing;
+/**
+ * Answer with a quote and keep it, so the payment and the approval that follow are held to these terms
+ */
+async function sendQuote(
+  request: any,
+  origin: string,
+  price: number,
+  priceBreakdown: PriceBreakdown | undefined,
+  conditions: string[],
+  policy: Policy,
+  sendResponse: (response: any) => void
+) {
+  const quote: IssuedQuote = {
+    origin,
+    resource: String(request.resource),
+    predicate: request.predicate,
+    mode: request.mode === 'answer' ? 'answer' : 'emails',
+    negotiationId: request.negotiationId,
+    price: Math.max(price, 0),
+    priceBreakdown,
+    conditions,
+    accepts: [],
+    expiresAt: Date.now() + FREE_QUOTE_TTL_SECONDS * 1000
+  };
   
-  switch (predicateType) {
-    case 'subscription':
-      return pricing?.subscription || 0.05;
-    case 'delivery':
-      return pricing?.delivery || 0.10;
-    case 'purchase':
-      return pricing?.purchase || 0.25;
-    case 'financial':
-      return pricing?.financial || 0.50;
-    default:
-      return 0;
+  if (price <= 0) {
+    await issuedQuotes.save(quote);
+    sendResponse({ success: true, paymentRequired: false, conditions });
+    return;
   }
-}
-
-function calculateDynamicPrice(request: NegotiationRequest, basePrice: number): number {
-  let finalPrice = basePrice;
   
-  // Apply privacy multiplier
-  if (request.requestedData.includeBodies) {
-    finalPrice *= 1.5; // 50% increase for body access
-  }
+  const description = request.mode === 'answer'
+    ? `DataGuard ${request.predicate.type} answer`
+    : `DataGuard ${request.predicate.type} emails`;
   
-  if (request.requestedData.includePersonalInfo) {
-    finalPrice *= 1.3; // 30% increase for personal info
+  const accepts = x402Service.createPaymentOptions(price, policy, request.resource, description);
+  if (accepts.length === 0) {
+    sendResponse({
+      success: false,
+      ...dataGuardError('denied_by_policy', 'no_payment_option', 'Policy accepts no payment network or asset')
+    });
+    return;
   }
   
-  // Apply volume multiplier
-  const baseEmails = 10;
-  if (request.requestedData.maxEmails > baseEmails) {
-    const volumeMultiplier = 1 + ((request.requestedData.maxEmails - baseEmails) / baseEmails) * 0.2;
-    finalPrice *= Math.min(volumeMultiplier, 2.0);
-  }
+  await issuedQuotes.save({
+    ...quote,
+    accepts,
+    expiresAt: Date.now() + Math.max(...accepts.map(option => option.maxTimeoutSeconds)) * 1000
+  });
   
-  return Math.round(finalPrice * 1000) / 1000;
+  sendResponse({
+    success: true,
+    paymentRequired: true,
+    priceBreakdown,
+    conditions,
+    accepts
+  });
 }
 
-async function storePaymentRecord(paymentRequest: X402PaymentRequest, paymentResponse: X402PaymentResponse): Promise<void> {
-  const paymentRecord = {
-    requestId: paymentRequest.requestId,
-    predicateType: paymentRequest.predicateType,
-    amount: paymentRequest.price,
-    transactionHash: paymentResponse.transactionHash,
-    timestamp: paymentRequest.timestamp,
-    status: paymentResponse.success ? 'completed' : 'failed'
-  };
-  
-  // Store in extension storage
-  const result = await chrome.storage.local.get(['paymentHistory']);
-  const paymentHistory = result.paymentHistory || [];
-  paymentHistory.push(paymentRecord);
+/**
+ * One message of a multi-round negotiation: an offer, which opens a session when it names no negotiation,
+ * or the acceptance or rejection of DataGuard's counter-offer
+ */
+async function handleNegotiateTerms(message: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    const policy = await getUserPolicy();
+    const requester = await resolveRequester(sender);
+    const party = negotiationParty(sender, requester);
+    
+    let session: NegotiationSession;
+    if (message.type === 'offer' && !message.negotiationId) {
+      // Nothing is worth negotiating that would be refused anyway
+      const denial = requestDenial(message.predicate, policy, requester) ?? await requesterRegistry.checkRateLimit(requester);
+      if (denial) {
+        sendResponse({ success: false, ...denial });
+        return;
+      }
+      session = await negotiationSessions.open(party, message.predicate.type, message.mode, message.terms ?? {}, policy, requester);
+    } else if (message.type === 'offer') {
+      session = await negotiationSessions.offer(message.negotiationId, party, message.terms ?? {}, policy, requester);
+    } else if (message.type === 'accept') {
+      session = await negotiationSessions.accept(message.negotiationId, party);
+    } else {
+      session = await negotiationSessions.reject(message.negotiationId, party, message.reason || 'Rejected by requester');
+    }
+    
+    if (session.status === 'agreed') {
+      policyAgent.recordRequest({
+        predicateType: session.predicateType,
+        requesterId: requester?.id ?? party,
+        requesterType: requester?.requesterType ?? 'third-party-app',
+        requestedData: {
+          maxAge: session.agreed!.maxAge,
+          maxEmails: session.agreed!.maxEmails,
+          includeBodies: session.agreed!.fields.includes('body'),
+          includePersonalInfo: session.agreed!.fields.includes('sender')
+        },
+        timestamp: Date.now()
+      });
+    }
+    
+    sendResponse({ success: true, negotiation: describeNegotiation(session) });
+    
+  } catch (error) {
+    console.error('Negotiation error:', error);
+    sendResponse({ success: false, ...toDataGuardError(error) });
+  }
+}
+
+// What a requester sees of a session; the message log and price breakdown stay in the extension
+function describeNegotiation(session: NegotiationSession): Omit<DataGuard.Negotiation, 'success'> {
+  const terms = ({ priceBreakdown, ...rest }: AgreedTerms) => rest;
+  return {
+    negotiation: session.id,
+    status: session.status,
+    round: session.round,
+    maxRounds: session.maxRounds,
+    expiresAt: session.expiresAt,
+    ...(session.counterOffer ? { offer: { ...terms(session.counterOffer), final: session.counterOffer.final } } : {}),
+    ...(session.agreed ? { agreed: terms(session.agreed) } : {}),
+    ...(session.reason ? { reason: session.reason } : {})
+  };
+}
+
+/**
+ * Check a paid retry against the quote this extension issued for its resource, and hold the payment for approval
+ */
+async function handleVerifyX402Payment(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    const origin = senderOrigin(sender);
+    const quote = await issuedQuotes.find(origin, String(request.resource));
+    if (!quote || quote.accepts.length === 0) {
+      sendResponse({ success: false, error: 'Payment quote expired or was never issued' });
+      return;
+    }
+    
+    const policy = await getUserPolicy();
+    const requester = await resolveRequester(sender);
+    const verification = await x402Service.verifyPaymentHeader(
+      request.paymentHeader,
+      quote.accepts,
+      policy
+    );
+    
+    if (verification.isValid && verification.requirements) {
+      const record = await earningsLedger.authorize(createPaymentRecord(request.paymentHeader, requirementsAsset(verification.requirements), {
+        requesterId: requester?.id ?? origin,
+        predicateType: quote.predicate.type,
+        priceBreakdown: quote.priceBreakdown,
+        resource: verification.requirements.resource
+      }));
+      
+      // A payment is spent on one release; a replay of it is not a new payment
+      if (record.state !== 'authorized') {
+        sendResponse({
+          success: true,
+          verification: { isValid: false, reason: `Payment is already ${record.state}` }
+        });
+        return;
+      }
+      
+      await issuedQuotes.attachPayment(origin, quote.resource, {
+        id: record.id,
+        paymentHeader: request.paymentHeader,
+        requirements: verification.requirements
+      });
+    }
+    
+    sendResponse({
+      success: true,
+      verification: verification
+    });
+    
+  } catch (error) {
+    console.error('x402 payment verification error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Payment verification failed'
+    });
+  }
+}
+
+async function handleSettleX402Payment(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    // Pages are charged by their release, never by asking
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'Payments can only be settled from extension pages' });
+      return;
+    }
+    
+    const policy = await getUserPolicy();
+    const requester = await resolveRequester(sender);
+    const requirements: PaymentRequirements = request.requirements;
+    const record = await earningsLedger.authorize(createPaymentRecord(request.paymentHeader, requirementsAsset(requirements), {
+      requesterId: requester?.id ?? request.requester,
+      predicateType: request.predicate.type,
+      resource: requirements.resource
+    }));
+    
+    if (record.state !== 'authorized') {
+      sendResponse({
+        success: false,
+        error: `Payment is already ${record.state}`
+      });
+      return;
+    }
+    
+    const paymentResponse = await x402Service.settlePayment(
+      request.paymentHeader,
+      requirements,
+      policy
+    );
+    
+    await recordSettlement(record, paymentResponse);
+    
+    if (!paymentResponse.success) {
+      sendResponse({
+        success: false,
+        error: paymentResponse.error || 'Payment settlement failed'
+      });
+      return;
+    }
+    
+    // Body of the X-PAYMENT-RESPONSE header
+    sendResponse({
+      success: true,
+      settlement: {
+        success: true,
+        transaction: paymentResponse.transactionHash,
+        network: requirements.network,
+        payer: paymentResponse.payer
+      }
+    });
+    
+  } catch (error) {
+    console.error('x402 payment settlement error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Payment settlement failed'
+    });
+  }
+}
+
+async function handleReleaseX402Payment(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'Payments can only be released from extension pages' });
+      return;
+    }
+    
+    const id = paymentRecordId(x402Service.decodePaymentHeader(request.paymentHeader));
+    const record = await earningsLedger.apply(id, 'authorization_released', {}, request.reason);
+    
+    sendResponse({ success: true, state: record.state });
+    
+  } catch (error) {
+    console.error('x402 payment release error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Payment release failed'
+    });
+  }
+}
+
+async function handleRefundX402Payment(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'Payments can only be refunded from extension pages' });
+      return;
+    }
+    
+    const policy = await getUserPolicy();
+    const id = paymentRecordId(x402Service.decodePaymentHeader(request.paymentHeader));
+    const record = await earningsLedger.get(id);
+    
+    if (!record?.transactionHash) {
+      sendResponse({ success: false, error: 'Only settled payments can be refunded' });
+      return;
+    }
+    
+    // Not attempted where it cannot succeed, so the payment stays settled rather than disputed
+    if (!networkRegistry.supportsRefunds(record.network, policy)) {
+      sendResponse({ success: false, state: record.state, error: `Refunds are not supported on ${record.network}` });
+      return;
+    }
+    
+    const refund = await x402Service.refundPayment(
+      request.paymentHeader,
+      request.requirements,
+      record.transactionHash,
+      policy
+    );
+    
+    // A refund that does not go through leaves the payment disputed until it is resolved by hand
+    const updated = refund.success
+      ? await earningsLedger.apply(id, 'refund_succeeded', { refundTransactionHash: refund.transactionHash }, request.reason)
+      : await earningsLedger.apply(id, 'refund_failed', {}, [request.reason, `Refund failed: ${refund.error}`].filter(Boolean).join('; '));
+    
+    sendResponse({
+      success: refund.success,
+      state: updated.state,
+      refundTransaction: refund.transactionHash,
+      error: refund.error
+    });
+    
+  } catch (error) {
+    console.error('x402 payment refund error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Payment refund failed'
+    });
+  }
+}
+
+async function handleNegotiateRequest(request: NegotiationRequest, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    console.log('Negotiating request:', request);
+    
+    // Get current policy
+    const policy = await getUserPolicy();
+    
+    // Pages negotiate as the requester their origin resolves to, whatever they declare
+    const requester = await resolveRequester(sender);
+    if (requester) {
+      request = { ...request, requesterId: requester.id, requesterType: requester.requesterType };
+    }
+    
+    const negotiationResult = await policyAgent.negotiateRequest(request, policy, requester);
+    if (negotiationResult.accepted) {
+      // Accepted requests feed the agent's demand-based pricing
+      policyAgent.recordRequest(request);
+    }
+    
+    sendResponse({
+      success: true,
+      result: negotiationResult
+    });
+    
+  } catch (error) {
+    console.error('Negotiation error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Negotiation failed'
+    });
+  }
+}
+
+/**
+ * Ledger record for a verified X-PAYMENT header, before settlement
+ */
+function createPaymentRecord(
+  paymentHeader: string,
+  asset: AssetDefinition,
+  details: Pick<PaymentRecord, 'requesterId' | 'predicateType' | 'priceBreakdown' | 'resource'>
+): PaymentRecord {
+  const payment = x402Service.decodePaymentHeader(paymentHeader);
+  const { authorization } = payment.payload;
   
-  // Keep only last 50 payment records
-  if (paymentHistory.length > 50) {
-    paymentHistory.splice(0, paymentHistory.length - 50);
+  return createAuthorizedPayment({
+    ...details,
+    id: paymentRecordId(payment),
+    amount: x402Service.fromAtomicUnits(authorization.value, asset.decimals),
+    amountAtomic: authorization.value,
+    payer: authorization.from,
+    payTo: authorization.to,
+    network: payment.network,
+    asset: asset.symbol,
+    validBefore: Number(authorization.validBefore) * 1000
+  });
+}
+
+function requirementsAsset(requirements: PaymentRequirements): AssetDefinition {
+  const asset = networkRegistry.getAsset(requirements.network, requirements.asset);
+  if (!asset) {
+    throw new Error(`Unsupported asset ${requirements.asset} on ${requirements.network}`);
+  }
+  return asset;
+}
+
+/**
+ * Settled, or failed: an authorization past its deadline counts as expired rather than failed
+ */
+async function recordSettlement(record: PaymentRecord, paymentResponse: PaymentResponse): Promise<PaymentRecord> {
+  if (paymentResponse.success) {
+    return earningsLedger.apply(record.id, 'settlement_succeeded', {
+      transactionHash: paymentResponse.transactionHash,
+      settledAt: Date.now()
+    });
   }
   
-  await chrome.storage.local.set({ paymentHistory });
+  const reason = paymentResponse.error || 'Payment settlement failed';
+  const expired = record.validBefore <= Date.now() || /valid_before/.test(reason);
+  return earningsLedger.apply(record.id, expired ? 'authorization_expired' : 'settlement_failed', {}, reason);
+}
+
+async function handleGetRequesters(sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    // Which sites the user trusts, and on what terms, is not for other sites to read
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'Requesters are only available to extension pages' });
+      return;
+    }
+    
+    sendResponse({
+      success: true,
+      requesters: await requesterRegistry.list()
+    });
+  } catch (error) {
+    console.error('Requester lookup error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load requesters'
+    });
+  }
+}
+
+async function handleAddRequester(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'Requesters can only be changed from extension pages' });
+      return;
+    }
+    
+    // An origin is verified by the browser on each request; a manifest URL by its signature
+    const requester = request.manifestUrl
+      ? await requesterRegistry.addFromManifest(request.manifestUrl)
+      : await requesterRegistry.addByOrigin(request.origin, request.name);
+    
+    sendResponse({ success: true, requester });
+  } catch (error) {
+    console.error('Add requester error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to add requester'
+    });
+  }
+}
+
+async function handleUpdateRequester(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'Requesters can only be changed from extension pages' });
+      return;
+    }
+    
+    const requester = await requesterRegistry.update(request.id, request.changes || {});
+    sendResponse({ success: true, requester });
+  } catch (error) {
+    console.error('Update requester error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update requester'
+    });
+  }
+}
+
+async function handleRemoveRequester(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'Requesters can only be changed from extension pages' });
+      return;
+    }
+    
+    await requesterRegistry.remove(request.id);
+    sendResponse({ success: true });
+  } catch (error) {
+    console.error('Remove requester error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove requester'
+    });
+  }
+}
+
+/**
+ * Ask the user about a page's data request, or answer from a remembered decision for that site.
+ * The request is the one this extension quoted for the resource, at the quoted price and, if priced, already paid.
+ * Responds with the predicate and mode to release, narrowed to what the user approved, and the one-time approval
+ * the release must present, or with why it was refused.
+ */
+async function handleRequestApproval(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    // Prompts and grants are scoped to the origin the browser reports, never to what the page claims
+    const origin = pageOrigin(sender);
+    if (!origin) {
+      sendResponse({ success: false, error: 'Only web pages ask for approval' });
+      return;
+    }
+    
+    const quote = await issuedQuotes.take(origin, String(request.resource));
+    const problem = quoteProblem(quote, request);
+    if (problem) {
+      await voidPayment(quote?.payment, problem.message);
+      sendResponse({ success: false, ...problem });
+      return;
+    }
+    
+    const { predicate, mode, price, conditions } = quote!;
+    
+    // A remembered approval only answers requests no broader than the approved one; others are asked about
+    const grant = findConsentGrant(await getConsentGrants(), origin, { predicate, mode, price });
+    let decision: ApprovalDecision;
+    if (grant) {
+      console.log(`Applying remembered decision (${grant.decision}) for ${origin}`);
+      decision = { approved: grant.decision === 'allow', scope: grant.scope };
+    } else {
+      const policy = await getUserPolicy();
+      const requester = await requesterRegistry.resolve(origin);
+      decision = await approvalPrompts.prompt({
+        origin,
+        requester: { id: requester.id, name: requester.name, registered: !!requester.profile },
+        predicate,
+        mode,
+        purpose: String(request.purpose || ''),
+        terms: { price, conditions }
+      }, policy.requestTimeout || 60);
+    }
+    
+    const approved = applyApprovalScope(predicate, mode, decision.scope);
+    if (!grant && decision.remember) {
+      await addConsentGrant({
+        origin,
+        predicateType: decision.allPredicates ? undefined : predicate.type,
+        decision: decision.approved ? 'allow' : 'deny',
+        maxAge: approved.predicate.maxAge,
+        mode: approved.mode,
+        price,
+        scope: decision.scope,
+        duration: decision.remember
+      });
+    }
+    
+    if (!decision.approved) {
+      await voidPayment(quote!.payment, 'Request denied by the user');
+      sendResponse({
+        success: true,
+        approved: false,
+        remembered: !!grant,
+        predicate: approved.predicate,
+        mode: approved.mode,
+        refusal: approvalRefusal(decision, !!grant)
+      });
+      return;
+    }
+    
+    const ticket = await approvalTickets.issue({
+      origin,
+      predicate: approved.predicate,
+      mode: approved.mode,
+      maxEmails: decision.scope?.maxEmails,
+      negotiationId: quote!.negotiationId,
+      payment: quote!.payment
+    });
+    
+    sendResponse({
+      success: true,
+      approved: true,
+      remembered: !!grant,
+      predicate: approved.predicate,
+      mode: approved.mode,
+      maxEmails: decision.scope?.maxEmails,
+      approvalId: ticket.id
+    });
+  } catch (error) {
+    console.error('Approval error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to ask for approval'
+    });
+  }
+}
+
+// Why a request cannot be put to the user under the quote it was given, if it cannot
+function quoteProblem(quote: IssuedQuote | undefined, request: any): DataGuardError | undefined {
+  if (!quote) {
+    return dataGuardError('payment_required', 'quote_expired', 'No quote was issued for this request, or it expired');
+  }
+  if (quote.mode !== (request.mode === 'answer' ? 'answer' : 'emails') || quote.predicate.type !== request.predicate?.type) {
+    return dataGuardError('denied_by_policy', 'quote_mismatch', 'The request differs from the one that was quoted');
+  }
+  if (quote.price > 0 && !quote.payment) {
+    return dataGuardError('payment_required', 'payment_missing', 'The quoted price has not been paid');
+  }
+  return undefined;
+}
+
+/**
+ * A page that gave up after approval hands its unused approval back, so its payment is released
+ */
+async function handleCancelApproval(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    const origin = pageOrigin(sender);
+    if (!origin) {
+      sendResponse({ success: false, error: 'Only web pages cancel approvals' });
+      return;
+    }
+    
+    const ticket = await approvalTickets.consume(request.approvalId, origin);
+    await voidPayment(ticket.payment, String(request.reason || 'Request cancelled by the requester'));
+    sendResponse({ success: true });
+  } catch (error) {
+    console.error('Approval cancellation error:', error);
+    sendResponse({ success: false, ...toDataGuardError(error) });
+  }
+}
+
+function approvalRefusal(decision: ApprovalDecision, remembered: boolean): DataGuardError {
+  if (decision.timedOut) {
+    return dataGuardError('timeout', 'approval_timeout', 'The user did not answer in time');
+  }
+  return remembered
+    ? dataGuardError('denied_by_user', 'remembered_denial', 'The user chose not to share with this site')
+    : dataGuardError('denied_by_user', 'user_denied', 'The user denied the request');
+}
+
+async function handleGetApprovalRequest(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    sendResponse({ success: true, request: approvalPrompts.get(request.id, sender) });
+  } catch (error) {
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load approval request'
+    });
+  }
+}
+
+/**
+ * What the request would release under the scope currently chosen in the approval window
+ */
+async function handlePreviewApprovalRequest(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    const approval = approvalPrompts.get(request.id, sender);
+    const policy = await getUserPolicy();
+    const requester = await requesterRegistry.resolve(approval.origin);
+    
+    // Previews are not counted against the rate limit; the release that follows is
+    const denial = requestDenial(approval.predicate, policy, requester);
+    if (denial) {
+      sendResponse({ success: false, ...denial });
+      return;
+    }
+    
+    const scoped = applyApprovalScope(approval.predicate, approval.mode, request.scope);
+    const preview = await mailService.previewRequest(scoped.predicate, scoped.mode, policy, request.scope?.maxEmails);
+    sendResponse({ success: true, preview });
+    
+  } catch (error) {
+    console.error('Error previewing request:', error);
+    sendResponse({ success: false, ...toDataGuardError(error) });
+  }
+}
+
+async function handleResolveApprovalRequest(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    approvalPrompts.answer(request.id, sender, request.decision);
+    sendResponse({ success: true });
+  } catch (error) {
+    console.error('Approval answer error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to record the answer'
+    });
+  }
+}
+
+async function handleGetConsentGrants(sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'Remembered decisions are only available to extension pages' });
+      return;
+    }
+    
+    sendResponse({
+      success: true,
+      grants: await getConsentGrants()
+    });
+  } catch (error) {
+    console.error('Consent list error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load consent grants'
+    });
+  }
+}
+
+async function handleRevokeConsentGrant(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'Remembered decisions can only be revoked from extension pages' });
+      return;
+    }
+    
+    await revokeConsentGrant(request.id);
+    sendResponse({ success: true });
+  } catch (error) {
+    console.error('Consent revoke error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to revoke consent'
+    });
+  }
+}
+
+async function handleGetInterceptRules(sendResponse: (response: any) => void) {
+  try {
+    const rules = await getInterceptRules();
+    sendResponse({
+      success: true,
+      rules,
+      matchers: toInterceptMatchers(rules)
+    });
+  } catch (error) {
+    console.error('Interception rule list error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load interception rules'
+    });
+  }
+}
+
+async function handleAddInterceptRule(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'Interception rules can only be changed from extension pages' });
+      return;
+    }
+    
+    sendResponse({ success: true, rule: await addInterceptRule(request.rule) });
+  } catch (error) {
+    console.error('Interception rule add error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to add interception rule'
+    });
+  }
+}
+
+async function handleUpdateInterceptRule(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'Interception rules can only be changed from extension pages' });
+      return;
+    }
+    
+    sendResponse({ success: true, rule: await updateInterceptRule(request.id, request.changes || {}) });
+  } catch (error) {
+    console.error('Interception rule update error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update interception rule'
+    });
+  }
+}
+
+async function handleRemoveInterceptRule(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'Interception rules can only be changed from extension pages' });
+      return;
+    }
+    
+    await removeInterceptRule(request.id);
+    sendResponse({ success: true });
+  } catch (error) {
+    console.error('Interception rule remove error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove interception rule'
+    });
+  }
+}
+
+async function handleGetEarnings(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    // Earnings name every requester and payer, so pages never see them
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'Earnings are only available to extension pages' });
+      return;
+    }
+    
+    const period: EarningsPeriod = request?.period || 'day';
+    await earningsLedger.expireAuthorizations();
+    const entries = await earningsLedger.list(request?.since);
+    
+    sendResponse({
+      success: true,
+      summary: summarizeEarnings(entries, period),
+      recent: entries.slice(0, 20)
+    });
+    
+  } catch (error) {
+    console.error('Earnings lookup error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load earnings'
+    });
+  }
+}
+
+async function handleExportEarnings(request: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  try {
+    if (pageOrigin(sender)) {
+      sendResponse({ success: false, error: 'Earnings are only available to extension pages' });
+      return;
+    }
+    
+    const entries = await earningsLedger.list(request?.since);
+    const csv = request?.format === 'csv';
+    
+    sendResponse({
+      success: true,
+      filename: `dataguard-earnings-${new Date().toISOString().slice(0, 10)}.${csv ? 'csv' : 'json'}`,
+      mimeType: csv ? 'text/csv' : 'application/json',
+      content: csv ? earningsToCsv(entries) : earningsToJson(entries)
+    });
+    
+  } catch (error) {
+    console.error('Earnings export error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to export earnings'
+    });
+  }
 }
 
 // Initialize extension
@@ -600,9 +1598,14 @@ chrome.runtime.onInstalled.addListener(() => {
   console.log('DataGuard extension installed');
   
   // Set default policy if not exists
-  chrome.storage.local.get(['userPolicy']).then((result) => {
-    if (!result.userPolicy) {
-      chrome.storage.local.set({ userPolicy: getDefaultPolicy() });
-    }
-  });
+  ensureUserPolicy();
+  
+  // Create the per-install signing key up front
+  attestationService.ensureKeyPair();
+  
+  // Network rules keep matched mail-API calls from bypassing the page-world interceptor
+  applyInterceptRules().catch(error => console.error('Failed to apply interception rules:', error));
+  
+  // Settlements now live in the earnings ledger
+  chrome.storage.local.remove('paymentHistory');
 });
@@ -0,0 +1,45 @@
+// Request binding for DataGuard Extension
+// Stamps responses and proofs with the requester's nonce, audience and an expiry
+
+import { RequestBinding } from '../types/index.js';
+import { DataGuardRequestError, dataGuardError } from '../errors/dataguard-error.js';
+
+// How long a requester has to use a bound response or proof
+export const BINDING_TTL_SECONDS = 300;
+
+// Unreserved URL characters, long enough to be unguessable
+const NONCE_PATTERN = /^[A-Za-z0-9._~-]{16,128}$/;
+
+/**
+ * Bind a response to the requester's nonce and audience.
+ * Without a nonce a random one is generated unless requireNonce is set.
+ */
+export function createRequestBinding(
+    request: { nonce?: string; audience?: string },
+    requireNonce: boolean = false,
+    now: Date = new Date()
+): RequestBinding {
+    if (!request.audience) {
+        throw invalidBinding('An audience is required to bind the response');
+    }
+
+    if (!request.nonce && requireNonce) {
+        throw invalidBinding('A requester nonce is required');
+    }
+
+    const nonce = request.nonce || crypto.randomUUID();
+    if (!NONCE_PATTERN.test(nonce)) {
+        throw invalidBinding('Nonce must be 16-128 URL-safe characters');
+    }
+
+    return {
+        nonce,
+        audience: request.audience,
+        issuedAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + BINDING_TTL_SECONDS * 1000).toISOString()
+    };
+}
+
+function invalidBinding(message: string): DataGuardRequestError {
+    return new DataGuardRequestError(dataGuardError('denied_by_policy', 'invalid_binding', message));
+}
@@ -0,0 +1,157 @@
+// Approval prompts for DataGuard extension
+// Asks the user about a data request in an extension-owned window, out of reach of the requesting page
+
+import { ApprovalDecision, ApprovalRequest, ApprovalScope, ConsentDuration, EmailPredicate } from '../types/index.js';
+
+export const APPROVAL_PAGE = 'approval.html';
+
+const WINDOW_SIZE = { width: 420, height: 640 };
+const CONSENT_DURATIONS: ConsentDuration[] = ['day', 'month', 'forever'];
+
+interface PendingApproval {
+    request: ApprovalRequest;
+    windowId?: number;
+    resolve: (decision: ApprovalDecision) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+export class ApprovalPrompts {
+    private pending = new Map<string, PendingApproval>();
+    private listening = false;
+
+    /**
+     * Open an approval window and wait for the user. Closing the window denies; letting it time out denies as timedOut.
+     */
+    async prompt(request: Omit<ApprovalRequest, 'id' | 'expiresAt'>, timeoutSeconds: number): Promise<ApprovalDecision> {
+        this.listen();
+
+        const id = crypto.randomUUID();
+        const approval: ApprovalRequest = {
+            ...request,
+            id,
+            expiresAt: new Date(Date.now() + timeoutSeconds * 1000).toISOString()
+        };
+        const decision = new Promise<ApprovalDecision>(resolve => {
+            this.pending.set(id, {
+                request: approval,
+                resolve,
+                timer: setTimeout(() => this.settle(id, { approved: false, timedOut: true }), timeoutSeconds * 1000)
+            });
+        });
+
+        try {
+            const created = await chrome.windows.create({
+                url: approvalUrl(id),
+                type: 'popup',
+                focused: true,
+                ...WINDOW_SIZE
+            });
+            const entry = this.pending.get(id);
+            if (entry) entry.windowId = created.id;
+        } catch (error) {
+            console.error('Could not open the approval window:', error);
+            this.settle(id, { approved: false });
+        }
+
+        return decision;
+    }
+
+    /**
+     * The request shown in an approval window; only that window may read it
+     */
+    get(id: string, sender: chrome.runtime.MessageSender): ApprovalRequest {
+        return this.entry(id, sender).request;
+    }
+
+    /**
+     * Record the user's answer from the approval window
+     */
+    answer(id: string, sender: chrome.runtime.MessageSender, decision: ApprovalDecision): void {
+        this.entry(id, sender);
+        this.settle(id, validateDecision(decision));
+    }
+
+    /**
+     * Answers count only from the page opened for that request; content scripts report the host page's URL
+     */
+    private entry(id: string, sender: chrome.runtime.MessageSender): PendingApproval {
+        const entry = this.pending.get(id);
+        if (!entry) {
+            throw new Error('Approval request expired or was already answered');
+        }
+
+        const fromApprovalPage = sender.id === chrome.runtime.id && sender.url === approvalUrl(id);
+        if (!fromApprovalPage) {
+            throw new Error('Approval requests are only answered from the DataGuard approval window');
+        }
+
+        return entry;
+    }
+
+    private settle(id: string, decision: ApprovalDecision): void {
+        const entry = this.pending.get(id);
+        if (!entry) return;
+
+        this.pending.delete(id);
+        clearTimeout(entry.timer);
+        if (entry.windowId !== undefined) {
+            chrome.windows.remove(entry.windowId).catch(() => { /* already closed */ });
+        }
+        entry.resolve(decision);
+    }
+
+    private listen(): void {
+        if (this.listening) return;
+        this.listening = true;
+
+        chrome.windows.onRemoved.addListener(windowId => {
+            for (const [id, entry] of this.pending) {
+                if (entry.windowId === windowId) {
+                    this.settle(id, { approved: false });
+                }
+            }
+        });
+    }
+}
+
+/**
+ * The predicate and mode a request runs with once narrowed to what the user approved
+ */
+export function applyApprovalScope(
+    predicate: EmailPredicate,
+    mode: 'emails' | 'answer',
+    scope?: ApprovalScope
+): { predicate: EmailPredicate; mode: 'emails' | 'answer' } {
+    if (!scope) return { predicate, mode };
+
+    const scoped: EmailPredicate = { ...predicate };
+    if (scope.maxAge && scope.maxAge < scoped.maxAge) {
+        scoped.maxAge = scope.maxAge;
+    }
+    if (scope.booleanOnly) {
+        scoped.disclosure = 'boolean';
+    }
+
+    return { predicate: scoped, mode: scope.booleanOnly ? 'answer' : mode };
+}
+
+function approvalUrl(id: string): string {
+    return chrome.runtime.getURL(`${APPROVAL_PAGE}?id=${encodeURIComponent(id)}`);
+}
+
+function validateDecision(decision: ApprovalDecision): ApprovalDecision {
+    const scope: ApprovalScope = {
+        ...(decision.scope?.maxEmails !== undefined && decision.scope.maxEmails >= 1
+            ? { maxEmails: Math.floor(decision.scope.maxEmails) } : {}),
+        ...(decision.scope?.maxAge !== undefined && decision.scope.maxAge >= 1
+            ? { maxAge: Math.floor(decision.scope.maxAge) } : {}),
+        ...(decision.scope?.booleanOnly ? { booleanOnly: true } : {})
+    };
+
+    return {
+        approved: decision.approved === true,
+        ...(decision.remember && CONSENT_DURATIONS.includes(decision.remember) ? { remember: decision.remember } : {}),
+        ...(decision.allPredicates ? { allPredicates: true } : {}),
+        ...(decision.approved === true && Object.keys(scope).length > 0 ? { scope } : {})
+    };
+}
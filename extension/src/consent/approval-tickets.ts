@@ -0,0 +1,66 @@
+// Approval tickets for DataGuard extension
+// One-time proof that the user approved a release, issued after the prompt and redeemed by the release handler
+
+import { ApprovalTicket } from '../types/index.js';
+import { DataGuardRequestError, dataGuardError } from '../errors/dataguard-error.js';
+
+const STORAGE_KEY = 'approvalTickets';
+
+// An approved request is released right away; a ticket left unused this long is void
+export const APPROVAL_TICKET_TTL_SECONDS = 60;
+
+export class ApprovalTickets {
+    private queue: Promise<unknown> = Promise.resolve();
+
+    issue(approval: Omit<ApprovalTicket, 'id' | 'expiresAt'>, now: number = Date.now()): Promise<ApprovalTicket> {
+        return this.exclusive(async () => {
+            const tickets = await loadTickets(now);
+            const ticket: ApprovalTicket = {
+                ...approval,
+                id: crypto.randomUUID(),
+                expiresAt: now + APPROVAL_TICKET_TTL_SECONDS * 1000
+            };
+            tickets[ticket.id] = ticket;
+            await chrome.storage.session.set({ [STORAGE_KEY]: tickets });
+            return ticket;
+        });
+    }
+
+    /**
+     * The ticket, used up. Another page's tickets are reported as missing; with a mode, it must be the approved one.
+     */
+    consume(id: unknown, origin: string, mode?: 'emails' | 'answer', now: number = Date.now()): Promise<ApprovalTicket> {
+        return this.exclusive(async () => {
+            const tickets = await loadTickets(now);
+            const ticket = typeof id === 'string' ? tickets[id] : undefined;
+            if (!ticket || ticket.origin !== origin) {
+                throw new DataGuardRequestError(
+                    dataGuardError('denied_by_user', 'approval_missing', 'The release was not approved, or its approval was already used')
+                );
+            }
+
+            delete tickets[ticket.id];
+            await chrome.storage.session.set({ [STORAGE_KEY]: tickets });
+
+            if (mode && ticket.mode !== mode) {
+                throw new DataGuardRequestError(
+                    dataGuardError('denied_by_user', 'approval_mismatch', `The user approved ${ticket.mode}, not ${mode}`)
+                );
+            }
+            return ticket;
+        });
+    }
+
+    // Read-modify-write of the stored tickets one message at a time, so each is redeemed once
+    private exclusive<T>(run: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(run);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+}
+
+async function loadTickets(now: number): Promise<Record<string, ApprovalTicket>> {
+    const result = await chrome.storage.session.get([STORAGE_KEY]);
+    const stored: Record<string, ApprovalTicket> = result[STORAGE_KEY] || {};
+    return Object.fromEntries(Object.entries(stored).filter(([, ticket]) => ticket.expiresAt > now));
+}
@@ -0,0 +1,129 @@
+// Consent storage for DataGuard extension
+// Remembers approval-prompt decisions per origin and predicate in chrome.storage
+
+import { ApprovalScope, ConsentDecision, ConsentDuration, ConsentGrant, EmailPredicate, PredicateId } from '../types/index.js';
+
+const STORAGE_KEY = 'consentGrants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CONSENT_DURATIONS: Record<ConsentDuration, number | null> = {
+    day: DAY_MS,
+    month: 30 * DAY_MS,
+    forever: null
+};
+
+export interface ConsentGrantRequest {
+    origin: string;
+    predicateType?: PredicateId;
+    decision: ConsentDecision;
+    maxAge?: number;
+    mode?: 'emails' | 'answer';
+    price?: number; // USDC
+    scope?: ApprovalScope;
+    duration: ConsentDuration;
+}
+
+// What a request would need a remembered allow grant to cover
+export interface ConsentRequest {
+    predicate: EmailPredicate;
+    mode: 'emails' | 'answer';
+    price: number; // USDC, 0 when free
+}
+
+/**
+ * Unexpired grants, newest first; expired ones are dropped from storage as a side effect
+ */
+export async function getConsentGrants(now: number = Date.now()): Promise<ConsentGrant[]> {
+    const result = await chrome.storage.local.get([STORAGE_KEY]);
+    const stored: ConsentGrant[] = result[STORAGE_KEY] || [];
+    const active = stored.filter(grant => !isExpired(grant, now));
+
+    if (active.length !== stored.length) {
+        await saveConsentGrants(active);
+    }
+
+    return active.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Remember a decision, replacing any earlier one for the same origin and predicate scope
+ */
+export async function addConsentGrant(request: ConsentGrantRequest, now: number = Date.now()): Promise<ConsentGrant> {
+    if (!Object.prototype.hasOwnProperty.call(CONSENT_DURATIONS, request.duration)) {
+        throw new Error(`Unknown consent duration: ${request.duration}`);
+    }
+
+    const lifetime = CONSENT_DURATIONS[request.duration];
+    const allow = request.decision === 'allow';
+    const scope = allow ? grantScope(request.scope) : undefined;
+    const grant: ConsentGrant = {
+        id: crypto.randomUUID(),
+        origin: request.origin,
+        ...(request.predicateType ? { predicateType: request.predicateType } : {}),
+        decision: request.decision,
+        ...(allow && request.maxAge !== undefined ? { maxAge: request.maxAge } : {}),
+        ...(allow ? { mode: request.mode ?? 'emails', maxPrice: request.price ?? 0 } : {}),
+        ...(scope ? { scope } : {}),
+        createdAt: new Date(now).toISOString(),
+        ...(lifetime !== null ? { expiresAt: new Date(now + lifetime).toISOString() } : {})
+    };
+
+    const grants = await getConsentGrants(now);
+    await saveConsentGrants([
+        grant,
+        ...grants.filter(existing => existing.origin !== grant.origin || existing.predicateType !== grant.predicateType)
+    ]);
+
+    return grant;
+}
+
+export async function revokeConsentGrant(id: string): Promise<void> {
+    const grants = await getConsentGrants();
+    await saveConsentGrants(grants.filter(grant => grant.id !== id));
+}
+
+/**
+ * The grant that decides a request without asking, if any.
+ * Deny grants win over allow grants. An allow grant only covers requests no broader than the one approved:
+ * within its window, in its mode or the narrower answer mode, and at no more than the approved price.
+ * Grants stored before mode and price were remembered cover nothing, so those requests are asked again.
+ */
+export function findConsentGrant(
+    grants: ConsentGrant[],
+    origin: string,
+    request: ConsentRequest,
+    now: number = Date.now()
+): ConsentGrant | undefined {
+    const applicable = grants.filter(grant =>
+        grant.origin === origin &&
+        (grant.predicateType === undefined || grant.predicateType === request.predicate.type) &&
+        !isExpired(grant, now)
+    );
+
+    return applicable.find(grant => grant.decision === 'deny')
+        ?? applicable.find(grant =>
+            (grant.maxAge === undefined || request.predicate.maxAge <= grant.maxAge) &&
+            (grant.mode === 'emails' || (grant.mode === 'answer' && request.mode === 'answer')) &&
+            grant.maxPrice !== undefined && request.price <= grant.maxPrice
+        );
+}
+
+/**
+ * The parts of an approved scope a grant keeps; the window is already its maxAge
+ */
+function grantScope(scope: ApprovalScope | undefined): ConsentGrant['scope'] {
+    const kept: ConsentGrant['scope'] = {
+        ...(scope?.maxEmails !== undefined && scope.maxEmails >= 1 ? { maxEmails: Math.floor(scope.maxEmails) } : {}),
+        ...(scope?.booleanOnly ? { booleanOnly: true } : {})
+    };
+    return Object.keys(kept).length > 0 ? kept : undefined;
+}
+
+function isExpired(grant: ConsentGrant, now: number): boolean {
+    return grant.expiresAt !== undefined && new Date(grant.expiresAt).getTime() <= now;
+}
+
+async function saveConsentGrants(grants: ConsentGrant[]): Promise<void> {
+    await chrome.storage.local.set({ [STORAGE_KEY]: grants });
+}
@@ -3,27 +3,136 @@
 
 // Define types locally since we're not using modules
 interface EmailPredicate {
-  type: 'subscription' | 'delivery' | 'purchase';
+  type: string;
   maxAge: number;
+  minCount?: number;
+  disclosure?: 'exact' | 'bucketed' | 'boolean';
+}
+
+interface PredicateDescriptor {
+  id: string;
+  title: string;
+  description: string;
+  defaultMaxAge: number;
+  defaultPrice: number;
 }
 
 interface DataRequest {
   predicate: EmailPredicate;
   requester: string;
+  nonce?: string;
+  audience: string;
   purpose: string;
   timestamp: string;
+  mode: 'emails' | 'answer'; // answer mode returns only { satisfied, count?, window }
   originalUrl?: string;
-  originalInit?: RequestInit;
+  transport?: PageTransport | 'api'; // how the page sent it, 'api' for window.DataGuard calls
+  negotiationId?: string; // a negotiation whose agreed terms the request is made under
+}
+
+// x402 `accepts` entry, as built by the background X402PaymentService
+interface PaymentRequirements {
+  scheme: string;
+  network: string;
+  maxAmountRequired: string;
+  resource: string;
+  payTo: string;
+  maxTimeoutSeconds: number;
+  asset: string;
+  [field: string]: unknown;
+}
+
+// The price and conditions the background PolicyAgent settled on, shown in the approval prompt
+interface NegotiatedTerms {
+  price: number; // USDC, 0 when free
+  conditions: string[];
+}
+
+interface PendingPayment {
+  accepts: PaymentRequirements[]; // one option per accepted network and asset
+  terms: NegotiatedTerms;
+  expiresAt: number;
+}
+
+// A verified X-PAYMENT; the background holds it and settles it with the release
+interface VerifiedPayment {
+  paymentHeader: string;
+  accepts: PaymentRequirements[]; // offered again if settlement fails
 }
 
+// DataGuard error protocol, mirroring DataGuardError in types/index.ts
+type DataGuardErrorCode =
+  | 'denied_by_user'
+  | 'denied_by_policy'
+  | 'payment_required'
+  | 'timeout'
+  | 'rate_limited'
+  | 'source_unavailable'
+  | 'internal_error';
+
+interface DataGuardError {
+  error: DataGuardErrorCode;
+  reason: string;
+  message: string;
+  retryable: boolean;
+  retryAfter?: number; // seconds, also sent as Retry-After
+}
+
+// The background's answer to REQUEST_APPROVAL: what to release, possibly narrower than requested
+interface ApprovalResult {
+  approved: boolean;
+  remembered?: boolean; // answered from a remembered decision, without asking
+  predicate: EmailPredicate;
+  mode: 'emails' | 'answer';
+  maxEmails?: number;
+  approvalId?: string; // set when approved; the release presents it, once
+  refusal?: DataGuardError; // set when not approved
+}
+
+// What a data request ended in: the released data, or the error to answer with instead
+type DataReleaseKind = 'emails' | 'answer' | 'proof';
+
+interface DataFailure {
+  ok: false;
+  error: DataGuardError;
+  accepts?: PaymentRequirements[]; // with payment_required
+}
+
+type DataRelease =
+  | { ok: true; kind: DataReleaseKind; response: any; settlement?: unknown }
+  | DataFailure;
+
+// The background message that releases each kind of data
+const RELEASE_MESSAGES: Record<DataReleaseKind, ExtensionMessage['type']> = {
+  emails: 'REQUEST_EMAIL_DATA',
+  answer: 'ANSWER_PREDICATE',
+  proof: 'GENERATE_PROOF'
+};
+
+const PAGE_API_METHODS: DataGuard.Method[] = ['capabilities', 'negotiate', 'negotiateTerms', 'request', 'prove', 'getPublicTerms'];
+
+// The HTTP status intercepted requests are answered with for each error code
+const ERROR_STATUS: Record<DataGuardErrorCode, number> = {
+  denied_by_user: 403,
+  denied_by_policy: 451,
+  payment_required: 402,
+  timeout: 504,
+  rate_limited: 429,
+  source_unavailable: 503,
+  internal_error: 500
+};
+
 interface ExtensionMessage {
-  type: 'REQUEST_EMAIL_DATA' | 'GENERATE_PROOF' | 'GET_USER_POLICY' | 'UPDATE_USER_POLICY';
+  type: 'REQUEST_EMAIL_DATA' | 'GENERATE_PROOF' | 'GET_PREDICATES' | 'ANSWER_PREDICATE' | 'GET_PUBLIC_KEY' | 'GET_PUBLIC_TERMS' | 'QUOTE_DATA_REQUEST' | 'VERIFY_X402_PAYMENT' | 'REQUEST_APPROVAL' | 'CANCEL_APPROVAL' | 'GET_INTERCEPT_RULES' | 'NEGOTIATE_TERMS';
   data?: any;
 }
 
 class DataGuardContentScript {
     private isInitialized = false;
     private requestQueue: DataRequest[] = [];
+    private predicates: Promise<PredicateDescriptor[]> = Promise.resolve([]);
+    private pendingPayments = new Map<string, PendingPayment>(); // resource URL -> 402 quote
+    private pageRequestAborts = new Map<string, AbortController>(); // bridge request id -> its abort
 
     constructor() {
         this.init();
@@ -36,9 +145,8 @@ class DataGuardContentScript {
         console.log('🛡️ DataGuard extension ID:', chrome.runtime.id);
         
         // Set up core functionality immediately
-        this.setupMessageListener();
-        this.setupRequestInterceptor();
-        this.injectDataGuardAPI();
+        this.predicates = this.loadPredicates();
+        this.setupPageBridge();
         this.isInitialized = true;
         
         // Wait for DOM to be ready before adding visual indicator
@@ -56,293 +164,514 @@ class DataGuardContentScript {
         }
     }
 
-    private setupMessageListener() {
-        // Listen for messages from the extension popup/background
-        chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-            console.log('Content script received message:', message);
+    private async loadPredicates(): Promise<PredicateDescriptor[]> {
+        try {
+            const response = await this.sendMessageToBackground({ type: 'GET_PREDICATES' });
+            return response?.predicates || [];
+        } catch (error) {
+            console.warn('🛡️ DataGuard: Failed to load predicates:', error);
+            return [];
+        }
+    }
+
+    private setupPageBridge() {
+        // Requests made by page scripts arrive from page-interceptor.js and window.DataGuard calls from page-api.js,
+        // which both run in the page's world
+        window.addEventListener('message', (event) => {
+            if (event.source !== window) return;
+            const message = this.parsePageMessage(event.data);
+            if (!message) return;
             
             switch (message.type) {
-                case 'INJECT_DATA_GUARD_API':
-                    this.injectDataGuardAPI();
-                    sendResponse({ success: true });
+                case 'HELLO':
+                    this.sendInterceptRules();
+                    break;
+                    
+                case 'REQUEST':
+                    this.handlePageRequest(message.id, message.request);
                     break;
                     
-                case 'HANDLE_DATA_REQUEST':
-                    this.handleDataRequest(message.data, sendResponse);
-                    return true; // Keep message channel open for async response
+                case 'ABORT':
+                    this.pageRequestAborts.get(message.id)?.abort();
+                    break;
                     
-                default:
-                    console.warn('Unknown message type in content script:', message.type);
-                    sendResponse({ error: 'Unknown message type' });
+                case 'CALL':
+                    this.handleApiCall(message);
+                    break;
             }
         });
+        
+        this.sendInterceptRules();
+    }
+
+    private async sendInterceptRules() {
+        this.postToPage({
+            source: 'dataguard-content',
+            type: 'READY',
+            rules: { matchers: await this.loadInterceptMatchers() }
+        });
     }
 
-    private setupRequestInterceptor() {
-        // Intercept fetch requests that might be requesting email data
-        const originalFetch = window.fetch;
-        const self = this;
+    /**
+     * The user's interception rules; with none, the network rules still keep requests from reaching the mail API
+     */
+    private async loadInterceptMatchers(): Promise<PageInterceptMatcher[]> {
+        try {
+            const response = await this.sendMessageToBackground({ type: 'GET_INTERCEPT_RULES' });
+            return response?.matchers || [];
+        } catch (error) {
+            console.warn('🛡️ DataGuard: Failed to load interception rules:', error);
+            return [];
+        }
+    }
+
+    private async handlePageRequest(id: string, pageRequest: PageRequest) {
+        const controller = new AbortController();
+        this.pageRequestAborts.set(id, controller);
+        
+        try {
+            const response = await this.interceptRequest(pageRequest, controller.signal);
+            if (pageRequest.transport !== 'beacon') {
+                this.postToPage({
+                    source: 'dataguard-content',
+                    type: 'RESPONSE',
+                    id,
+                    ...(response ? { response } : { passthrough: true })
+                });
+            }
+        } catch (error) {
+            // An aborted request has already been rejected in the page
+            if (!(error instanceof DOMException && error.name === 'AbortError')) {
+                console.error('🛡️ DataGuard: Failed to handle page request:', error);
+                this.postToPage({
+                    source: 'dataguard-content',
+                    type: 'RESPONSE',
+                    id,
+                    response: this.errorResponse(this.internalError(error))
+                });
+            }
+        } finally {
+            this.pageRequestAborts.delete(id);
+        }
+    }
 
-        window.fetch = async function(input: RequestInfo | URL, init?: RequestInit) {
-            const url = typeof input === 'string' ? input : input.toString();
+    /**
+     * DataGuard's answer to an email-data request from the page, or null to let it go out as made
+     */
+    private async interceptRequest(pageRequest: PageRequest, signal: AbortSignal): Promise<PageResponse | null> {
+        const url = pageRequest.url;
+        const predicates = await this.predicates;
+        
+        console.log(`🛡️ DataGuard: Intercepted email data request (${pageRequest.transport}):`, url);
+        
+        const request: DataRequest = {
+            predicate: this.extractPredicateFromRequest(url, predicates, pageRequest.body),
+            requester: this.getRequesterDomain(),
+            ...this.extractBindingFromRequest(url),
+            purpose: this.extractPurposeFromRequest(pageRequest.headers),
+            timestamp: new Date().toISOString(),
+            mode: this.extractModeFromRequest(url),
+            originalUrl: url,
+            transport: pageRequest.transport,
+            negotiationId: this.extractNegotiationFromRequest(url)
+        };
+        
+        // Beacons cannot receive data, so they are never served
+        if (pageRequest.transport === 'beacon') {
+            console.log('🛡️ DataGuard: Dropped email data beacon');
+            this.storeDeniedRequest(request);
+            return null;
+        }
+        
+        return this.toPageResponse(await this.releaseData(request, pageRequest.headers['x-payment'] ?? null, signal));
+    }
+
+    /**
+     * Quote, payment, user approval and release of one data request, whether intercepted or made through window.DataGuard
+     */
+    private async releaseData(
+        request: DataRequest,
+        paymentHeader: string | null,
+        signal: AbortSignal,
+        proof: boolean = false
+    ): Promise<DataRelease> {
+        // Queue the request for user approval
+        this.requestQueue.push(request);
+        
+        // x402: unpaid requests get a quote, paid retries are verified first
+        const payment = await this.checkPayment(request, paymentHeader);
+        if (payment.failure) {
+            return payment.failure;
+        }
+        
+        // A request the page already gave up on is not put to the user
+        if (signal.aborted) {
+            throw new DOMException('Request aborted before approval', 'AbortError');
+        }
+        
+        // Release only what the user approved, which may be less than was asked for; a refused payment is released by the background
+        const userResponse = await this.requestApproval(request);
+        const approved: DataRequest = { ...request, predicate: userResponse.predicate, mode: userResponse.mode };
+        
+        if (!userResponse.approved) {
+            console.log('🛡️ DataGuard: User denied request');
+            this.storeDeniedRequest(request);
             
-            // Check if this looks like an email data request
-            if (self.isEmailDataRequest(url, init)) {
-                console.log('🛡️ DataGuard: Intercepted email data request:', url);
-                
-                // Queue the request for user approval
-                const request: DataRequest = {
-                    predicate: self.extractPredicateFromRequest(url, init),
-                    requester: self.getRequesterDomain(),
-                    purpose: self.extractPurposeFromRequest(init),
-                    timestamp: new Date().toISOString(),
-                    originalUrl: url,
-                    originalInit: init
-                };
-                
-                self.requestQueue.push(request);
-                
-                // Show notification to user and wait for response
-                const userResponse = await self.showRequestNotificationAndWait(request);
-                
-                if (userResponse.approved) {
-                    console.log('🛡️ DataGuard: User approved request, processing...');
-                    
-                    try {
-                        // Send request to background script for processing with user policy
-                        const response = await self.sendMessageToBackground({
-                            type: 'REQUEST_EMAIL_DATA',
-                            data: { predicate: request.predicate }
-                        });
-                        
-                        if (response.success) {
-                            console.log(`🛡️ DataGuard: Returning filtered data (${response.data.length} emails)`);
-                            
-                            // Store the approved response
-                            self.storeApprovedResponse(request, response.data);
-                            
-                            // Return the filtered data as if it came from the original API
-                            return new Response(JSON.stringify(response.data), {
-                                status: 200,
-                                headers: { 'Content-Type': 'application/json' }
-                            });
-                        } else {
-                            console.error('🛡️ DataGuard: Request failed:', response.error);
-                            return new Response(JSON.stringify({
-                                error: 'Request denied by DataGuard policy',
-                                details: response.error
-                            }), {
-                                status: 403,
-                                headers: { 'Content-Type': 'application/json' }
-                            });
-                        }
-                    } catch (error) {
-                        console.error('🛡️ DataGuard: Failed to process approved request:', error);
-                        return new Response(JSON.stringify({
-                            error: 'Failed to process request',
-                            details: error instanceof Error ? error.message : String(error)
-                        }), {
-                            status: 500,
-                            headers: { 'Content-Type': 'application/json' }
-                        });
-                    }
-                } else {
-                    console.log('🛡️ DataGuard: User denied request');
-                    self.storeDeniedRequest(request);
-                    
-                    // Return an empty response for denied requests
-                    return new Response(JSON.stringify([]), {
-                        status: 200,
-                        headers: { 'Content-Type': 'application/json' }
-                    });
+            // A refusal is an error the requester can tell apart from an empty result
+            return {
+                ok: false,
+                error: userResponse.refusal ?? {
+                    error: 'denied_by_user',
+                    reason: 'user_denied',
+                    message: 'The user denied the request',
+                    retryable: false
+                }
+            };
+        }
+        
+        console.log('🛡️ DataGuard: User approved request, processing...');
+        
+        // A requester that gave up while the user was asked hands the approval back, so it is not charged
+        if (signal.aborted) {
+            await this.cancelApproval(userResponse.approvalId, 'Request aborted before release');
+            throw new DOMException('Request aborted before release', 'AbortError');
+        }
+        
+        const kind: DataReleaseKind = proof ? 'proof' : approved.mode;
+        try {
+            // The background releases what the approval covers and settles the payment only once the data is ready,
+            // so a denied or failed request is never charged
+            const response = await this.sendMessageToBackground({
+                type: RELEASE_MESSAGES[kind],
+                data: {
+                    approvalId: userResponse.approvalId,
+                    nonce: request.nonce,
+                    audience: request.audience
                 }
+            });
+            
+            if (!response?.success) {
+                const failure = this.toDataGuardError(response);
+                console.error('🛡️ DataGuard: Request failed:', failure.message);
+                return failure.error === 'payment_required' && payment.verified
+                    ? this.paymentRequired(failure.reason, failure.message, payment.verified.accepts)
+                    : { ok: false, error: failure };
             }
             
-            // For non-email requests, use original fetch
-            return originalFetch.call(this, input, init);
-        };
+            console.log(kind === 'emails'
+                ? `🛡️ DataGuard: Returning filtered data (${response.data.length} emails)`
+                : `🛡️ DataGuard: Returning predicate ${kind}`);
+            
+            // Store the approved response
+            this.storeApprovedResponse(approved, kind === 'emails' ? response.data.length : null);
+            this.pendingPayments.delete(this.paymentResource(request));
+            
+            return { ok: true, kind, response, settlement: response.settlement };
+        } catch (error) {
+            console.error('🛡️ DataGuard: Failed to process approved request:', error);
+            return { ok: false, error: this.internalError(error) };
+        }
     }
 
-    private isEmailDataRequest(url: string, init?: RequestInit): boolean {
-        // Check if the request is to the mail-demo service specifically
-        if (url.includes('localhost:3000') && url.includes('/api/emails')) {
-            return true;
+    /**
+     * A release as the HTTP response the page's request gets, shaped as if it came from the original API
+     */
+    private toPageResponse(release: DataRelease): PageResponse {
+        if (!release.ok) {
+            return this.errorResponse(release.error, release.accepts ? { x402Version: 1, accepts: release.accepts } : {});
         }
         
-        // Check if the request is likely asking for email data
-        const emailKeywords = [
-            'email', 'inbox', 'mail', 'subscription', 'delivery', 
-            'purchase', 'receipt', 'order', 'newsletter'
-        ];
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
         
-        const urlLower = url.toLowerCase();
-        const bodyText = init?.body ? init.body.toString().toLowerCase() : '';
+        // Email arrays keep their shape, so binding and attestation travel in headers
+        if (release.kind === 'emails') {
+            headers['X-DataGuard-Binding'] = JSON.stringify(release.response.binding);
+            headers['X-DataGuard-Attestation'] = release.response.attestation;
+        }
+        if (release.settlement) {
+            headers['X-PAYMENT-RESPONSE'] = btoa(JSON.stringify(release.settlement));
+        }
+        
+        const payload = release.kind === 'emails'
+            ? release.response.data
+            : release.kind === 'answer' ? release.response.answer : release.response.proof;
+        return { status: 200, headers, body: JSON.stringify(payload) };
+    }
+
+    /**
+     * Returns the error to answer with instead of data, or the verified payment the release will be charged
+     */
+    private async checkPayment(
+        request: DataRequest,
+        paymentHeader: string | null
+    ): Promise<{ failure?: DataFailure; verified?: VerifiedPayment }> {
+        const pending = this.pendingPayments.get(this.paymentResource(request));
+        
+        if (paymentHeader && pending && pending.expiresAt > Date.now()) {
+            const response = await this.sendMessageToBackground({
+                type: 'VERIFY_X402_PAYMENT',
+                // Checked against the background's own quote for the resource, not this copy
+                data: { paymentHeader, resource: this.paymentResource(request) }
+            });
+            
+            if (response?.verification?.isValid) {
+                console.log('🛡️ DataGuard: Payment verified from', response.verification.payer);
+                return { verified: { paymentHeader, accepts: pending.accepts } };
+            }
+            
+            const reason = response?.verification?.reason || response?.error || 'Payment verification failed';
+            return { failure: this.paymentRequired('payment_invalid', reason, pending.accepts) };
+        }
+        
+        const quote = await this.requestQuote(request);
+        if (quote.failure || !quote.pending) {
+            return quote;
+        }
+        
+        return {
+            failure: paymentHeader
+                ? this.paymentRequired('quote_expired', 'Payment quote expired or was never issued', quote.pending.accepts)
+                : this.paymentRequired('payment_missing', 'X-PAYMENT header is required', quote.pending.accepts)
+        };
+    }
+    
+    /**
+     * The background's price for a request; a priced quote is kept so the paid retry can be verified against it
+     */
+    private async requestQuote(request: DataRequest): Promise<{ failure?: DataFailure; terms?: NegotiatedTerms; pending?: PendingPayment }> {
+        const resource = this.paymentResource(request);
+        const quote = await this.sendMessageToBackground({
+            type: 'QUOTE_DATA_REQUEST',
+            data: {
+                predicate: request.predicate,
+                mode: request.mode,
+                requester: request.requester,
+                resource,
+                negotiationId: request.negotiationId
+            }
+        });
+        
+        if (!quote?.success) {
+            return { failure: { ok: false, error: this.toDataGuardError(quote) } };
+        }
+        
+        const conditions: string[] = quote.conditions || [];
+        if (!quote.paymentRequired) {
+            return { terms: { price: 0, conditions } };
+        }
+        
+        const accepts: PaymentRequirements[] = quote.accepts;
+        const pending: PendingPayment = {
+            accepts,
+            terms: { price: quote.priceBreakdown?.finalPrice ?? 0, conditions },
+            expiresAt: Date.now() + Math.max(...accepts.map(option => option.maxTimeoutSeconds)) * 1000
+        };
+        this.pendingPayments.set(resource, pending);
         
-        return emailKeywords.some(keyword => 
-            urlLower.includes(keyword) || bodyText.includes(keyword)
+        return { terms: pending.terms, pending };
+    }
+    
+    // Quotes are kept per URL for intercepted requests, per API resource for window.DataGuard calls
+    private paymentResource(request: DataRequest): string {
+        return request.originalUrl || window.location.href;
+    }
+    
+    /**
+     * Hand back an approval that will not be used, so the background releases its payment
+     */
+    private async cancelApproval(approvalId: string | undefined, reason: string): Promise<void> {
+        try {
+            const result = await this.sendMessageToBackground({ type: 'CANCEL_APPROVAL', data: { approvalId, reason } });
+            
+            if (!result?.success) {
+                console.warn('🛡️ DataGuard: Could not cancel approval:', result?.message || result?.error);
+            }
+        } catch (error) {
+            console.warn('🛡️ DataGuard: Could not cancel approval:', error);
+        }
+    }
+    
+    /**
+     * An x402 payment request; as an HTTP response its error field carries the protocol code, so x402 clients and DataGuard clients both read it
+     */
+    private paymentRequired(reason: string, message: string, accepts: PaymentRequirements[]): DataFailure {
+        return { ok: false, error: { error: 'payment_required', reason, message, retryable: true }, accepts };
+    }
+    
+    /**
+     * The HTTP response for a protocol error, with the status for its code and Retry-After when known
+     */
+    private errorResponse(error: DataGuardError, extra: Record<string, unknown> = {}): PageResponse {
+        return this.jsonResponse(
+            ERROR_STATUS[error.error] ?? 500,
+            { ...extra, ...this.errorBody(error) },
+            error.retryAfter !== undefined ? { 'Retry-After': String(error.retryAfter) } : {}
         );
     }
+    
+    // Only the protocol fields, whatever else the background response carried
+    private errorBody(error: DataGuardError): DataGuardError {
+        return {
+            error: error.error,
+            reason: error.reason,
+            message: error.message,
+            retryable: error.retryable,
+            ...(error.retryAfter !== undefined ? { retryAfter: error.retryAfter } : {})
+        };
+    }
+    
+    /**
+     * The protocol error in a failed background response; anything else is reported as internal_error
+     */
+    private toDataGuardError(response: any): DataGuardError {
+        if (response && typeof response.error === 'string' && response.error in ERROR_STATUS) {
+            return response;
+        }
+        return this.internalError(response?.error || 'No response from DataGuard');
+    }
+    
+    private internalError(error: unknown, reason: string = 'unexpected_error'): DataGuardError {
+        return {
+            error: 'internal_error',
+            reason,
+            message: error instanceof Error ? error.message : String(error),
+            retryable: false
+        };
+    }
+    
+    private jsonResponse(status: number, payload: unknown, headers: Record<string, string> = {}): PageResponse {
+        return {
+            status,
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify(payload)
+        };
+    }
 
-    private extractPredicateFromRequest(url: string, init?: RequestInit): any {
+    private extractPredicateFromRequest(url: string, predicates: PredicateDescriptor[], body?: string): EmailPredicate {
         // Extract predicate information from the request
         const urlLower = url.toLowerCase();
-        const bodyText = init?.body ? init.body.toString().toLowerCase() : '';
+        const bodyText = body ? body.toLowerCase() : '';
+        const toPredicate = (descriptor: PredicateDescriptor): EmailPredicate => ({
+            type: descriptor.id,
+            maxAge: descriptor.defaultMaxAge
+        });
         
         // Check URL parameters for mail-demo service
-        const urlObj = new URL(url);
+        const urlObj = new URL(url, window.location.href);
         const typeParam = urlObj.searchParams.get('type');
+        const requested = predicates.find(predicate => predicate.id === typeParam);
         
-        if (typeParam) {
-            switch (typeParam) {
-                case 'subscription':
-                    return { type: 'subscription', maxAge: 90 };
-                case 'delivery':
-                    return { type: 'delivery', maxAge: 30 };
-                case 'purchase':
-                    return { type: 'purchase', maxAge: 30 };
-                case 'unread':
-                    return { type: 'subscription', maxAge: 90 }; // Default to subscription for unread
-                default:
-                    return { type: 'subscription', maxAge: 90 };
-            }
+        if (requested) {
+            const minCount = parseInt(urlObj.searchParams.get('minCount') || '', 10);
+            const disclosure = urlObj.searchParams.get('disclosure');
+            
+            return {
+                ...toPredicate(requested),
+                ...(minCount > 0 ? { minCount } : {}),
+                ...(disclosure === 'exact' || disclosure === 'bucketed' || disclosure === 'boolean' ? { disclosure } : {})
+            };
         }
         
         // Fallback to keyword detection
-        if (urlLower.includes('subscription') || bodyText.includes('subscription')) {
-            return { type: 'subscription', maxAge: 90 };
-        } else if (urlLower.includes('delivery') || bodyText.includes('delivery')) {
-            return { type: 'delivery', maxAge: 30 };
-        } else if (urlLower.includes('purchase') || bodyText.includes('purchase')) {
-            return { type: 'purchase', maxAge: 30 };
+        const mentioned = predicates.find(predicate =>
+            urlLower.includes(predicate.id) || bodyText.includes(predicate.id)
+        );
+        
+        if (mentioned) {
+            return toPredicate(mentioned);
         }
         
         // Default to subscription if unclear
         return { type: 'subscription', maxAge: 90 };
     }
 
+    private extractModeFromRequest(url: string): 'emails' | 'answer' {
+        // Requesters opt into answer mode with ?mode=answer
+        const urlObj = new URL(url, window.location.href);
+        return urlObj.searchParams.get('mode') === 'answer' ? 'answer' : 'emails';
+    }
+
+    private extractNegotiationFromRequest(url: string): string | undefined {
+        // Requests made under negotiated terms name the negotiation with ?negotiation=...
+        const urlObj = new URL(url, window.location.href);
+        return urlObj.searchParams.get('negotiation') || undefined;
+    }
+
+    private extractBindingFromRequest(url: string): { nonce?: string; audience: string } {
+        // Requesters bind the response with ?nonce=...&audience=...
+        const urlObj = new URL(url, window.location.href);
+        return this.resolveBinding({
+            nonce: urlObj.searchParams.get('nonce') || undefined,
+            audience: urlObj.searchParams.get('audience') || undefined
+        });
+    }
+
+    private resolveBinding(options: DataGuard.BindingOptions = {}): { nonce?: string; audience: string } {
+        return {
+            nonce: options.nonce,
+            audience: options.audience || window.location.origin
+        };
+    }
+
+    // For display and logs; the background identifies requesters by the browser-reported origin
     private getRequesterDomain(): string {
         return window.location.hostname;
     }
 
-    private extractPurposeFromRequest(init?: RequestInit): string {
-        // Try to extract purpose from request headers or body
-        const purposeHeader = init?.headers ? 
-            (init.headers as any)['X-Purpose'] || 
-            (init.headers as any)['Purpose'] : null;
+    private extractPurposeFromRequest(headers: Record<string, string>): string {
+        // Try to extract purpose from request headers (names arrive lower-cased)
+        const purposeHeader = headers['x-purpose'] || headers['purpose'];
             
         if (purposeHeader) {
-            return purposeHeader.toString();
+            return purposeHeader;
         }
         
         return 'Data access request';
     }
 
-    private showRequestNotificationAndWait(request: DataRequest): Promise<{approved: boolean}> {
-        return new Promise((resolve) => {
-            // Wait for DOM to be ready
-            const showNotification = () => {
-                // Wait for DOM to be ready
-                if (document.readyState === 'loading') {
-                    document.addEventListener('DOMContentLoaded', showNotification);
-                    return;
-                }
-                
-                if (!document.body) {
-                    setTimeout(showNotification, 100);
-                    return;
-                }
-
-                // Remove any existing notification
-                const existingNotification = document.getElementById('dataguard-notification');
-                if (existingNotification) {
-                    existingNotification.remove();
+    /**
+     * Ask the background, which answers from a remembered decision or the DataGuard approval window,
+     * at the terms it quoted for the request's resource.
+     * The page can neither see nor click that window; any failure counts as a denial.
+     */
+    private async requestApproval(request: DataRequest): Promise<ApprovalResult> {
+        try {
+            const response = await this.sendMessageToBackground({
+                type: 'REQUEST_APPROVAL',
+                data: {
+                    resource: this.paymentResource(request),
+                    predicate: request.predicate,
+                    mode: request.mode,
+                    purpose: request.purpose
                 }
-
-                // Create a notification element
-                const notification = document.createElement('div');
-                notification.id = 'dataguard-notification';
-                notification.innerHTML = `
-                    <div style="
-                        position: fixed;
-                        top: 20px;
-                        right: 20px;
-                        background: #007bff;
-                        color: white;
-                        padding: 16px;
-                        border-radius: 8px;
-                        box-shadow: 0 4px 12px rgba(0,0,0,0.15);
-                        z-index: 10000;
-                        max-width: 300px;
-                        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-                        font-size: 14px;
-                    ">
-                        <div style="font-weight: 600; margin-bottom: 8px;">
-                            🛡️ DataGuard Request
-                        </div>
-                        <div style="margin-bottom: 8px;">
-                            <strong>${request.requester}</strong> is requesting ${request.predicate.type} data
-                        </div>
-                        <div style="margin-bottom: 12px; font-size: 12px; opacity: 0.9;">
-                            Purpose: ${request.purpose}
-                        </div>
-                        <div style="display: flex; gap: 8px;">
-                            <button id="dataguard-approve" style="
-                                background: #28a745;
-                                color: white;
-                                border: none;
-                                padding: 6px 12px;
-                                border-radius: 4px;
-                                cursor: pointer;
-                                font-size: 12px;
-                            ">Approve</button>
-                            <button id="dataguard-deny" style="
-                                background: #dc3545;
-                                color: white;
-                                border: none;
-                                padding: 6px 12px;
-                                border-radius: 4px;
-                                cursor: pointer;
-                                font-size: 12px;
-                            ">Deny</button>
-                        </div>
-                    </div>
-                `;
-                
-                document.body.appendChild(notification);
-                
-                // Add event listeners
-                document.getElementById('dataguard-approve')?.addEventListener('click', () => {
-                    notification.remove();
-                    resolve({ approved: true });
-                });
-                
-                document.getElementById('dataguard-deny')?.addEventListener('click', () => {
-                    notification.remove();
-                    resolve({ approved: false });
-                });
-                
-                // Auto-deny after 30 seconds if no response
-                setTimeout(() => {
-                    if (notification.parentNode) {
-                        notification.remove();
-                        resolve({ approved: false });
-                    }
-                }, 30000);
-            };
+            });
             
-            showNotification();
-        });
+            if (response?.success) {
+                return response;
+            }
+            if (response && typeof response.error === 'string' && response.error in ERROR_STATUS) {
+                return { approved: false, predicate: request.predicate, mode: request.mode, refusal: this.errorBody(response) };
+            }
+            console.warn('🛡️ DataGuard: Approval failed:', response?.error);
+        } catch (error) {
+            console.warn('🛡️ DataGuard: Approval failed:', error);
+        }
+        return {
+            approved: false,
+            predicate: request.predicate,
+            mode: request.mode,
+            refusal: this.internalError('Could not ask the user for approval', 'approval_unavailable')
+        };
     }
 
-
-    private storeApprovedResponse(request: DataRequest, data: any[]) {
+    private storeApprovedResponse(request: DataRequest, emailCount: number | null) {
         // Store approved requests for logging/debugging
         chrome.storage.local.get(['recentRequests']).then((result) => {
             const requests = result.recentRequests || [];
             requests.unshift({
                 ...request,
                 approved: true,
-                emailCount: data.length,
+                emailCount: emailCount,
                 timestamp: new Date().toLocaleString()
             });
             // Keep only last 10 requests
@@ -368,61 +697,342 @@ class DataGuardContentScript {
         });
     }
 
-    private async handleDataRequest(request: DataRequest, sendResponse: (response: any) => void) {
+    /**
+     * One window.DataGuard call. Invalid arguments come back as a TypeError; refusals and failures of data calls as a Failure.
+     */
+    private async handleApiCall(call: PageApiCall) {
+        let run: () => Promise<unknown>;
         try {
-            // Forward request to background script
-            const response = await this.sendMessageToBackground({
-                type: 'REQUEST_EMAIL_DATA',
-                data: { predicate: request.predicate }
-            });
-            
-            sendResponse(response);
+            run = await this.prepareApiCall(call.method, call.params);
         } catch (error) {
-            console.error('Failed to handle data request:', error);
-            sendResponse({ 
-                error: 'Failed to process data request',
-                details: error instanceof Error ? error.message : String(error)
+            this.postToPage({
+                source: 'dataguard-content',
+                type: 'RESULT',
+                id: call.id,
+                invalid: `DataGuard.${call.method}: ${error instanceof Error ? error.message : String(error)}`
             });
+            return;
+        }
+        
+        try {
+            this.postToPage({ source: 'dataguard-content', type: 'RESULT', id: call.id, result: await run() });
+        } catch (error) {
+            console.error('🛡️ DataGuard: Page API call failed:', error);
+            
+            // Only data calls have a failure result; the others reject
+            if (call.method === 'capabilities' || call.method === 'getPublicTerms') {
+                this.postToPage({
+                    source: 'dataguard-content',
+                    type: 'RESULT',
+                    id: call.id,
+                    error: `DataGuard.${call.method}: ${error instanceof Error ? error.message : String(error)}`
+                });
+            } else {
+                this.postToPage({
+                    source: 'dataguard-content',
+                    type: 'RESULT',
+                    id: call.id,
+                    result: this.toApiResult({ ok: false, error: this.internalError(error) })
+                });
+            }
         }
     }
 
-    private injectDataGuardAPI() {
-        // Inject DataGuard API into the page
-        if ((window as any).DataGuard) return; // Already injected
-        
-        (window as any).DataGuard = {
-            requestEmailData: async (predicate: any) => {
-                console.log('DataGuard API called with predicate:', predicate);
+    /**
+     * Checks a call's arguments, throwing a TypeError for anything the typed API would not accept, and returns the call to make
+     */
+    private async prepareApiCall(method: DataGuard.Method, params: unknown): Promise<() => Promise<unknown>> {
+        switch (method) {
+            case 'capabilities':
+            case 'getPublicTerms':
+                if (params !== undefined) throw new TypeError('takes no arguments');
+                return method === 'capabilities' ? () => this.apiCapabilities() : () => this.apiPublicTerms();
                 
-                const response = await this.sendMessageToBackground({
-                    type: 'REQUEST_EMAIL_DATA',
-                    data: { predicate }
-                });
+            case 'negotiate': {
+                const fields = this.readFields(params, 'request', ['predicate', 'mode', 'negotiation']);
+                const predicate = await this.readPredicate(fields.predicate);
+                const mode = this.readMode(fields.mode);
+                const negotiation = this.readString(fields.negotiation, 'negotiation', 64);
+                return () => this.apiNegotiate(predicate, mode, negotiation);
+            }
                 
-                return response;
-            },
-            
-            generateProof: async (predicate: any, emailData: any) => {
-                console.log('DataGuard API called to generate proof:', predicate);
+            case 'negotiateTerms': {
+                const message = await this.readNegotiationMessage(params);
+                return () => this.apiNegotiateTerms(message);
+            }
                 
-                const response = await this.sendMessageToBackground({
-                    type: 'GENERATE_PROOF',
-                    data: { predicate, emailData }
-                });
+            case 'request':
+            case 'prove': {
+                const fields = this.readFields(params, 'request', ['predicate', 'mode', 'purpose', 'payment', 'nonce', 'audience', 'negotiation']);
+                if (method === 'prove' && fields.mode !== undefined) throw new TypeError('proofs take no mode');
                 
-                return response;
-            },
-            
-            getPolicy: async () => {
-                const response = await this.sendMessageToBackground({
-                    type: 'GET_USER_POLICY'
-                });
-                
-                return response;
+                const request: DataGuard.DataRequest = {
+                    predicate: await this.readPredicate(fields.predicate),
+                    mode: this.readMode(fields.mode),
+                    purpose: this.readString(fields.purpose, 'purpose', 500),
+                    payment: this.readString(fields.payment, 'payment', 16384),
+                    nonce: this.readString(fields.nonce, 'nonce', 128),
+                    audience: this.readString(fields.audience, 'audience', 2048),
+                    negotiation: this.readString(fields.negotiation, 'negotiation', 64)
+                };
+                if (method === 'prove' && request.nonce === undefined) {
+                    throw new TypeError('a nonce from the verifier is required');
+                }
+                return () => this.apiRequest(request, method === 'prove');
             }
+        }
+    }
+
+    // A plain object with no fields besides the given ones
+    private readFields(value: unknown, name: string, fields: string[]): Record<string, unknown> {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            throw new TypeError(`${name} must be an object`);
+        }
+        const unknown = Object.keys(value).find(field => !fields.includes(field));
+        if (unknown) {
+            throw new TypeError(`${name} has an unknown field: ${unknown}`);
+        }
+        return value as Record<string, unknown>;
+    }
+
+    private async readPredicate(value: unknown): Promise<EmailPredicate> {
+        const fields = this.readFields(value, 'predicate', ['type', 'maxAge', 'minCount', 'disclosure']);
+        const ids = (await this.predicates).map(predicate => predicate.id);
+        
+        if (typeof fields.type !== 'string' || !ids.includes(fields.type)) {
+            throw new TypeError(`predicate.type must be one of: ${ids.join(', ')}`);
+        }
+        if (!this.isWholeNumber(fields.maxAge, 1, 3650)) {
+            throw new TypeError('predicate.maxAge must be a whole number of days from 1 to 3650');
+        }
+        if (fields.minCount !== undefined && !this.isWholeNumber(fields.minCount, 1, Number.MAX_SAFE_INTEGER)) {
+            throw new TypeError('predicate.minCount must be a positive whole number');
+        }
+        if (fields.disclosure !== undefined && fields.disclosure !== 'exact' && fields.disclosure !== 'bucketed' && fields.disclosure !== 'boolean') {
+            throw new TypeError("predicate.disclosure must be 'exact', 'bucketed' or 'boolean'");
+        }
+        
+        return {
+            type: fields.type,
+            maxAge: fields.maxAge as number,
+            ...(fields.minCount !== undefined ? { minCount: fields.minCount as number } : {}),
+            ...(fields.disclosure !== undefined ? { disclosure: fields.disclosure as DataGuard.CountDisclosure } : {})
+        };
+    }
+
+    /**
+     * A negotiateTerms() message, in the form the background takes it
+     */
+    private async readNegotiationMessage(value: unknown): Promise<Record<string, unknown>> {
+        const type = (value as { type?: unknown } | null)?.type;
+        const opening = type === 'offer' && (value as { negotiation?: unknown }).negotiation === undefined;
+        
+        if (opening) {
+            const fields = this.readFields(value, 'message', ['type', 'predicate', 'mode', 'terms']);
+            return {
+                type,
+                predicate: await this.readPredicate(fields.predicate),
+                mode: this.readMode(fields.mode) ?? 'emails',
+                terms: fields.terms === undefined ? {} : this.readTerms(fields.terms)
+            };
+        }
+        
+        const allowed: Record<string, string[]> = {
+            offer: ['type', 'negotiation', 'terms'],
+            accept: ['type', 'negotiation'],
+            reject: ['type', 'negotiation', 'reason']
+        };
+        if (typeof type !== 'string' || !allowed[type]) {
+            throw new TypeError("message.type must be 'offer', 'accept' or 'reject'");
+        }
+        const fields = this.readFields(value, 'message', allowed[type]);
+        const negotiationId = this.readString(fields.negotiation, 'negotiation', 64);
+        if (negotiationId === undefined) {
+            throw new TypeError(`a ${type} needs the negotiation it answers`);
+        }
+        return {
+            type,
+            negotiationId,
+            ...(type === 'offer' ? { terms: this.readTerms(fields.terms) } : {}),
+            ...(type === 'reject' ? { reason: this.readString(fields.reason, 'reason', 500) } : {})
+        };
+    }
+
+    private readTerms(value: unknown): Partial<DataGuard.Terms> {
+        const fields = this.readFields(value, 'terms', ['price', 'maxAge', 'maxEmails', 'fields', 'countDisclosure']);
+        
+        if (fields.price !== undefined && !(typeof fields.price === 'number' && Number.isFinite(fields.price) && fields.price >= 0)) {
+            throw new TypeError('terms.price must be a non-negative number of USDC');
+        }
+        if (fields.maxAge !== undefined && !this.isWholeNumber(fields.maxAge, 1, 3650)) {
+            throw new TypeError('terms.maxAge must be a whole number of days from 1 to 3650');
+        }
+        if (fields.maxEmails !== undefined && !this.isWholeNumber(fields.maxEmails, 1, 10000)) {
+            throw new TypeError('terms.maxEmails must be a whole number from 1 to 10000');
+        }
+        const released = fields.fields;
+        if (released !== undefined && !(Array.isArray(released) && released.every(field => field === 'subject' || field === 'sender' || field === 'body'))) {
+            throw new TypeError("terms.fields must list 'subject', 'sender' or 'body'");
+        }
+        const disclosure = fields.countDisclosure;
+        if (disclosure !== undefined && disclosure !== 'exact' && disclosure !== 'bucketed' && disclosure !== 'boolean') {
+            throw new TypeError("terms.countDisclosure must be 'exact', 'bucketed' or 'boolean'");
+        }
+        
+        return {
+            ...(fields.price !== undefined ? { price: fields.price as number } : {}),
+            ...(fields.maxAge !== undefined ? { maxAge: fields.maxAge as number } : {}),
+            ...(fields.maxEmails !== undefined ? { maxEmails: fields.maxEmails as number } : {}),
+            ...(released !== undefined ? { fields: [...new Set(released as DataGuard.NegotiableField[])] } : {}),
+            ...(disclosure !== undefined ? { countDisclosure: disclosure as DataGuard.CountDisclosure } : {})
+        };
+    }
+
+    private readMode(value: unknown): DataGuard.Mode | undefined {
+        if (value !== undefined && value !== 'emails' && value !== 'answer') {
+            throw new TypeError("mode must be 'emails' or 'answer'");
+        }
+        return value;
+    }
+
+    private readString(value: unknown, name: string, maxLength: number): string | undefined {
+        if (value !== undefined && (typeof value !== 'string' || !value || value.length > maxLength)) {
+            throw new TypeError(`${name} must be a non-empty string of at most ${maxLength} characters`);
+        }
+        return value;
+    }
+
+    private isWholeNumber(value: unknown, min: number, max: number): boolean {
+        return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+    }
+
+    // page-api.js adds the API version
+    private async apiCapabilities(): Promise<Omit<DataGuard.Capabilities, 'version'>> {
+        const key = await this.sendMessageToBackground({ type: 'GET_PUBLIC_KEY' });
+        
+        return {
+            methods: PAGE_API_METHODS,
+            modes: ['emails', 'answer'],
+            predicates: (await this.predicates).map(({ id, title, description, defaultMaxAge }) => ({
+                id,
+                title,
+                description,
+                defaultMaxAge
+            })),
+            attestationKey: key?.success ? key.publicKey : null
+        };
+    }
+
+    private async apiPublicTerms(): Promise<DataGuard.PublicTerms> {
+        const response = await this.sendMessageToBackground({ type: 'GET_PUBLIC_TERMS' });
+        if (!response?.success) {
+            throw new Error(response?.message || response?.error || 'Public terms are unavailable');
+        }
+        return response.terms;
+    }
+
+    /**
+     * The quote request() would answer with; a priced quote is kept, so paying it and calling request() releases the data
+     */
+    private async apiNegotiate(
+        predicate: EmailPredicate,
+        mode: DataGuard.Mode = 'emails',
+        negotiationId?: string
+    ): Promise<DataGuard.Quote | DataGuard.Failure> {
+        const quote = await this.requestQuote({
+            predicate,
+            requester: this.getRequesterDomain(),
+            ...this.resolveBinding(),
+            purpose: 'Price negotiation',
+            timestamp: new Date().toISOString(),
+            mode,
+            originalUrl: this.apiResource(mode, predicate, negotiationId),
+            transport: 'api',
+            negotiationId
+        });
+        
+        if (quote.failure) {
+            return this.toApiResult(quote.failure) as DataGuard.Failure;
+        }
+        
+        return {
+            success: true,
+            price: quote.terms!.price,
+            conditions: quote.terms!.conditions,
+            paymentRequired: !!quote.pending,
+            ...(quote.pending ? {
+                accepts: quote.pending.accepts,
+                expiresAt: new Date(quote.pending.expiresAt).toISOString()
+            } : {})
+        };
+    }
+
+    private async apiNegotiateTerms(message: Record<string, unknown>): Promise<DataGuard.Negotiation | DataGuard.Failure> {
+        const response = await this.sendMessageToBackground({ type: 'NEGOTIATE_TERMS', data: message });
+        if (!response?.success) {
+            return this.toApiResult({ ok: false, error: this.toDataGuardError(response) }) as DataGuard.Failure;
+        }
+        return { success: true, ...response.negotiation };
+    }
+
+    /**
+     * request() and prove(): the same quote, payment and approval as an intercepted request.
+     * Proofs are priced like answers, which reveal as much.
+     */
+    private async apiRequest(params: DataGuard.DataRequest, proof: boolean): Promise<unknown> {
+        const mode = proof ? 'answer' : params.mode ?? 'emails';
+        const request: DataRequest = {
+            predicate: params.predicate,
+            requester: this.getRequesterDomain(),
+            ...this.resolveBinding(params),
+            purpose: params.purpose || 'Data access request',
+            timestamp: new Date().toISOString(),
+            mode,
+            originalUrl: this.apiResource(mode, params.predicate, params.negotiation),
+            transport: 'api',
+            negotiationId: params.negotiation
         };
         
-        console.log('DataGuard API injected into page');
+        // API calls cannot be aborted by the page
+        const release = await this.releaseData(request, params.payment ?? null, new AbortController().signal, proof);
+        return this.toApiResult(release);
+    }
+
+    // Stands in for the request URL, so a quote from negotiate() is found again by request() and prove();
+    // a payment for negotiated terms is bound to their negotiation
+    private apiResource(mode: DataGuard.Mode, predicate: EmailPredicate, negotiationId?: string): string {
+        const resource = `urn:dataguard:${mode}:${predicate.type}`;
+        return negotiationId ? `${resource}:${negotiationId}` : resource;
+    }
+
+    /**
+     * A release as the window.DataGuard result, with the binding and attestation in the body rather than headers
+     */
+    private toApiResult(release: DataRelease): DataGuard.EmailsResult | DataGuard.AnswerResult | DataGuard.ProofResult | DataGuard.Failure {
+        if (!release.ok) {
+            return {
+                success: false,
+                ...this.errorBody(release.error),
+                ...(release.accepts ? { accepts: release.accepts } : {})
+            };
+        }
+        
+        const payment = release.settlement ? { payment: release.settlement as DataGuard.PaymentReceipt } : {};
+        switch (release.kind) {
+            case 'emails':
+                return {
+                    success: true,
+                    mode: 'emails',
+                    data: release.response.data,
+                    binding: release.response.binding,
+                    attestation: release.response.attestation,
+                    ...payment
+                };
+            case 'answer':
+                return { success: true, mode: 'answer', answer: release.response.answer, ...payment };
+            case 'proof':
+                return { success: true, proof: release.response.proof, ...payment };
+        }
     }
 
     private showSuccessNotification(message: string) {
@@ -531,6 +1141,63 @@ class DataGuardContentScript {
         addIndicator();
     }
 
+    /**
+     * A well-formed message from page-interceptor.js or page-api.js, or null; page scripts can post anything here
+     */
+    private parsePageMessage(data: unknown): PageBridgeMessage | PageApiCall | null {
+        const message = data as {
+            source?: unknown;
+            type?: unknown;
+            id?: unknown;
+            request?: Partial<PageRequest>;
+            method?: unknown;
+            params?: unknown;
+        } | null;
+        if (!message || message.source !== 'dataguard-page') return null;
+        
+        if (message.type === 'HELLO') {
+            return { source: 'dataguard-page', type: 'HELLO' };
+        }
+        if (typeof message.id !== 'string' || message.id.length > 64) return null;
+        if (message.type === 'ABORT') {
+            return { source: 'dataguard-page', type: 'ABORT', id: message.id };
+        }
+        if (message.type === 'CALL') {
+            const method = PAGE_API_METHODS.find(name => name === message.method);
+            return method ? { source: 'dataguard-page', type: 'CALL', id: message.id, method, params: message.params } : null;
+        }
+        if (message.type !== 'REQUEST') return null;
+        
+        const request = message.request;
+        const headers = request?.headers;
+        const valid = !!request &&
+            typeof request.url === 'string' && /^https?:/i.test(request.url) &&
+            typeof request.method === 'string' &&
+            (request.body === undefined || typeof request.body === 'string') &&
+            (request.transport === 'fetch' || request.transport === 'xhr' || request.transport === 'beacon') &&
+            !!headers && typeof headers === 'object' &&
+            Object.entries(headers).every(([name, value]) => name === name.toLowerCase() && typeof value === 'string');
+        if (!valid) return null;
+        
+        return {
+            source: 'dataguard-page',
+            type: 'REQUEST',
+            id: message.id,
+            request: {
+                url: request.url!,
+                method: request.method!,
+                headers: { ...headers },
+                body: request.body,
+                transport: request.transport!
+            }
+        };
+    }
+
+    private postToPage(message: ContentBridgeMessage | PageApiResult) {
+        // Delivered to this window only; the page-world scripts ignore messages from other windows
+        window.postMessage(message, '*');
+    }
+
     private sendMessageToBackground(message: ExtensionMessage): Promise<any> {
         return new Promise((resolve, reject) => {
             chrome.runtime.sendMessage(message, (response) => {
@@ -0,0 +1,56 @@
+// DataGuard error protocol for DataGuard extension
+// Builds the typed bodies returned for refused and failed data requests
+
+import { DataGuardError, DataGuardErrorCode } from '../types/index.js';
+
+// Whether the same request can succeed later without the requester changing it
+const RETRYABLE: Record<DataGuardErrorCode, boolean> = {
+    denied_by_user: false,
+    denied_by_policy: false,
+    payment_required: true, // once paid
+    timeout: true,
+    rate_limited: true,
+    source_unavailable: true,
+    internal_error: false
+};
+
+// Suggested wait before asking again after the mail source failed
+export const SOURCE_RETRY_AFTER_SECONDS = 30;
+
+export function dataGuardError(
+    code: DataGuardErrorCode,
+    reason: string,
+    message: string,
+    retryAfter?: number
+): DataGuardError {
+    return {
+        error: code,
+        reason,
+        message,
+        retryable: RETRYABLE[code],
+        ...(retryAfter !== undefined ? { retryAfter: Math.max(1, Math.ceil(retryAfter)) } : {})
+    };
+}
+
+/**
+ * Thrown from code that cannot return a denial itself; the handler that catches it answers with its body
+ */
+export class DataGuardRequestError extends Error {
+    readonly body: DataGuardError;
+
+    constructor(body: DataGuardError) {
+        super(body.message);
+        this.name = 'DataGuardRequestError';
+        this.body = body;
+    }
+}
+
+/**
+ * The protocol body for anything a handler caught; unexpected errors become internal_error
+ */
+export function toDataGuardError(error: unknown): DataGuardError {
+    if (error instanceof DataGuardRequestError) {
+        return error.body;
+    }
+    return dataGuardError('internal_error', 'unexpected_error', error instanceof Error ? error.message : String(error));
+}
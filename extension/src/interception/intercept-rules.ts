@@ -0,0 +1,199 @@
+// Interception rules for DataGuard extension
+// Which mail-API calls are intercepted, stored in chrome.storage and compiled into declarativeNetRequest rules
+
+import { InterceptMatcher, InterceptMethod, InterceptRule } from '../types/index.js';
+
+const STORAGE_KEY = 'interceptRules';
+
+// Where matched requests that get past the page-world interceptor are redirected instead of the mail API
+export const INTERCEPTED_RESPONSE_PATH = '/intercepted.json';
+
+export const INTERCEPT_METHODS: InterceptMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+
+export const DEFAULT_INTERCEPT_RULES: InterceptRule[] = [
+    {
+        id: 'mail-demo',
+        name: 'Mail demo API',
+        enabled: true,
+        host: 'localhost:3000',
+        pathPattern: '/api/emails'
+    }
+];
+
+// Every way a page can reach the mail API except top-level navigation by the user
+const INTERCEPTED_RESOURCE_TYPES = [
+    'xmlhttprequest',
+    'ping',
+    'sub_frame',
+    'script',
+    'image',
+    'media',
+    'object',
+    'other'
+] as chrome.declarativeNetRequest.ResourceType[];
+
+// requestHeaders conditions (Chrome 128) are not in @types/chrome yet
+type HeaderRuleCondition = chrome.declarativeNetRequest.RuleCondition & {
+    requestHeaders?: { header: string; values?: string[] }[];
+};
+
+export interface InterceptRuleChanges extends Partial<Pick<InterceptRule, 'name' | 'enabled' | 'host' | 'pathPattern'>> {
+    methods?: InterceptMethod[] | null; // null matches every method again
+    header?: InterceptRule['header'] | null; // null removes the header condition
+}
+
+const HOST_PATTERN = /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*(:\d{1,5})?$/;
+const PATH_PATTERN = /^\/[^\s?#]*$/;
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9a-z-]+$/;
+
+export async function getInterceptRules(): Promise<InterceptRule[]> {
+    const result = await chrome.storage.local.get([STORAGE_KEY]);
+    return result[STORAGE_KEY] || DEFAULT_INTERCEPT_RULES;
+}
+
+export async function addInterceptRule(rule: Omit<InterceptRule, 'id'>): Promise<InterceptRule> {
+    const added = validateInterceptRule({ ...rule, id: crypto.randomUUID() });
+    await saveInterceptRules([...await getInterceptRules(), added]);
+    return added;
+}
+
+export async function updateInterceptRule(id: string, changes: InterceptRuleChanges): Promise<InterceptRule> {
+    const rules = await getInterceptRules();
+    const existing = rules.find(rule => rule.id === id);
+    if (!existing) {
+        throw new Error(`Unknown interception rule: ${id}`);
+    }
+
+    const { methods, header, ...fields } = changes;
+    const merged: InterceptRule = { ...existing, ...fields, id };
+    if (methods === null) {
+        delete merged.methods;
+    } else if (methods) {
+        merged.methods = methods;
+    }
+    if (header === null) {
+        delete merged.header;
+    } else if (header) {
+        merged.header = header;
+    }
+
+    const updated = validateInterceptRule(merged);
+    await saveInterceptRules(rules.map(rule => rule.id === id ? updated : rule));
+    return updated;
+}
+
+export async function removeInterceptRule(id: string): Promise<void> {
+    await saveInterceptRules((await getInterceptRules()).filter(rule => rule.id !== id));
+}
+
+/**
+ * What the page-world interceptor needs to match the same requests as the network rules
+ */
+export function toInterceptMatchers(rules: InterceptRule[]): InterceptMatcher[] {
+    return rules.filter(rule => rule.enabled).map(rule => ({
+        pattern: interceptRulePattern(rule),
+        ...(rule.methods?.length ? { methods: rule.methods } : {}),
+        ...(rule.header ? { header: rule.header } : {})
+    }));
+}
+
+/**
+ * Replace the extension's dynamic network rules with the given, or else the stored, interception rules
+ */
+export async function applyInterceptRules(rules?: InterceptRule[]): Promise<void> {
+    const enabled = (rules ?? await getInterceptRules()).filter(rule => rule.enabled);
+    const existing = await chrome.declarativeNetRequest.getDynamicRules();
+
+    await chrome.declarativeNetRequest.updateDynamicRules({
+        removeRuleIds: existing.map(rule => rule.id),
+        addRules: enabled.map((rule, index) => compileInterceptRule(rule, index + 1))
+    });
+}
+
+/**
+ * One network rule redirecting matching requests to the extension.
+ * The extension's own requests, such as the mail service fetching emails, are left alone.
+ */
+export function compileInterceptRule(rule: InterceptRule, id: number): chrome.declarativeNetRequest.Rule {
+    const condition: HeaderRuleCondition = {
+        regexFilter: interceptRulePattern(rule),
+        resourceTypes: INTERCEPTED_RESOURCE_TYPES,
+        excludedInitiatorDomains: [chrome.runtime.id],
+        ...(rule.methods?.length ? { requestMethods: rule.methods as chrome.declarativeNetRequest.RequestMethod[] } : {}),
+        ...(rule.header ? {
+            requestHeaders: [{
+                header: rule.header.name,
+                ...(rule.header.value !== undefined ? { values: [rule.header.value] } : {})
+            }]
+        } : {})
+    };
+
+    return {
+        id,
+        priority: 1,
+        action: {
+            type: 'redirect' as chrome.declarativeNetRequest.RuleActionType,
+            redirect: { extensionPath: INTERCEPTED_RESPONSE_PATH }
+        },
+        condition
+    };
+}
+
+/**
+ * The URL regex for a rule, usable both as a declarativeNetRequest regexFilter and as a JavaScript RegExp
+ */
+export function interceptRulePattern(rule: Pick<InterceptRule, 'host' | 'pathPattern'>): string {
+    const host = rule.host.startsWith('*.')
+        ? `([^/:?#]+\\.)?${escapeRegex(rule.host.slice(2))}`
+        : escapeRegex(rule.host);
+    const path = rule.pathPattern.split('*').map(escapeRegex).join('[^?#]*');
+
+    return `^https?://${host}${path}([?#].*)?$`;
+}
+
+function validateInterceptRule(rule: InterceptRule): InterceptRule {
+    const name = String(rule.name || '').trim();
+    const host = String(rule.host || '').trim().toLowerCase();
+    const pathPattern = String(rule.pathPattern || '').trim();
+
+    if (!name) throw new Error('Interception rule needs a name');
+    if (!HOST_PATTERN.test(host)) throw new Error(`Not a host: ${rule.host}; use example.com, *.example.com or localhost:3000`);
+    if (!PATH_PATTERN.test(pathPattern)) throw new Error(`Path pattern must start with / and have no query: ${rule.pathPattern}`);
+
+    const methods = rule.methods?.map(method => String(method).toLowerCase() as InterceptMethod);
+    const unknown = methods?.find(method => !INTERCEPT_METHODS.includes(method));
+    if (unknown) throw new Error(`Unsupported method: ${unknown}`);
+
+    let header: InterceptRule['header'];
+    if (rule.header) {
+        const headerName = String(rule.header.name || '').trim().toLowerCase();
+        if (!HEADER_NAME.test(headerName)) throw new Error(`Not a header name: ${rule.header.name}`);
+        // Network rules treat * and ? in header values as wildcards; the page-world matcher compares exactly
+        if (rule.header.value !== undefined && /[*?]/.test(rule.header.value)) {
+            throw new Error('Header values cannot contain * or ?');
+        }
+        header = { name: headerName, ...(rule.header.value ? { value: rule.header.value } : {}) };
+    }
+
+    return {
+        id: rule.id,
+        name,
+        enabled: rule.enabled !== false,
+        host,
+        pathPattern,
+        ...(methods?.length ? { methods: Array.from(new Set(methods)) } : {}),
+        ...(header ? { header } : {})
+    };
+}
+
+/**
+ * Rules Chrome refuses are never stored
+ */
+async function saveInterceptRules(rules: InterceptRule[]): Promise<void> {
+    await applyInterceptRules(rules);
+    await chrome.storage.local.set({ [STORAGE_KEY]: rules });
+}
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,2 @@
+// Types for the self-contained ethers ESM bundle that copy-assets places at dist/lib/ethers.js
+export * from 'ethers';
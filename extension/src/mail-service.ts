@@ -1,24 +1,36 @@
 // Mail service integration for DataGuard extension
 // Connects to the mail-demo service for email data
 
-import { EmailData, EmailPredicate } from './types';
+import { DataPreview, EmailData, EmailPredicate, Policy, PredicateAnswer } from './types/index.js';
+import { predicateRegistry } from './predicates/index.js';
+import { computePredicateAnswer, resolveDisclosure } from './predicates/predicate-answer.js';
+import { DataGuardRequestError, SOURCE_RETRY_AFTER_SECONDS, dataGuardError } from './errors/dataguard-error.js';
 
 export class MailService {
     private baseUrl = 'http://localhost:3000';
-    private fallbackData: EmailData[] = [];
 
+    /**
+     * The inbox from the mail-demo service. An unreachable service is reported as source_unavailable,
+     * never papered over with made-up emails that would then be attested as real.
+     */
     async getEmails(): Promise<EmailData[]> {
+        let emails: any[];
         try {
             const response = await fetch(`${this.baseUrl}/api/emails`);
             if (!response.ok) {
                 throw new Error(`HTTP error! status: ${response.status}`);
             }
-            const emails = await response.json();
-            return this.normalizeEmailData(emails);
+            emails = await response.json();
         } catch (error) {
-            console.warn('Failed to fetch from mail-demo service, using fallback data:', error);
-            return this.fallbackData;
+            console.warn('Failed to fetch from mail-demo service:', error);
+            throw new DataGuardRequestError(dataGuardError(
+                'source_unavailable',
+                'mail_service_unreachable',
+                `The mail service is unavailable: ${error instanceof Error ? error.message : String(error)}`,
+                SOURCE_RETRY_AFTER_SECONDS
+            ));
         }
+        return this.normalizeEmailData(emails);
     }
 
     async getEmailsByPredicate(predicate: EmailPredicate): Promise<EmailData[]> {
@@ -26,85 +38,103 @@ export class MailService {
         return this.filterEmailsByPredicate(allEmails, predicate);
     }
 
-    private filterEmailsByPredicate(emails: EmailData[], predicate: EmailPredicate): EmailData[] {
-        const now = new Date();
-        const cutoffDate = new Date(now.getTime() - predicate.maxAge * 24 * 60 * 60 * 1000);
-        
-        return emails.filter(email => {
-            const emailDate = new Date(email.date);
-            if (emailDate < cutoffDate) return false;
-            
-            switch (predicate.type) {
-                case 'subscription':
-                    return this.isSubscriptionEmail(email);
-                case 'delivery':
-                    return this.isDeliveryEmail(email);
-                case 'purchase':
-                    return this.isPurchaseEmail(email);
-                default:
-                    return false;
-            }
-        });
+    /**
+     * Answer a predicate locally with only the count disclosure the policy allows
+     */
+    async answerPredicate(predicate: EmailPredicate, policy: Policy): Promise<PredicateAnswer> {
+        const windowed: EmailPredicate = {
+            ...predicate,
+            maxAge: Math.min(predicate.maxAge, policy.maxEmailAge)
+        };
+        const matches = await this.getEmailsByPredicate(windowed);
+        const disclosure = resolveDisclosure(predicate.disclosure, policy.countDisclosure);
+
+        return computePredicateAnswer(matches, windowed, disclosure);
     }
 
-    private isSubscriptionEmail(email: EmailData): boolean {
-        const subscriptionKeywords = [
-            'unsubscribe', 'subscription', 'newsletter', 'digest', 'weekly', 'monthly'
-        ];
-        
-        const subjectLower = email.subject.toLowerCase();
-        const senderLower = email.sender.toLowerCase();
-        
-        return email.type === 'subscription' ||
-               subscriptionKeywords.some(keyword => 
-                   subjectLower.includes(keyword) || senderLower.includes(keyword)
-               ) ||
-               this.isNewsletterSender(email.sender);
+    /**
+     * Emails exactly as they leave in emails mode: windowed and capped by policy (and the optional
+     * tighter maxEmails), newest first, then redacted
+     */
+    async prepareEmailResponse(predicate: EmailPredicate, policy: Policy, maxEmails?: number): Promise<EmailData[]> {
+        const windowed: EmailPredicate = {
+            ...predicate,
+            maxAge: Math.min(predicate.maxAge, policy.maxEmailAge)
+        };
+        const limit = Math.min(maxEmails ?? policy.maxEmailsPerRequest, policy.maxEmailsPerRequest);
+        const matches = (await this.getEmailsByPredicate(windowed))
+            .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+            .slice(0, Math.max(limit, 0));
+
+        return this.applyRedaction(matches, policy, windowed);
     }
 
-    private isDeliveryEmail(email: EmailData): boolean {
-        const deliveryKeywords = [
-            'delivered', 'delivery', 'shipped', 'tracking', 'package', 'parcel'
-        ];
-        
-        const deliverySenders = [
-            'amazon', 'dhl', 'ups', 'fedex', 'usps', 'flipkart', 'myntra'
-        ];
-        
-        const subjectLower = email.subject.toLowerCase();
-        const senderLower = email.sender.toLowerCase();
-        
-        return email.type === 'delivery' ||
-               deliveryKeywords.some(keyword => subjectLower.includes(keyword)) ||
-               deliverySenders.some(sender => senderLower.includes(sender));
+    /**
+     * Preview of what a request would release, computed the same way as the real response
+     */
+    async previewRequest(
+        predicate: EmailPredicate,
+        mode: 'emails' | 'answer',
+        policy: Policy,
+        maxEmails?: number,
+        sampleSize: number = 3
+    ): Promise<DataPreview> {
+        const windowed: EmailPredicate = {
+            ...predicate,
+            maxAge: Math.min(predicate.maxAge, policy.maxEmailAge)
+        };
+
+        if (mode === 'answer') {
+            return { mode, predicate: windowed, answer: await this.answerPredicate(windowed, policy) };
+        }
+
+        const emails = await this.prepareEmailResponse(windowed, policy, maxEmails);
+        const fields = ['id', 'subject', 'sender', 'date', 'body', 'type'] as (keyof EmailData)[];
+        const redactedFields = emails.length === 0
+            ? []
+            : fields.filter(field => emails.every(email => email[field] === '[REDACTED]'));
+
+        return {
+            mode,
+            predicate: windowed,
+            emailCount: emails.length,
+            fields: fields.filter(field => !redactedFields.includes(field)),
+            redactedFields,
+            samples: emails.slice(0, sampleSize)
+        };
     }
 
-    private isPurchaseEmail(email: EmailData): boolean {
-        const purchaseKeywords = [
-            'order', 'receipt', 'invoice', 'payment', 'purchase', 'billing'
-        ];
-        
-        const subjectLower = email.subject.toLowerCase();
-        
-        return email.type === 'purchase' ||
-               purchaseKeywords.some(keyword => subjectLower.includes(keyword));
+    /**
+     * Apply policy and predicate redaction to emails before they leave the extension
+     */
+    applyRedaction(emails: EmailData[], policy: Policy, predicate: EmailPredicate): EmailData[] {
+        return emails.map(email => predicateRegistry.redact(predicate.type, {
+            ...email,
+            body: policy.redactEmailBodies ? '[REDACTED]' : email.body,
+            subject: policy.showSubjectInfo ? email.subject : '[REDACTED]',
+            sender: policy.showSenderInfo ? email.sender : '[REDACTED]'
+        }));
     }
 
-    private isNewsletterSender(sender: string): boolean {
-        const newsletterDomains = [
-            'newsletter', 'digest', 'weekly', 'monthly', 'updates'
-        ];
+    filterEmailsByPredicate(emails: EmailData[], predicate: EmailPredicate): EmailData[] {
+        const now = new Date();
+        const cutoffDate = new Date(now.getTime() - predicate.maxAge * 24 * 60 * 60 * 1000);
         
-        const senderLower = sender.toLowerCase();
-        return newsletterDomains.some(domain => senderLower.includes(domain));
+        return emails.filter(email => {
+            const emailDate = new Date(email.date);
+            if (emailDate < cutoffDate) return false;
+            
+            return predicateRegistry.matches(predicate.type, email);
+        });
     }
 
     private normalizeEmailData(emails: any[]): EmailData[] {
         return emails.map(email => ({
             id: email.id || this.generateId(),
             subject: email.subject || 'No Subject',
-            sender: email.sender || 'Unknown Sender',
-            date: email.date || new Date().toISOString(),
+            // mail-demo uses from/timestamp, other sources sender/date
+            sender: email.sender || email.from || 'Unknown Sender',
+            date: email.date || email.timestamp || new Date().toISOString(),
             body: email.body || '',
             type: email.type || 'general'
         }));
@@ -0,0 +1,98 @@
+// Built-in payment networks for DataGuard Extension
+// Native USDC on each chain; contract addresses and EIP-712 domains as published by Circle
+
+import { NetworkDefinition, NetworkRegistry } from './network-registry.js';
+
+// Verifies and settles, but has no /refund
+const X402_FACILITATOR = 'https://x402.org/facilitator';
+
+// Local facilitator from mail-demo (`yarn facilitator`)
+const LOCAL_FACILITATOR = 'http://localhost:3402';
+
+export const builtinNetworks: NetworkDefinition[] = [
+    {
+        id: 'base',
+        title: 'Base',
+        chainId: 8453,
+        rpcUrl: 'https://mainnet.base.org',
+        explorerUrl: 'https://basescan.org',
+        facilitatorUrl: X402_FACILITATOR,
+        refunds: false,
+        testnet: false,
+        assets: [{
+            symbol: 'USDC',
+            address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+            decimals: 6,
+            eip712: { name: 'USD Coin', version: '2' }
+        }]
+    },
+    {
+        id: 'base-sepolia',
+        title: 'Base Sepolia',
+        chainId: 84532,
+        rpcUrl: 'https://sepolia.base.org',
+        explorerUrl: 'https://sepolia.basescan.org',
+        facilitatorUrl: X402_FACILITATOR,
+        refunds: false,
+        testnet: true,
+        assets: [{
+            symbol: 'USDC',
+            address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+            decimals: 6,
+            eip712: { name: 'USDC', version: '2' }
+        }]
+    },
+    {
+        id: 'polygon',
+        title: 'Polygon',
+        chainId: 137,
+        rpcUrl: 'https://polygon-rpc.com',
+        explorerUrl: 'https://polygonscan.com',
+        facilitatorUrl: X402_FACILITATOR,
+        refunds: false,
+        testnet: false,
+        assets: [{
+            symbol: 'USDC',
+            address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+            decimals: 6,
+            eip712: { name: 'USD Coin', version: '2' }
+        }]
+    },
+    {
+        id: 'polygon-amoy',
+        title: 'Polygon Amoy',
+        chainId: 80002,
+        rpcUrl: 'https://rpc-amoy.polygon.technology',
+        explorerUrl: 'https://amoy.polygonscan.com',
+        facilitatorUrl: X402_FACILITATOR,
+        refunds: false,
+        testnet: true,
+        assets: [{
+            symbol: 'USDC',
+            address: '0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582',
+            decimals: 6,
+            eip712: { name: 'USDC', version: '2' }
+        }]
+    },
+    {
+        // Hardhat/Anvil chain; the USDC address is the first contract deployed by the default account
+        id: 'devnet',
+        title: 'Local devnet',
+        chainId: 31337,
+        rpcUrl: 'http://localhost:8545',
+        explorerUrl: '',
+        facilitatorUrl: LOCAL_FACILITATOR,
+        refunds: true,
+        testnet: true,
+        assets: [{
+            symbol: 'USDC',
+            address: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+            decimals: 6,
+            eip712: { name: 'USD Coin', version: '2' }
+        }]
+    }
+];
+
+export function registerBuiltinNetworks(registry: NetworkRegistry): void {
+    builtinNetworks.forEach(definition => registry.register(definition));
+}
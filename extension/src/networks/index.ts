@@ -0,0 +1,9 @@
+// Shared network registry with the built-in networks registered
+
+import { NetworkRegistry } from './network-registry.js';
+import { registerBuiltinNetworks } from './builtin-networks.js';
+
+export const networkRegistry = new NetworkRegistry();
+registerBuiltinNetworks(networkRegistry);
+
+export * from './network-registry.js';
@@ -0,0 +1,109 @@
+// Network Registry for DataGuard Extension
+// Single place where payment networks and the assets accepted on them are declared
+
+import { NetworkId, Policy } from '../types/index.js';
+
+export interface AssetDefinition {
+    symbol: string; // e.g. USDC
+    address: string; // token contract, the EIP-712 verifying contract
+    decimals: number;
+    eip712: {
+        name: string;
+        version: string;
+    };
+}
+
+export interface NetworkDefinition {
+    id: NetworkId; // x402 network name, e.g. base-sepolia
+    title: string;
+    chainId: number;
+    rpcUrl: string;
+    explorerUrl: string; // transactions live at `${explorerUrl}/tx/${hash}`
+    facilitatorUrl: string; // used unless the policy overrides it
+    refunds: boolean; // whether that facilitator has a /refund endpoint
+    testnet: boolean;
+    assets: AssetDefinition[]; // USD stablecoins supporting EIP-3009 transferWithAuthorization
+}
+
+// A network and asset a requester may pay with
+export interface PaymentOption {
+    network: NetworkDefinition;
+    asset: AssetDefinition;
+}
+
+export class NetworkRegistry {
+    private networks: Map<NetworkId, NetworkDefinition> = new Map();
+
+    /**
+     * Register a network definition
+     */
+    register(definition: NetworkDefinition): void {
+        if (this.networks.has(definition.id)) {
+            throw new Error(`Network already registered: ${definition.id}`);
+        }
+
+        this.networks.set(definition.id, definition);
+    }
+
+    get(id: NetworkId): NetworkDefinition | undefined {
+        return this.networks.get(id);
+    }
+
+    has(id: NetworkId): boolean {
+        return this.networks.has(id);
+    }
+
+    list(): NetworkDefinition[] {
+        return Array.from(this.networks.values());
+    }
+
+    /**
+     * Asset symbols offered on any registered network
+     */
+    listAssetSymbols(): string[] {
+        return Array.from(new Set(this.list().flatMap(network => network.assets.map(asset => asset.symbol))));
+    }
+
+    /**
+     * Find an asset on a network by its contract address
+     */
+    getAsset(id: NetworkId, address: string): AssetDefinition | undefined {
+        return this.networks.get(id)?.assets.find(asset => asset.address.toLowerCase() === address.toLowerCase());
+    }
+
+    /**
+     * Every registered network and asset the policy accepts, in registry order
+     */
+    getPaymentOptions(policy: Pick<Policy, 'acceptedNetworks' | 'acceptedAssets'>): PaymentOption[] {
+        return this.list()
+            .filter(network => policy.acceptedNetworks.includes(network.id))
+            .flatMap(network => network.assets
+                .filter(asset => policy.acceptedAssets.includes(asset.symbol))
+                .map(asset => ({ network, asset })));
+    }
+
+    /**
+     * The policy's facilitator override, or the network's own facilitator
+     */
+    getFacilitatorUrl(id: NetworkId, policy: Pick<Policy, 'facilitatorUrl'>): string {
+        const network = this.networks.get(id);
+        if (!network) {
+            throw new Error(`Unknown network: ${id}`);
+        }
+
+        return policy.facilitatorUrl || network.facilitatorUrl;
+    }
+
+    /**
+     * Whether a settled payment on the network can be refunded: its facilitator has a /refund endpoint,
+     * or the policy points at a facilitator of the user's choosing, which is trusted to have one
+     */
+    supportsRefunds(id: NetworkId, policy: Pick<Policy, 'facilitatorUrl'>): boolean {
+        return !!policy.facilitatorUrl || !!this.networks.get(id)?.refunds;
+    }
+
+    getTransactionUrl(id: NetworkId, transactionHash: string): string | undefined {
+        const network = this.networks.get(id);
+        return network?.explorerUrl ? `${network.explorerUrl}/tx/${transactionHash}` : undefined;
+    }
+}
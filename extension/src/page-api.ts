@@ -0,0 +1,89 @@
+// Page API for DataGuard extension
+// Defines window.DataGuard in the page's own JavaScript world. Calls go to the content script over window.postMessage,
+// which validates every argument and answers through the background.
+
+// API bridge protocol, shared with content.ts (both are classic scripts in one global scope)
+interface PageApiCall {
+  source: 'dataguard-page';
+  type: 'CALL';
+  id: string;
+  method: DataGuard.Method;
+  params?: unknown;
+}
+
+interface PageApiResult {
+  source: 'dataguard-content';
+  type: 'RESULT';
+  id: string;
+  result?: unknown;
+  invalid?: string; // the arguments were rejected; the call throws a TypeError with this message
+  error?: string; // the extension could not answer; the call throws an Error with this message
+}
+
+(() => {
+    // major.minor: a minor bump only adds methods or optional fields
+    const API_VERSION = '1.1';
+
+    const pending = new Map<string, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+    let nextId = 0;
+
+    window.addEventListener('message', event => {
+        if (event.source !== window || !isResult(event.data)) return;
+        const message = event.data;
+
+        const call = pending.get(message.id);
+        if (call) {
+            pending.delete(message.id);
+            if (message.invalid !== undefined) {
+                call.reject(new TypeError(message.invalid));
+            } else if (message.error !== undefined) {
+                call.reject(new Error(message.error));
+            } else {
+                call.resolve(message.result);
+            }
+        }
+    });
+
+    function call<T>(method: DataGuard.Method, params?: unknown): Promise<T> {
+        return new Promise((resolve, reject) => {
+            const id = `api-${++nextId}`;
+            pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+            try {
+                const message: PageApiCall = { source: 'dataguard-page', type: 'CALL', id, method, params };
+                window.postMessage(message, '*');
+            } catch (error) {
+                // Functions and other values that cannot be cloned
+                pending.delete(id);
+                reject(new TypeError(`DataGuard.${method}: arguments must be plain data`));
+            }
+        });
+    }
+
+    const api: DataGuard.API = Object.freeze({
+        version: API_VERSION,
+        capabilities: async () => ({
+            ...await call<Omit<DataGuard.Capabilities, 'version'>>('capabilities'),
+            version: API_VERSION
+        }),
+        negotiate: (request: DataGuard.NegotiateRequest) => call<DataGuard.Quote | DataGuard.Failure>('negotiate', request),
+        negotiateTerms: (message: DataGuard.NegotiationMessage) =>
+            call<DataGuard.Negotiation | DataGuard.Failure>('negotiateTerms', message),
+        request: (request: DataGuard.DataRequest) =>
+            call<DataGuard.EmailsResult | DataGuard.AnswerResult | DataGuard.Failure>('request', request),
+        prove: (request: DataGuard.ProofRequest) => call<DataGuard.ProofResult | DataGuard.Failure>('prove', request),
+        getPublicTerms: () => call<DataGuard.PublicTerms>('getPublicTerms')
+    });
+
+    // Pages cannot swap the API for a look-alike once it is defined
+    Object.defineProperty(window, 'DataGuard', { value: api, enumerable: true });
+
+    function isResult(data: unknown): data is PageApiResult {
+        const message = data as Partial<PageApiResult> | null;
+        return !!message &&
+            message.source === 'dataguard-content' &&
+            message.type === 'RESULT' &&
+            typeof message.id === 'string' &&
+            (message.invalid === undefined || typeof message.invalid === 'string') &&
+            (message.error === undefined || typeof message.error === 'string');
+    }
+})();
@@ -0,0 +1,369 @@
+// Page-world request interceptor for DataGuard extension
+// Runs in the page's own JavaScript world, where it sees the page's fetch, XMLHttpRequest and sendBeacon calls,
+// and hands email-data requests to the content script over window.postMessage
+
+// Bridge protocol types, shared with content.ts (both are classic scripts in one global scope)
+type PageTransport = 'fetch' | 'xhr' | 'beacon';
+
+interface PageRequest {
+  url: string; // absolute
+  method: string;
+  headers: Record<string, string>; // lower-case names
+  body?: string; // text bodies only
+  transport: PageTransport;
+}
+
+interface PageResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+// One interception rule as compiled by the background (mirrors InterceptMatcher in types/index.ts)
+interface PageInterceptMatcher {
+  pattern: string; // URL regex, the same one the network rule uses
+  methods?: string[]; // lower-case; any method when absent
+  header?: { name: string; value?: string }; // lower-case name; any value when absent
+}
+
+// Which requests go to DataGuard; the content script sends them once the background has the rules
+interface PageInterceptRules {
+  matchers: PageInterceptMatcher[];
+}
+
+type PageBridgeMessage =
+  | { source: 'dataguard-page'; type: 'HELLO' }
+  | { source: 'dataguard-page'; type: 'REQUEST'; id: string; request: PageRequest }
+  | { source: 'dataguard-page'; type: 'ABORT'; id: string };
+
+type ContentBridgeMessage =
+  | { source: 'dataguard-content'; type: 'READY'; rules: PageInterceptRules }
+  | { source: 'dataguard-content'; type: 'RESPONSE'; id: string; response?: PageResponse; passthrough?: boolean };
+
+// Everything else stays inside this function so the page sees no new globals
+(() => {
+    // Until the content script answers, requests to the mail-demo API wait for it
+    const DEFAULT_RULES: PageInterceptRules = {
+        matchers: [{ pattern: '^https?://localhost:3000/api/emails([?#].*)?$' }]
+    };
+
+    // A page without a responding content script gets its requests sent as made
+    const READY_TIMEOUT_MS = 10000;
+
+    // Shadowed on intercepted XHRs to report DataGuard's response
+    const XHR_RESPONSE_PROPERTIES: (keyof XMLHttpRequest)[] = ['readyState', 'status', 'statusText', 'responseURL', 'responseText', 'response', 'getResponseHeader', 'getAllResponseHeaders'];
+
+    interface XhrState {
+        method: string;
+        url: string;
+        headers: Record<string, string>;
+        async: boolean;
+        controller?: AbortController; // set while DataGuard handles the request
+    }
+
+    const originalFetch = window.fetch;
+    const originalOpen = XMLHttpRequest.prototype.open;
+    const originalSetRequestHeader = XMLHttpRequest.prototype.setRequestHeader;
+    const originalSend = XMLHttpRequest.prototype.send;
+    const originalAbort = XMLHttpRequest.prototype.abort;
+    const originalSendBeacon = typeof navigator.sendBeacon === 'function' ? navigator.sendBeacon.bind(navigator) : null;
+
+    const xhrStates = new WeakMap<XMLHttpRequest, XhrState>();
+    const pending = new Map<string, (message: ContentBridgeMessage & { type: 'RESPONSE' }) => void>();
+    let rules = DEFAULT_RULES;
+    let ready = false;
+    let readyWaiters: Array<() => void> = [];
+    let nextId = 0;
+
+    window.addEventListener('message', event => {
+        if (event.source !== window || !isContentMessage(event.data)) return;
+        const message = event.data;
+
+        if (message.type === 'READY') {
+            rules = message.rules;
+            ready = true;
+            readyWaiters.forEach(resolve => resolve());
+            readyWaiters = [];
+        } else {
+            const resolve = pending.get(message.id);
+            if (resolve) {
+                pending.delete(message.id);
+                resolve(message);
+            }
+        }
+    });
+
+    // The content script may already be listening; if not, it sends READY when it starts
+    post({ source: 'dataguard-page', type: 'HELLO' });
+
+    window.fetch = async function(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+        const source = input instanceof Request ? input : null;
+        const request: PageRequest = {
+            url: absoluteUrl(source ? source.url : String(input)),
+            method: (init?.method || source?.method || 'GET').toUpperCase(),
+            headers: headersToRecord(new Headers(init?.headers ?? source?.headers)),
+            body: textBody(init?.body),
+            transport: 'fetch'
+        };
+
+        if (matches(request)) {
+            const response = await forward(request, init?.signal ?? source?.signal);
+            if (response) {
+                return new Response(response.body, { status: response.status, headers: response.headers });
+            }
+        }
+
+        return originalFetch.call(window, input, init);
+    };
+
+    XMLHttpRequest.prototype.open = function(this: XMLHttpRequest, ...args: [string, string | URL, boolean?, (string | null)?, (string | null)?]) {
+        // A reused XHR reports its own responses again
+        XHR_RESPONSE_PROPERTIES.forEach(property => Reflect.deleteProperty(this, property));
+        xhrStates.set(this, {
+            method: args[0].toUpperCase(),
+            url: absoluteUrl(String(args[1])),
+            headers: {},
+            async: args.length < 3 || args[2] !== false
+        });
+        return (originalOpen as (...openArgs: unknown[]) => void).apply(this, args);
+    } as typeof XMLHttpRequest.prototype.open;
+
+    XMLHttpRequest.prototype.setRequestHeader = function(this: XMLHttpRequest, name: string, value: string) {
+        const state = xhrStates.get(this);
+        if (state) {
+            const key = name.toLowerCase();
+            state.headers[key] = state.headers[key] ? `${state.headers[key]}, ${value}` : value;
+        }
+        return originalSetRequestHeader.call(this, name, value);
+    };
+
+    XMLHttpRequest.prototype.send = function(this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+        const state = xhrStates.get(this);
+        const request: PageRequest | null = state ? {
+            url: state.url,
+            method: state.method,
+            headers: state.headers,
+            body: textBody(body),
+            transport: 'xhr'
+        } : null;
+
+        // Synchronous XHRs cannot wait for the content script
+        if (!state || !request || !state.async || !matches(request)) {
+            return originalSend.call(this, body);
+        }
+
+        const xhr = this;
+        const controller = new AbortController();
+        state.controller = controller;
+        forward(request, controller.signal).then(response => {
+            state.controller = undefined;
+            if (response) {
+                completeXhr(xhr, state.url, response);
+            } else {
+                originalSend.call(xhr, body);
+            }
+        }, () => {
+            // Aborted by the page; abort() already reported it
+        });
+    };
+
+    XMLHttpRequest.prototype.abort = function(this: XMLHttpRequest) {
+        const controller = xhrStates.get(this)?.controller;
+        originalAbort.call(this);
+
+        // The native XHR never started, so it fires no events of its own
+        if (controller && !controller.signal.aborted) {
+            controller.abort();
+            this.dispatchEvent(new ProgressEvent('abort'));
+            this.dispatchEvent(new ProgressEvent('loadend'));
+        }
+    };
+
+    if (originalSendBeacon) {
+        navigator.sendBeacon = function(url: string | URL, data?: BodyInit | null): boolean {
+            const request: PageRequest = {
+                url: absoluteUrl(String(url)),
+                method: 'POST',
+                headers: {},
+                body: textBody(data),
+                transport: 'beacon'
+            };
+
+            if (!matches(request)) {
+                return originalSendBeacon(url, data);
+            }
+
+            // A beacon cannot carry data back, so DataGuard drops it and only reports it
+            post({ source: 'dataguard-page', type: 'REQUEST', id: String(++nextId), request });
+            return false;
+        };
+    }
+
+    /**
+     * DataGuard's response, or null to send the request as made
+     */
+    async function forward(request: PageRequest, signal?: AbortSignal | null): Promise<PageResponse | null> {
+        if (!await waitForContentScript() || !matches(request)) {
+            return null;
+        }
+
+        const id = String(++nextId);
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                pending.delete(id);
+                post({ source: 'dataguard-page', type: 'ABORT', id });
+                reject(new DOMException('The operation was aborted.', 'AbortError'));
+            };
+            if (signal?.aborted) {
+                reject(new DOMException('The operation was aborted.', 'AbortError'));
+                return;
+            }
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            pending.set(id, message => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve(message.passthrough || !message.response ? null : message.response);
+            });
+            post({ source: 'dataguard-page', type: 'REQUEST', id, request });
+        });
+    }
+
+    function waitForContentScript(): Promise<boolean> {
+        if (ready) return Promise.resolve(true);
+
+        return new Promise(resolve => {
+            const timer = setTimeout(() => resolve(false), READY_TIMEOUT_MS);
+            readyWaiters.push(() => {
+                clearTimeout(timer);
+                resolve(true);
+            });
+        });
+    }
+
+    function matches(request: PageRequest): boolean {
+        const method = request.method.toLowerCase();
+
+        return rules.matchers.some(matcher => {
+            if (matcher.methods && !matcher.methods.includes(method)) return false;
+            if (matcher.header) {
+                const value = request.headers[matcher.header.name];
+                if (value === undefined) return false;
+                if (matcher.header.value !== undefined && value !== matcher.header.value) return false;
+            }
+            try {
+                return new RegExp(matcher.pattern).test(request.url);
+            } catch {
+                return false;
+            }
+        });
+    }
+
+    /**
+     * Finish an XHR with DataGuard's response, as if the server had sent it
+     */
+    function completeXhr(xhr: XMLHttpRequest, url: string, response: PageResponse) {
+        const headers = headersToRecord(new Headers(response.headers));
+        const define = (property: keyof XMLHttpRequest, value: unknown) => {
+            Object.defineProperty(xhr, property, { value, configurable: true });
+        };
+
+        define('readyState', XMLHttpRequest.DONE);
+        define('status', response.status);
+        define('statusText', '');
+        define('responseURL', url);
+        define('responseText', response.body);
+        define('response', xhrResponse(xhr.responseType, response.body, headers['content-type']));
+        define('getResponseHeader', (name: string) => headers[name.toLowerCase()] ?? null);
+        define('getAllResponseHeaders', () =>
+            Object.entries(headers).map(([name, value]) => `${name}: ${value}\r\n`).join(''));
+
+        const progress = { lengthComputable: true, loaded: response.body.length, total: response.body.length };
+        xhr.dispatchEvent(new Event('readystatechange'));
+        xhr.dispatchEvent(new ProgressEvent('load', progress));
+        xhr.dispatchEvent(new ProgressEvent('loadend', progress));
+    }
+
+    function xhrResponse(responseType: XMLHttpRequestResponseType, body: string, contentType?: string): unknown {
+        switch (responseType) {
+            case 'json':
+                try {
+                    return JSON.parse(body);
+                } catch {
+                    return null;
+                }
+            case 'blob':
+                return new Blob([body], { type: contentType || '' });
+            case 'arraybuffer':
+                return new TextEncoder().encode(body).buffer;
+            case 'document':
+                return null;
+            default:
+                return body;
+        }
+    }
+
+    function isContentMessage(data: unknown): data is ContentBridgeMessage {
+        const message = data as Partial<ContentBridgeMessage> | null;
+        if (!message || message.source !== 'dataguard-content') return false;
+
+        if (message.type === 'READY') {
+            const candidate = (message as { rules?: Partial<PageInterceptRules> }).rules;
+            return Array.isArray(candidate?.matchers) && candidate.matchers.every(isMatcher);
+        }
+        if (message.type === 'RESPONSE') {
+            const response = (message as { response?: Partial<PageResponse> }).response;
+            return typeof (message as { id?: unknown }).id === 'string' && (response === undefined || (
+                typeof response.status === 'number' &&
+                typeof response.body === 'string' &&
+                isStringRecord(response.headers)
+            ));
+        }
+        return false;
+    }
+
+    function isMatcher(value: unknown): value is PageInterceptMatcher {
+        const matcher = value as Partial<PageInterceptMatcher> | null;
+        return !!matcher && typeof matcher.pattern === 'string' &&
+            (matcher.methods === undefined || isStringArray(matcher.methods)) &&
+            (matcher.header === undefined || (
+                typeof matcher.header?.name === 'string' &&
+                (matcher.header.value === undefined || typeof matcher.header.value === 'string')
+            ));
+    }
+
+    function isStringArray(value: unknown): value is string[] {
+        return Array.isArray(value) && value.every(item => typeof item === 'string');
+    }
+
+    function isStringRecord(value: unknown): value is Record<string, string> {
+        return !!value && typeof value === 'object' && Object.values(value).every(item => typeof item === 'string');
+    }
+
+    function headersToRecord(headers: Headers): Record<string, string> {
+        const record: Record<string, string> = {};
+        headers.forEach((value, name) => { record[name] = value; });
+        return record;
+    }
+
+    /**
+     * Text bodies are inspected; binary and form bodies are left unread
+     */
+    function textBody(body: unknown): string | undefined {
+        if (typeof body === 'string') return body;
+        if (body instanceof URLSearchParams) return body.toString();
+        return undefined;
+    }
+
+    function absoluteUrl(url: string): string {
+        try {
+            return new URL(url, window.location.href).href;
+        } catch {
+            return url;
+        }
+    }
+
+    function post(message: PageBridgeMessage) {
+        // Delivered to this window only; both sides ignore messages from other windows
+        window.postMessage(message, '*');
+    }
+})();
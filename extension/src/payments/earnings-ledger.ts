@@ -0,0 +1,331 @@
+// Earnings Ledger for DataGuard Extension
+// Persists x402 payments and their lifecycle in IndexedDB and aggregates earnings for the popup
+
+import { EarningsPeriod, EarningsSummary, EarningsTotal, PaymentEvent, PaymentRecord } from '../types/index.js';
+import { USDC_DECIMALS } from './x402-service.js';
+import { EARNED_STATES, applyPaymentEvent } from './payment-state.js';
+
+const DB_NAME = 'dataguard-earnings';
+const DB_VERSION = 2;
+const STORE_NAME = 'payments';
+const LEGACY_STORE_NAME = 'settlements'; // version 1: settled payments only, keyed by transaction hash
+
+const CSV_COLUMNS = [
+    'id',
+    'state',
+    'authorizedAt',
+    'settledAt',
+    'transactionHash',
+    'refundTransactionHash',
+    'requesterId',
+    'predicateType',
+    'amount',
+    'asset',
+    'basePrice',
+    'demandMultiplier',
+    'privacyMultiplier',
+    'volumeMultiplier',
+    'requesterMultiplier',
+    'timeMultiplier',
+    'payer',
+    'payTo',
+    'network',
+    'resource'
+] as const;
+
+export class EarningsLedger {
+    private db: Promise<IDBDatabase> | null = null;
+
+    /**
+     * Store a newly authorized payment; a retry with the same authorization keeps the existing record
+     */
+    async authorize(record: PaymentRecord): Promise<PaymentRecord> {
+        return this.update(record.id, existing => existing || record);
+    }
+
+    /**
+     * Move a payment to its next state, merging in what the event revealed (e.g. the transaction hash)
+     */
+    async apply(
+        id: string,
+        event: PaymentEvent,
+        changes: Partial<PaymentRecord> = {},
+        reason?: string
+    ): Promise<PaymentRecord> {
+        return this.update(id, existing => {
+            if (!existing) {
+                throw new Error(`Unknown payment: ${id}`);
+            }
+            return { ...applyPaymentEvent(existing, event, reason), ...changes };
+        });
+    }
+
+    /**
+     * Expire authorizations whose deadline passed before they were settled
+     */
+    async expireAuthorizations(now: number = Date.now()): Promise<number> {
+        const db = await this.open();
+
+        return new Promise<number>((resolve, reject) => {
+            let expired = 0;
+            const transaction = db.transaction(STORE_NAME, 'readwrite');
+            const cursorRequest = transaction.objectStore(STORE_NAME)
+                .index('state')
+                .openCursor(IDBKeyRange.only('authorized'));
+
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (!cursor) return;
+
+                const record: PaymentRecord = cursor.value;
+                if (record.validBefore <= now) {
+                    cursor.update(applyPaymentEvent(record, 'authorization_expired', 'Authorization deadline passed before settlement', now));
+                    expired++;
+                }
+                cursor.continue();
+            };
+            transaction.oncomplete = () => resolve(expired);
+            transaction.onerror = () => reject(transaction.error);
+        });
+    }
+
+    async get(id: string): Promise<PaymentRecord | undefined> {
+        const db = await this.open();
+
+        return new Promise<PaymentRecord | undefined>((resolve, reject) => {
+            const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(id);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    /**
+     * Payments, newest first, optionally only those authorized at or after `since`
+     */
+    async list(since?: number): Promise<PaymentRecord[]> {
+        const db = await this.open();
+
+        const records = await new Promise<PaymentRecord[]>((resolve, reject) => {
+            const range = since === undefined ? undefined : IDBKeyRange.lowerBound(since);
+            const request = db.transaction(STORE_NAME, 'readonly')
+                .objectStore(STORE_NAME)
+                .index('authorizedAt')
+                .getAll(range);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+
+        return records.reverse();
+    }
+
+    /**
+     * Read-modify-write of one record inside a single transaction
+     */
+    private async update(
+        id: string,
+        change: (existing: PaymentRecord | undefined) => PaymentRecord
+    ): Promise<PaymentRecord> {
+        const db = await this.open();
+
+        return new Promise<PaymentRecord>((resolve, reject) => {
+            let updated: PaymentRecord;
+            const transaction = db.transaction(STORE_NAME, 'readwrite');
+            const store = transaction.objectStore(STORE_NAME);
+            const request = store.get(id);
+
+            request.onsuccess = () => {
+                try {
+                    updated = change(request.result);
+                } catch (error) {
+                    transaction.abort();
+                    reject(error);
+                    return;
+                }
+                if (updated !== request.result) {
+                    store.put(updated);
+                }
+            };
+            transaction.oncomplete = () => resolve(updated);
+            transaction.onerror = () => reject(transaction.error);
+        });
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise<IDBDatabase>((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                    store.createIndex('authorizedAt', 'authorizedAt');
+                    store.createIndex('state', 'state');
+                    store.createIndex('requesterId', 'requesterId');
+                    store.createIndex('predicateType', 'predicateType');
+
+                    if (db.objectStoreNames.contains(LEGACY_STORE_NAME)) {
+                        const legacy = request.transaction!.objectStore(LEGACY_STORE_NAME).getAll();
+                        legacy.onsuccess = () => {
+                            legacy.result.forEach(settlement => store.put(migrateSettlement(settlement)));
+                            db.deleteObjectStore(LEGACY_STORE_NAME);
+                        };
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            }).catch(error => {
+                // Let the next call retry instead of caching the failure
+                this.db = null;
+                throw error;
+            });
+        }
+
+        return this.db;
+    }
+}
+
+/**
+ * Version 1 only kept settlements, so each becomes a settled record
+ */
+function migrateSettlement(settlement: any): PaymentRecord {
+    return {
+        ...settlement,
+        id: settlement.transactionHash,
+        state: 'settled',
+        history: [{ event: 'settlement_succeeded', from: null, to: 'settled', at: settlement.settledAt }],
+        payer: settlement.payer || '',
+        asset: 'USDC',
+        authorizedAt: settlement.settledAt,
+        validBefore: settlement.settledAt
+    };
+}
+
+/**
+ * Totals of settled payments per day/week/month bucket, per requester and per predicate.
+ * Amounts are summed as integers at USDC precision so totals do not drift.
+ */
+export function summarizeEarnings(records: PaymentRecord[], period: EarningsPeriod): EarningsSummary {
+    const entries = records.filter(record => EARNED_STATES.includes(record.state) && record.settledAt !== undefined);
+    const byPeriod = new Map<string, { atomic: bigint; count: number }>();
+    const byRequester = new Map<string, { atomic: bigint; count: number }>();
+    const byPredicate = new Map<string, { atomic: bigint; count: number }>();
+    let totalAtomic = 0n;
+
+    for (const entry of entries) {
+        const atomic = BigInt(Math.round(entry.amount * 10 ** USDC_DECIMALS));
+        totalAtomic += atomic;
+        addToBucket(byPeriod, periodKey(new Date(entry.settledAt!), period), atomic);
+        addToBucket(byRequester, entry.requesterId, atomic);
+        addToBucket(byPredicate, entry.predicateType, atomic);
+    }
+
+    return {
+        period,
+        total: { key: 'total', amount: fromAtomic(totalAtomic), count: entries.length },
+        // Period keys are zero-padded, so they sort chronologically as strings
+        byPeriod: toTotals(byPeriod).sort((a, b) => b.key.localeCompare(a.key)),
+        byRequester: toTotals(byRequester).sort((a, b) => b.amount - a.amount),
+        byPredicate: toTotals(byPredicate).sort((a, b) => b.amount - a.amount)
+    };
+}
+
+/**
+ * One row per payment in any state, with the price breakdown flattened into columns
+ */
+export function earningsToCsv(entries: PaymentRecord[]): string {
+    const rows = entries.map(entry => {
+        const values: Record<typeof CSV_COLUMNS[number], string | number | undefined> = {
+            id: entry.id,
+            state: entry.state,
+            authorizedAt: new Date(entry.authorizedAt).toISOString(),
+            settledAt: entry.settledAt === undefined ? undefined : new Date(entry.settledAt).toISOString(),
+            transactionHash: entry.transactionHash,
+            refundTransactionHash: entry.refundTransactionHash,
+            requesterId: entry.requesterId,
+            predicateType: entry.predicateType,
+            amount: entry.amount,
+            asset: entry.asset,
+            basePrice: entry.priceBreakdown?.basePrice,
+            demandMultiplier: entry.priceBreakdown?.demandMultiplier,
+            privacyMultiplier: entry.priceBreakdown?.privacyMultiplier,
+            volumeMultiplier: entry.priceBreakdown?.volumeMultiplier,
+            requesterMultiplier: entry.priceBreakdown?.requesterMultiplier,
+            timeMultiplier: entry.priceBreakdown?.timeMultiplier,
+            payer: entry.payer,
+            payTo: entry.payTo,
+            network: entry.network,
+            resource: entry.resource
+        };
+
+        return CSV_COLUMNS.map(column => csvField(values[column])).join(',');
+    });
+
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+export function earningsToJson(entries: PaymentRecord[]): string {
+    return JSON.stringify(entries.map(entry => ({
+        ...entry,
+        authorizedAt: new Date(entry.authorizedAt).toISOString(),
+        settledAt: entry.settledAt === undefined ? undefined : new Date(entry.settledAt).toISOString(),
+        history: entry.history.map(transition => ({ ...transition, at: new Date(transition.at).toISOString() }))
+    })), null, 2);
+}
+
+function periodKey(date: Date, period: EarningsPeriod): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+
+    switch (period) {
+        case 'day':
+            return `${date.getFullYear()}-${month}-${String(date.getDate()).padStart(2, '0')}`;
+        case 'week':
+            return isoWeekKey(date);
+        case 'month':
+            return `${date.getFullYear()}-${month}`;
+    }
+}
+
+/**
+ * ISO 8601 week label such as 2026-W42; the week's Thursday decides its year
+ */
+function isoWeekKey(date: Date): string {
+    const thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    thursday.setDate(thursday.getDate() - ((thursday.getDay() + 6) % 7) + 3);
+
+    const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+    firstThursday.setDate(firstThursday.getDate() - ((firstThursday.getDay() + 6) % 7) + 3);
+
+    // Round to absorb daylight saving shifts between the two dates
+    const week = 1 + Math.round((thursday.getTime() - firstThursday.getTime()) / (7 * 24 * 60 * 60 * 1000));
+    return `${thursday.getFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+function addToBucket(buckets: Map<string, { atomic: bigint; count: number }>, key: string, atomic: bigint): void {
+    const bucket = buckets.get(key) || { atomic: 0n, count: 0 };
+    bucket.atomic += atomic;
+    bucket.count += 1;
+    buckets.set(key, bucket);
+}
+
+function toTotals(buckets: Map<string, { atomic: bigint; count: number }>): EarningsTotal[] {
+    return Array.from(buckets, ([key, bucket]) => ({
+        key,
+        amount: fromAtomic(bucket.atomic),
+        count: bucket.count
+    }));
+}
+
+function fromAtomic(atomic: bigint): number {
+    return Number(atomic) / 10 ** USDC_DECIMALS;
+}
+
+function csvField(value: string | number | undefined): string {
+    if (value === undefined) return '';
+
+    let field = String(value);
+    // Requester ids come from web pages; keep spreadsheets from evaluating them as formulas
+    if (/^[=+\-@\t\r]/.test(field)) {
+        field = `'${field}`;
+    }
+
+    return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
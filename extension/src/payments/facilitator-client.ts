@@ -0,0 +1,81 @@
+// x402 Facilitator client for DataGuard Extension
+// Talks to the facilitator at Policy.facilitatorUrl over HTTP
+
+import { PaymentPayload, PaymentRequirements } from '../types/index.js';
+
+const FACILITATOR_TIMEOUT_MS = 15000;
+
+export interface FacilitatorVerifyResponse {
+    isValid: boolean;
+    invalidReason?: string;
+    payer?: string;
+}
+
+export interface FacilitatorSettleResponse {
+    success: boolean;
+    errorReason?: string;
+    transaction: string;
+    network: string;
+    payer?: string;
+}
+
+export interface FacilitatorRefundResponse {
+    success: boolean;
+    errorReason?: string;
+    transaction: string; // hash of the refund transfer
+    network: string;
+}
+
+export class FacilitatorClient {
+    private baseUrl: string;
+
+    constructor(baseUrl: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+    }
+
+    /**
+     * Ask the facilitator whether the payment would settle, without moving funds
+     */
+    verify(payment: PaymentPayload, requirements: PaymentRequirements): Promise<FacilitatorVerifyResponse> {
+        return this.post('/verify', payment, requirements);
+    }
+
+    /**
+     * Submit the payment; the facilitator rejects a second settlement of the same authorization
+     */
+    settle(payment: PaymentPayload, requirements: PaymentRequirements): Promise<FacilitatorSettleResponse> {
+        return this.post('/settle', payment, requirements);
+    }
+
+    /**
+     * Return a settled payment to its payer. Not part of x402; facilitators without it answer 404.
+     */
+    refund(payment: PaymentPayload, requirements: PaymentRequirements, transaction: string): Promise<FacilitatorRefundResponse> {
+        return this.post('/refund', payment, requirements, { transaction });
+    }
+
+    private async post<T>(
+        path: string,
+        payment: PaymentPayload,
+        requirements: PaymentRequirements,
+        extra: Record<string, unknown> = {}
+    ): Promise<T> {
+        const response = await fetch(`${this.baseUrl}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                x402Version: payment.x402Version,
+                paymentPayload: payment,
+                paymentRequirements: requirements,
+                ...extra
+            }),
+            signal: AbortSignal.timeout(FACILITATOR_TIMEOUT_MS)
+        });
+
+        if (!response.ok) {
+            throw new Error(`Facilitator ${path} failed: HTTP ${response.status}`);
+        }
+
+        return response.json();
+    }
+}
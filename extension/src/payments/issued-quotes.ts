@@ -0,0 +1,79 @@
+// Issued quotes for DataGuard Extension
+// Remembers the terms each page was quoted, so payments are verified and approvals asked at DataGuard's own price
+
+import { ApprovedPayment, IssuedQuote } from '../types/index.js';
+
+const STORAGE_KEY = 'issuedQuotes';
+
+// How long a free quote waits for its request; priced ones last as long as their payment options
+export const FREE_QUOTE_TTL_SECONDS = 300;
+
+export class IssuedQuotes {
+    private queue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * Record a quote, replacing any earlier one for the same page and resource
+     */
+    save(quote: IssuedQuote): Promise<IssuedQuote> {
+        return this.exclusive(async () => {
+            const quotes = await loadQuotes(Date.now());
+            quotes[quoteKey(quote.origin, quote.resource)] = quote;
+            await storeQuotes(quotes);
+            return quote;
+        });
+    }
+
+    find(origin: string, resource: string): Promise<IssuedQuote | undefined> {
+        return this.exclusive(async () => (await loadQuotes(Date.now()))[quoteKey(origin, resource)]);
+    }
+
+    /**
+     * Tie a verified payment to the quote it pays
+     */
+    attachPayment(origin: string, resource: string, payment: ApprovedPayment): Promise<void> {
+        return this.exclusive(async () => {
+            const quotes = await loadQuotes(Date.now());
+            const quote = quotes[quoteKey(origin, resource)];
+            if (!quote) {
+                throw new Error('Payment is for a quote that expired or was never issued');
+            }
+            quote.payment = payment;
+            await storeQuotes(quotes);
+        });
+    }
+
+    /**
+     * The quote a request is approved under, used up by that approval
+     */
+    take(origin: string, resource: string): Promise<IssuedQuote | undefined> {
+        return this.exclusive(async () => {
+            const quotes = await loadQuotes(Date.now());
+            const key = quoteKey(origin, resource);
+            const quote = quotes[key];
+            delete quotes[key];
+            await storeQuotes(quotes);
+            return quote;
+        });
+    }
+
+    // Read-modify-write of the stored quotes one message at a time
+    private exclusive<T>(run: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(run);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+}
+
+function quoteKey(origin: string, resource: string): string {
+    return `${origin} ${resource}`;
+}
+
+async function loadQuotes(now: number): Promise<Record<string, IssuedQuote>> {
+    const result = await chrome.storage.session.get([STORAGE_KEY]);
+    const stored: Record<string, IssuedQuote> = result[STORAGE_KEY] || {};
+    return Object.fromEntries(Object.entries(stored).filter(([, quote]) => quote.expiresAt > now));
+}
+
+async function storeQuotes(quotes: Record<string, IssuedQuote>): Promise<void> {
+    await chrome.storage.session.set({ [STORAGE_KEY]: quotes });
+}
@@ -0,0 +1,67 @@
+// Payment state machine for DataGuard Extension
+// Moves a payment record through its lifecycle as facilitator responses and delivery outcomes arrive
+
+import { PaymentEvent, PaymentPayload, PaymentRecord, PaymentState } from '../types/index.js';
+
+// Which states each event may leave, and where it leads
+const TRANSITIONS: Record<PaymentEvent, { from: (PaymentState | null)[]; to: PaymentState }> = {
+    authorization_verified: { from: [null], to: 'authorized' },
+    settlement_succeeded: { from: ['authorized'], to: 'settled' },
+    settlement_failed: { from: ['authorized'], to: 'failed' },
+    authorization_expired: { from: ['authorized'], to: 'expired' },
+    authorization_released: { from: ['authorized'], to: 'voided' },
+    refund_succeeded: { from: ['settled', 'disputed'], to: 'refunded' },
+    refund_failed: { from: ['settled'], to: 'disputed' }
+};
+
+// Only settled payments count as earnings; disputed ones are owed back
+export const EARNED_STATES: readonly PaymentState[] = ['settled'];
+
+/**
+ * Ledger key for a payment: EIP-3009 nonces are unique per payer
+ */
+export function paymentRecordId(payment: PaymentPayload): string {
+    const { from, nonce } = payment.payload.authorization;
+    return `${from}:${nonce}`.toLowerCase();
+}
+
+export function canApplyPaymentEvent(state: PaymentState | null, event: PaymentEvent): boolean {
+    return TRANSITIONS[event].from.includes(state);
+}
+
+/**
+ * Apply an event to a record, appending it to the record's history.
+ * Throws if the event is not allowed from the record's current state.
+ */
+export function applyPaymentEvent(
+    record: PaymentRecord,
+    event: PaymentEvent,
+    reason?: string,
+    now: number = Date.now()
+): PaymentRecord {
+    if (!canApplyPaymentEvent(record.state, event)) {
+        throw new Error(`Cannot apply ${event} to a ${record.state} payment`);
+    }
+
+    const to = TRANSITIONS[event].to;
+    return {
+        ...record,
+        state: to,
+        history: [...record.history, { event, from: record.state, to, at: now, ...(reason ? { reason } : {}) }]
+    };
+}
+
+/**
+ * Start a record for a freshly verified X-PAYMENT authorization
+ */
+export function createAuthorizedPayment(
+    details: Omit<PaymentRecord, 'state' | 'history' | 'authorizedAt'>,
+    now: number = Date.now()
+): PaymentRecord {
+    return {
+        ...details,
+        state: 'authorized',
+        history: [{ event: 'authorization_verified', from: null, to: 'authorized', at: now }],
+        authorizedAt: now
+    };
+}
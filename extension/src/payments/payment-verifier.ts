@@ -0,0 +1,91 @@
+// Payment verifier for DataGuard Extension
+// Local checks of an x402 "exact" EVM payment (EIP-3009 transferWithAuthorization)
+
+import { NetworkId, PaymentFailure, PaymentPayload } from '../types/index.js';
+import { AssetDefinition } from '../networks/index.js';
+import { verifyTypedData } from '../lib/ethers.js';
+
+export interface PaymentExpectations {
+    network: NetworkId;
+    chainId: number;
+    asset: AssetDefinition; // its contract is the EIP-712 verifying contract
+    payTo: string;
+    minAmount: bigint; // atomic units
+    now?: Date;
+}
+
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+    TransferWithAuthorization: [
+        { name: 'from', type: 'address' },
+        { name: 'to', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'validAfter', type: 'uint256' },
+        { name: 'validBefore', type: 'uint256' },
+        { name: 'nonce', type: 'bytes32' }
+    ]
+};
+
+const UINT_PATTERN = /^\d+$/;
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+/**
+ * Every reason the payment does not meet the expectations; empty when it does
+ */
+export function checkExactPayment(payment: PaymentPayload, expected: PaymentExpectations): PaymentFailure[] {
+    const authorization = payment?.payload?.authorization;
+    if (!authorization || typeof payment.payload.signature !== 'string') {
+        return [{ code: 'invalid_payload', message: 'Payment payload has no authorization or signature' }];
+    }
+
+    const { from, to, value, validAfter, validBefore, nonce } = authorization;
+    if (![value, validAfter, validBefore].every(field => UINT_PATTERN.test(String(field)))
+        || !ADDRESS_PATTERN.test(from) || !ADDRESS_PATTERN.test(to)
+        || !/^0x[a-fA-F0-9]{64}$/.test(nonce)) {
+        return [{ code: 'invalid_payload', message: 'Payment authorization is malformed' }];
+    }
+
+    const failures: PaymentFailure[] = [];
+
+    if (payment.scheme !== 'exact') {
+        failures.push({ code: 'unsupported_scheme', message: `Unsupported payment scheme: ${payment.scheme}` });
+    }
+    if (payment.network !== expected.network) {
+        failures.push({ code: 'network_mismatch', message: `Payment is on ${payment.network}, expected ${expected.network}` });
+    }
+    if (to.toLowerCase() !== expected.payTo.toLowerCase()) {
+        failures.push({ code: 'recipient_mismatch', message: `Payment goes to ${to}, expected ${expected.payTo}` });
+    }
+    if (BigInt(value) < expected.minAmount) {
+        failures.push({ code: 'insufficient_amount', message: `Payment of ${value} is below the required ${expected.minAmount}` });
+    }
+
+    const now = BigInt(Math.floor((expected.now ?? new Date()).getTime() / 1000));
+    if (BigInt(validAfter) > now) {
+        failures.push({ code: 'not_yet_valid', message: 'Payment authorization is not valid yet' });
+    }
+    if (BigInt(validBefore) <= now) {
+        failures.push({ code: 'expired', message: 'Payment authorization has expired' });
+    }
+
+    // A signature for another token contract or chain recovers to a different address
+    let signer = '';
+    try {
+        signer = verifyTypedData(
+            {
+                ...expected.asset.eip712,
+                chainId: expected.chainId,
+                verifyingContract: expected.asset.address
+            },
+            TRANSFER_WITH_AUTHORIZATION_TYPES,
+            { from, to, value, validAfter, validBefore, nonce },
+            payment.payload.signature
+        );
+    } catch {
+        // Malformed signature, reported below
+    }
+    if (signer.toLowerCase() !== from.toLowerCase()) {
+        failures.push({ code: 'invalid_signature', message: `Authorization is not signed by ${from} for ${expected.asset.symbol} on ${expected.network}` });
+    }
+
+    return failures;
+}
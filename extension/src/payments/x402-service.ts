@@ -1,40 +1,31 @@
 // x402 Payment Service for DataGuard Extension
-// Implements payment processing using x402 protocol on Polygon network
-
-import { Policy } from '../types';
-
-export interface PaymentRequest {
-    predicateType: string;
-    price: number; // in USDC
-    walletAddress: string;
-    facilitatorUrl: string;
-    network: 'polygon' | 'polygon-mumbai';
-    requestId: string;
-    timestamp: number;
-}
+// Implements payment processing using x402 protocol on the networks in the NetworkRegistry
 
-export interface PaymentResponse {
-    success: boolean;
-    paymentProof?: string;
-    transactionHash?: string;
-    error?: string;
-    facilitatorResponse?: any;
-}
+import {
+    PaymentFailure,
+    PaymentPayload,
+    PaymentRequest,
+    PaymentRequirements,
+    PaymentResponse,
+    PaymentVerification,
+    Policy
+} from '../types/index.js';
+import { predicateRegistry } from '../predicates/index.js';
+import { PaymentOption, networkRegistry } from '../networks/index.js';
+import { FacilitatorClient } from './facilitator-client.js';
+import { checkExactPayment } from './payment-verifier.js';
 
-export interface PaymentVerification {
-    isValid: boolean;
-    amount: number;
-    recipient: string;
-    timestamp: number;
-    blockNumber?: number;
-}
+export const X402_VERSION = 1;
 
-export class X402PaymentService {
-    private readonly FACILITATOR_ENDPOINTS = {
-        'polygon': 'https://x402.org/facilitator',
-        'polygon-mumbai': 'https://x402.org/facilitator-mumbai'
-    };
+// USDC has 6 decimals on every supported network; amounts default to it
+export const USDC_DECIMALS = 6;
 
+// How long a payer has to submit payment for a 402 quote
+const PAYMENT_TIMEOUT_SECONDS = 300;
+
+type FacilitatorPolicy = Pick<Policy, 'facilitatorUrl'>;
+
+export class X402PaymentService {
     constructor() {
         console.log('x402 Payment Service initialized');
     }
@@ -53,147 +44,331 @@ export class X402PaymentService {
             throw new Error(`No price set for predicate type: ${predicateType}`);
         }
 
+        const [option] = networkRegistry.getPaymentOptions(policy);
+        if (!option) {
+            throw new Error('Policy accepts no payment network');
+        }
+
         return {
             predicateType,
             price,
             walletAddress: policy.walletAddress || '',
-            facilitatorUrl: policy.facilitatorUrl || this.FACILITATOR_ENDPOINTS['polygon'],
-            network: 'polygon',
+            facilitatorUrl: networkRegistry.getFacilitatorUrl(option.network.id, policy),
+            network: option.network.id,
             requestId,
             timestamp: Date.now()
         };
     }
 
     /**
-     * Process payment through x402 facilitator
+     * Settle the request's X-PAYMENT payload through the x402 facilitator
      */
     async processPayment(paymentRequest: PaymentRequest): Promise<PaymentResponse> {
-        try {
-            console.log('Processing x402 payment:', paymentRequest);
-
-            // In a real implementation, this would interact with the x402 facilitator
-            // For now, we'll simulate the payment process
-            
-            // Simulate facilitator interaction
-            const facilitatorResponse = await this.callFacilitator(paymentRequest);
-            
-            if (facilitatorResponse.success) {
-                return {
-                    success: true,
-                    paymentProof: facilitatorResponse.paymentProof,
-                    transactionHash: facilitatorResponse.transactionHash,
-                    facilitatorResponse
-                };
-            } else {
-                return {
-                    success: false,
-                    error: facilitatorResponse.error || 'Payment processing failed'
-                };
-            }
-        } catch (error) {
-            console.error('Payment processing error:', error);
+        console.log('Processing x402 payment:', paymentRequest);
+
+        if (!paymentRequest.paymentHeader) {
             return {
                 success: false,
-                error: error instanceof Error ? error.message : 'Unknown payment error'
+                error: 'No X-PAYMENT payload to settle'
+            };
+        }
+
+        const network = networkRegistry.get(paymentRequest.network);
+        if (!network) {
+            return {
+                success: false,
+                error: `Unsupported network: ${paymentRequest.network}`
             };
         }
+
+        const requirements = this.createPaymentRequirements(
+            paymentRequest.price,
+            paymentRequest.walletAddress,
+            { network, asset: network.assets[0] },
+            paymentRequest.resource || `dataguard:${paymentRequest.requestId}`,
+            `DataGuard ${paymentRequest.predicateType} data`
+        );
+
+        return this.settlePayment(paymentRequest.paymentHeader, requirements, paymentRequest);
     }
 
     /**
-     * Verify payment proof
+     * Verify an X-PAYMENT payload pays at least expectedAmount to the policy wallet
      */
     async verifyPayment(
         paymentProof: string,
         expectedAmount: number,
-        expectedRecipient: string
+        expectedRecipient: string,
+        policy: Policy
+    ): Promise<PaymentVerification> {
+        console.log('Verifying payment proof:', paymentProof);
+
+        // Payments are only ever accepted into the user's own wallet
+        if (expectedRecipient && expectedRecipient.toLowerCase() !== policy.walletAddress.toLowerCase()) {
+            return this.rejectedPayment([{
+                code: 'recipient_mismatch',
+                message: `Expected recipient ${expectedRecipient} is not the policy wallet`
+            }]);
+        }
+
+        const accepts = this.createPaymentOptions(
+            expectedAmount,
+            policy,
+            'dataguard:verify',
+            'DataGuard payment verification'
+        );
+
+        return this.verifyPaymentHeader(paymentProof, accepts, policy);
+    }
+
+    /**
+     * Build the x402 `accepts` list for a 402 response: one entry per network and asset the policy accepts
+     */
+    createPaymentOptions(
+        price: number,
+        policy: Pick<Policy, 'walletAddress' | 'acceptedNetworks' | 'acceptedAssets'>,
+        resource: string,
+        description: string
+    ): PaymentRequirements[] {
+        return networkRegistry.getPaymentOptions(policy).map(option =>
+            this.createPaymentRequirements(price, policy.walletAddress, option, resource, description)
+        );
+    }
+
+    /**
+     * Build a single x402 `accepts` entry
+     */
+    createPaymentRequirements(
+        price: number,
+        payTo: string,
+        option: PaymentOption,
+        resource: string,
+        description: string
+    ): PaymentRequirements {
+        return {
+            scheme: 'exact',
+            network: option.network.id,
+            maxAmountRequired: this.toAtomicUnits(price, option.asset.decimals),
+            resource,
+            description,
+            mimeType: 'application/json',
+            payTo,
+            maxTimeoutSeconds: PAYMENT_TIMEOUT_SECONDS,
+            asset: option.asset.address,
+            extra: { ...option.asset.eip712 }
+        };
+    }
+
+    /**
+     * Decode a base64 X-PAYMENT header
+     */
+    decodePaymentHeader(header: string): PaymentPayload {
+        let payload: PaymentPayload;
+        try {
+            payload = JSON.parse(atob(header));
+        } catch {
+            throw new Error('X-PAYMENT header is not base64-encoded JSON');
+        }
+
+        if (!payload?.payload?.authorization || !payload.payload.signature) {
+            throw new Error('X-PAYMENT header is missing the payment authorization');
+        }
+
+        return payload;
+    }
+
+    /**
+     * Check an X-PAYMENT header against the quoted options it may be paying for, then with the facilitator
+     */
+    async verifyPaymentHeader(
+        header: string,
+        accepts: PaymentRequirements[],
+        policy: FacilitatorPolicy
     ): Promise<PaymentVerification> {
+        let payment: PaymentPayload;
         try {
-            console.log('Verifying payment proof:', paymentProof);
-
-            // In a real implementation, this would verify the proof on-chain
-            // For now, we'll simulate verification
-            
-            // Simulate proof verification
-            const verification = await this.verifyProofOnChain(paymentProof);
-            
+            payment = this.decodePaymentHeader(header);
+        } catch (error) {
+            return this.rejectedPayment([{
+                code: 'invalid_payload',
+                message: error instanceof Error ? error.message : String(error)
+            }]);
+        }
+
+        const candidates = accepts.filter(requirements => requirements.network === payment.network);
+        if (candidates.length === 0) {
+            const accepted = accepts.map(requirements => requirements.network).join(', ') || 'none';
+            return this.rejectedPayment([{
+                code: 'network_mismatch',
+                message: `Payment is on ${payment.network}, accepted networks: ${accepted}`
+            }]);
+        }
+
+        // The payload names only the network; the signature decides which of its assets was authorized
+        let failures: PaymentFailure[] = [];
+        let requirements: PaymentRequirements | undefined;
+        for (const candidate of candidates) {
+            const candidateFailures = this.checkAgainstRequirements(payment, candidate);
+            if (candidateFailures.length === 0) {
+                requirements = candidate;
+                break;
+            }
+            if (failures.length === 0 || candidateFailures.length < failures.length) {
+                failures = candidateFailures;
+            }
+        }
+        if (!requirements) {
+            return this.rejectedPayment(failures);
+        }
+
+        try {
+            const facilitatorUrl = networkRegistry.getFacilitatorUrl(requirements.network, policy);
+            const result = await new FacilitatorClient(facilitatorUrl).verify(payment, requirements);
+            if (!result.isValid) {
+                return this.rejectedPayment([{
+                    code: 'facilitator_rejected',
+                    message: result.invalidReason || 'Facilitator rejected the payment'
+                }]);
+            }
+        } catch (error) {
+            console.error('Facilitator verification error:', error);
+            return this.rejectedPayment([{
+                code: 'facilitator_unavailable',
+                message: `Facilitator unavailable: ${error instanceof Error ? error.message : String(error)}`
+            }]);
+        }
+
+        const { authorization } = payment.payload;
+        const asset = networkRegistry.getAsset(requirements.network, requirements.asset);
+        return {
+            isValid: true,
+            amount: this.fromAtomicUnits(authorization.value, asset?.decimals),
+            recipient: authorization.to,
+            timestamp: Date.now(),
+            payer: authorization.from,
+            failures: [],
+            requirements
+        };
+    }
+
+    private checkAgainstRequirements(payment: PaymentPayload, requirements: PaymentRequirements): PaymentFailure[] {
+        const network = networkRegistry.get(requirements.network);
+        if (!network) {
+            return [{ code: 'network_mismatch', message: `Unsupported network: ${requirements.network}` }];
+        }
+
+        const asset = networkRegistry.getAsset(network.id, requirements.asset);
+        if (!asset) {
+            return [{ code: 'asset_mismatch', message: `${requirements.asset} is not an accepted asset on ${network.title}` }];
+        }
+
+        return checkExactPayment(payment, {
+            network: network.id,
+            chainId: network.chainId,
+            asset,
+            payTo: requirements.payTo,
+            minAmount: BigInt(requirements.maxAmountRequired)
+        });
+    }
+
+    private rejectedPayment(failures: PaymentFailure[]): PaymentVerification {
+        return {
+            isValid: false,
+            amount: 0,
+            recipient: '',
+            timestamp: Date.now(),
+            reason: failures.map(failure => failure.message).join('; '),
+            failures
+        };
+    }
+
+    /**
+     * Settle a verified X-PAYMENT header through the facilitator
+     */
+    async settlePayment(
+        header: string,
+        requirements: PaymentRequirements,
+        policy: FacilitatorPolicy
+    ): Promise<PaymentResponse> {
+        try {
+            const payment = this.decodePaymentHeader(header);
+            const facilitatorUrl = networkRegistry.getFacilitatorUrl(requirements.network, policy);
+            const result = await new FacilitatorClient(facilitatorUrl).settle(payment, requirements);
+
+            if (!result.success) {
+                return {
+                    success: false,
+                    error: result.errorReason || 'Payment settlement failed',
+                    facilitatorResponse: result
+                };
+            }
+
             return {
-                isValid: verification.isValid,
-                amount: verification.amount,
-                recipient: verification.recipient,
-                timestamp: verification.timestamp,
-                blockNumber: verification.blockNumber
+                success: true,
+                paymentProof: header,
+                transactionHash: result.transaction,
+                payer: result.payer,
+                facilitatorResponse: result
             };
         } catch (error) {
-            console.error('Payment verification error:', error);
+            console.error('Payment settlement error:', error);
             return {
-                isValid: false,
-                amount: 0,
-                recipient: '',
-                timestamp: Date.now()
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown payment error'
             };
         }
     }
 
     /**
-     * Get price for specific predicate type from policy
+     * Ask the facilitator to return a settled payment to its payer
      */
-    private getPriceForPredicate(predicateType: string, policy: Policy): number {
-        const pricing = policy.pricing;
-        
-        switch (predicateType) {
-            case 'subscription':
-                return pricing?.subscription || 0;
-            case 'delivery':
-                return pricing?.delivery || 0;
-            case 'purchase':
-                return pricing?.purchase || 0;
-            case 'financial':
-                return pricing?.financial || 0;
-            default:
-                return 0;
+    async refundPayment(
+        header: string,
+        requirements: PaymentRequirements,
+        transaction: string,
+        policy: FacilitatorPolicy
+    ): Promise<PaymentResponse> {
+        try {
+            const payment = this.decodePaymentHeader(header);
+            const facilitatorUrl = networkRegistry.getFacilitatorUrl(requirements.network, policy);
+            const result = await new FacilitatorClient(facilitatorUrl).refund(payment, requirements, transaction);
+
+            if (!result.success) {
+                return {
+                    success: false,
+                    error: result.errorReason || 'Refund failed',
+                    facilitatorResponse: result
+                };
+            }
+
+            return {
+                success: true,
+                transactionHash: result.transaction,
+                payer: payment.payload.authorization.from,
+                facilitatorResponse: result
+            };
+        } catch (error) {
+            console.error('Payment refund error:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown refund error'
+            };
         }
     }
 
-    /**
-     * Call x402 facilitator service
-     */
-    private async callFacilitator(paymentRequest: PaymentRequest): Promise<any> {
-        // Simulate facilitator API call
-        // In real implementation, this would make HTTP request to facilitator
-        
-        return new Promise((resolve) => {
-            setTimeout(() => {
-                // Simulate successful payment for demo
-                resolve({
-                    success: true,
-                    paymentProof: `proof_${paymentRequest.requestId}_${Date.now()}`,
-                    transactionHash: `0x${Math.random().toString(16).substr(2, 64)}`,
-                    amount: paymentRequest.price,
-                    recipient: paymentRequest.walletAddress,
-                    timestamp: Date.now()
-                });
-            }, 1000);
-        });
+    toAtomicUnits(price: number, decimals: number = USDC_DECIMALS): string {
+        return String(Math.round(price * 10 ** decimals));
+    }
+
+    fromAtomicUnits(amount: string, decimals: number = USDC_DECIMALS): number {
+        return Number(amount) / 10 ** decimals;
     }
 
     /**
-     * Verify proof on blockchain
+     * Get price for specific predicate type from policy
      */
-    private async verifyProofOnChain(paymentProof: string): Promise<any> {
-        // Simulate on-chain verification
-        // In real implementation, this would call smart contract verifier
-        
-        return new Promise((resolve) => {
-            setTimeout(() => {
-                resolve({
-                    isValid: true,
-                    amount: 0.25, // Simulated amount
-                    recipient: '0x742d35Cc6634C0532925a3b8D', // Simulated recipient
-                    timestamp: Date.now(),
-                    blockNumber: 12345678 // Simulated block number
-                });
-            }, 500);
-        });
+    private getPriceForPredicate(predicateType: string, policy: Policy): number {
+        return predicateRegistry.getPrice(predicateType, policy);
     }
 
     /**
@@ -209,21 +384,4 @@ export class X402PaymentService {
     validateWalletAddress(address: string): boolean {
         return /^0x[a-fA-F0-9]{40}$/.test(address);
     }
-
-    /**
-     * Get network configuration
-     */
-    getNetworkConfig(network: 'polygon' | 'polygon-mumbai') {
-        return {
-            name: network,
-            chainId: network === 'polygon' ? 137 : 80001,
-            rpcUrl: network === 'polygon' 
-                ? 'https://polygon-rpc.com' 
-                : 'https://rpc-mumbai.maticvigil.com',
-            facilitatorUrl: this.FACILITATOR_ENDPOINTS[network],
-            usdcAddress: network === 'polygon' 
-                ? '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174'
-                : '0xe6b8a5CF854791412c1f6EFC7CAf629f5Df1c747'
-        };
-    }
 }
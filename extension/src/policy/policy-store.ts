@@ -0,0 +1,125 @@
+// Policy storage for DataGuard extension
+// Owns the default policy and reads/writes the user policy in chrome.storage
+
+import { NegotiationStrategy, Policy } from '../types/index.js';
+
+// Policies stored before accepted networks replaced the single `network` field
+interface LegacyPolicyFields {
+    network?: string;
+}
+
+// Mumbai was shut down; Amoy is its replacement testnet
+const LEGACY_NETWORKS: Record<string, string> = {
+    'polygon-mumbai': 'polygon-amoy'
+};
+
+const LEGACY_DEFAULT_FACILITATOR = 'https://x402.org/facilitator';
+
+// The pricing the PolicyAgent used before strategies were configurable
+export const DEFAULT_NEGOTIATION_STRATEGY: NegotiationStrategy = {
+    floorPrice: 0,
+    concessionRate: 0.1,
+    requesterPremiums: {
+        'ai-agent': 1.0,
+        'third-party-app': 1.0,
+        'human': 1.0
+    },
+    demandCurve: { step: 0.1, max: 2.0 },
+    peakHours: { start: 9, end: 17, multiplier: 1.0 },
+    privacyPremiums: { body: 0.5, personalInfo: 0.3 },
+    volumeCurve: { step: 0.2, max: 2.0 }
+};
+
+export const DEFAULT_POLICY: Policy = {
+    globalDataSharing: true,
+    allowSubscriptionProof: true,
+    allowDeliveryProof: true,
+    allowPurchaseProof: false,
+    allowFinancialProof: false,
+    redactEmailBodies: true,
+    redactPersonalInfo: true,
+    countDisclosure: 'bucketed',
+    pricing: {
+        subscription: 0.05,
+        delivery: 0.10,
+        purchase: 0.25,
+        financial: 0.50
+    },
+    negotiationStrategy: DEFAULT_NEGOTIATION_STRATEGY,
+    maxEmailAge: 90, // days
+    maxEmailsPerRequest: 10,
+    requestTimeout: 60, // seconds
+    walletAddress: '',
+    facilitatorUrl: '', // each network's own facilitator
+    acceptedNetworks: ['base-sepolia', 'polygon-amoy'],
+    acceptedAssets: ['USDC'],
+    showSenderInfo: false,
+    showSubjectInfo: true,
+    version: '1.0.0'
+};
+
+/**
+ * Get a fresh copy of the default policy
+ */
+export function getDefaultPolicy(): Policy {
+    return {
+        ...DEFAULT_POLICY,
+        pricing: { ...DEFAULT_POLICY.pricing },
+        negotiationStrategy: mergeStrategy(DEFAULT_NEGOTIATION_STRATEGY),
+        acceptedNetworks: [...DEFAULT_POLICY.acceptedNetworks],
+        acceptedAssets: [...DEFAULT_POLICY.acceptedAssets]
+    };
+}
+
+/**
+ * Load the user policy, filling fields missing from older stored versions with defaults
+ */
+export async function getUserPolicy(): Promise<Policy> {
+    const result = await chrome.storage.local.get(['userPolicy']);
+    const { network, ...stored }: Partial<Policy> & LegacyPolicyFields = result.userPolicy || {};
+    const defaults = getDefaultPolicy();
+
+    return {
+        ...defaults,
+        ...stored,
+        pricing: { ...defaults.pricing, ...(stored.pricing || {}) },
+        negotiationStrategy: mergeStrategy(defaults.negotiationStrategy, stored.negotiationStrategy),
+        // Before the network registry a policy named a single network
+        acceptedNetworks: stored.acceptedNetworks
+            || (network ? [LEGACY_NETWORKS[network] || network] : defaults.acceptedNetworks),
+        // The old default pinned every network to one facilitator
+        facilitatorUrl: stored.facilitatorUrl === LEGACY_DEFAULT_FACILITATOR ? '' : (stored.facilitatorUrl ?? '')
+    };
+}
+
+/**
+ * A strategy with every setting, taking those missing from the stored one from the base
+ */
+export function mergeStrategy(base: NegotiationStrategy, stored: Partial<NegotiationStrategy> = {}): NegotiationStrategy {
+    return {
+        ...base,
+        ...stored,
+        requesterPremiums: { ...base.requesterPremiums, ...stored.requesterPremiums },
+        demandCurve: { ...base.demandCurve, ...stored.demandCurve },
+        peakHours: { ...base.peakHours, ...stored.peakHours },
+        privacyPremiums: { ...base.privacyPremiums, ...stored.privacyPremiums },
+        volumeCurve: { ...base.volumeCurve, ...stored.volumeCurve }
+    };
+}
+
+/**
+ * Persist the user policy
+ */
+export async function saveUserPolicy(policy: Policy): Promise<void> {
+    await chrome.storage.local.set({ userPolicy: policy });
+}
+
+/**
+ * Store the default policy on first install
+ */
+export async function ensureUserPolicy(): Promise<void> {
+    const result = await chrome.storage.local.get(['userPolicy']);
+    if (!result.userPolicy) {
+        await saveUserPolicy(getDefaultPolicy());
+    }
+}
@@ -0,0 +1,166 @@
+// Built-in email predicates for DataGuard Extension
+// Matchers classify emails by their mail-demo label, subject and sender
+
+import { EmailData } from '../types/index.js';
+import { PredicateDefinition, PredicateRegistry } from './predicate-registry.js';
+
+const SUBSCRIPTION_KEYWORDS = [
+    'unsubscribe', 'subscription', 'newsletter', 'digest', 'weekly', 'monthly'
+];
+
+const NEWSLETTER_SENDERS = [
+    'newsletter', 'digest', 'weekly', 'monthly', 'updates'
+];
+
+const DELIVERY_KEYWORDS = [
+    'delivered', 'delivery', 'shipped', 'tracking', 'package', 'parcel'
+];
+
+const DELIVERY_SENDERS = [
+    'amazon', 'dhl', 'ups', 'fedex', 'usps', 'flipkart', 'myntra'
+];
+
+const PURCHASE_KEYWORDS = [
+    'order', 'receipt', 'invoice', 'payment', 'purchase', 'billing'
+];
+
+const FINANCIAL_KEYWORDS = [
+    'statement', 'salary', 'payslip', 'pay slip', 'credit card', 'debit card',
+    'transaction alert', 'account balance', 'credited', 'debited'
+];
+
+// Whole words of the sender, so 'chase' does not match purchase@ nor 'citi' a citizen
+const FINANCIAL_SENDERS = [
+    'bank', 'payroll', 'chase', 'citi', 'citibank', 'amex', 'americanexpress',
+    'hdfc', 'hdfcbank', 'icici', 'icicibank', 'sbi', 'onlinesbi', 'hsbc'
+];
+
+// Currency amounts such as $4,250.00, INR 84,312.50 or Rs. 500
+const AMOUNT_PATTERN = /(?:[$€£₹]|\b(?:USD|EUR|GBP|INR|Rs\.?))\s?\d[\d,]*(?:\.\d+)?/gi;
+
+// Masked or full account/card numbers such as XXXX4521, ending 7788 or 4111 1111 1111 1111
+const ACCOUNT_PATTERN = /\b(?:[xX*]{2,}\d{2,}|(?:ending(?: in)?|a\/c|acct\.?|account)\s*(?:no\.?|number|#)?\s*[xX*]*\d{3,}|(?:\d[ -]?){12,19}\d)\b/gi;
+
+function includesAny(text: string, keywords: string[]): boolean {
+    const textLower = text.toLowerCase();
+    return keywords.some(keyword => textLower.includes(keyword));
+}
+
+// Whether any of the names is a whole word of the sender: a display-name word, the mailbox or a domain label
+function sentByAny(sender: string, names: string[]): boolean {
+    const words = sender.toLowerCase().split(/[^a-z0-9]+/);
+    return names.some(name => words.includes(name));
+}
+
+export const subscriptionPredicate: PredicateDefinition = {
+    id: 'subscription',
+    title: 'Subscription Data',
+    description: 'Newsletter subscriptions and unsubscribes',
+    icon: '📧',
+    typicalRange: '$0.10-0.50',
+    defaultMaxAge: 90,
+    defaultPrice: 0.05,
+    policyToggle: 'allowSubscriptionProof',
+    enabledByDefault: true,
+    outputSchema: {
+        existsClaim: 'has_subscription',
+        countClaim: 'count_subscriptions',
+        fields: ['id', 'subject', 'sender', 'date']
+    },
+    matches(email: EmailData): boolean {
+        return email.type === 'subscription' ||
+               includesAny(email.subject, SUBSCRIPTION_KEYWORDS) ||
+               includesAny(email.sender, SUBSCRIPTION_KEYWORDS) ||
+               includesAny(email.sender, NEWSLETTER_SENDERS);
+    }
+};
+
+export const deliveryPredicate: PredicateDefinition = {
+    id: 'delivery',
+    title: 'Delivery Confirmations',
+    description: 'Package deliveries and order confirmations',
+    icon: '📦',
+    typicalRange: '$0.25-1.00',
+    defaultMaxAge: 30,
+    defaultPrice: 0.10,
+    policyToggle: 'allowDeliveryProof',
+    enabledByDefault: true,
+    outputSchema: {
+        existsClaim: 'has_delivery',
+        countClaim: 'count_deliveries',
+        fields: ['id', 'subject', 'sender', 'date']
+    },
+    matches(email: EmailData): boolean {
+        return email.type === 'delivery' ||
+               includesAny(email.subject, DELIVERY_KEYWORDS) ||
+               includesAny(email.sender, DELIVERY_SENDERS);
+    }
+};
+
+export const purchasePredicate: PredicateDefinition = {
+    id: 'purchase',
+    title: 'Purchase Records',
+    description: 'Purchase confirmations and receipts',
+    icon: '🛒',
+    typicalRange: '$0.50-2.00',
+    defaultMaxAge: 30,
+    defaultPrice: 0.25,
+    policyToggle: 'allowPurchaseProof',
+    enabledByDefault: false,
+    outputSchema: {
+        existsClaim: 'has_purchase',
+        countClaim: 'count_purchases',
+        fields: ['id', 'subject', 'sender', 'date']
+    },
+    matches(email: EmailData): boolean {
+        return email.type === 'purchase' ||
+               includesAny(email.subject, PURCHASE_KEYWORDS);
+    }
+};
+
+export function maskFinancialDetails(text: string): string {
+    return text
+        .replace(ACCOUNT_PATTERN, '[ACCOUNT]')
+        .replace(AMOUNT_PATTERN, '[AMOUNT]');
+}
+
+export const financialPredicate: PredicateDefinition = {
+    id: 'financial',
+    title: 'Financial Records',
+    description: 'Bank statements, salary slips and card alerts',
+    icon: '💳',
+    typicalRange: '$0.50-5.00',
+    defaultMaxAge: 90,
+    defaultPrice: 0.50,
+    policyToggle: 'allowFinancialProof',
+    enabledByDefault: false,
+    outputSchema: {
+        existsClaim: 'has_financial_record',
+        countClaim: 'count_financial_records',
+        fields: ['id', 'sender', 'date']
+    },
+    matches(email: EmailData): boolean {
+        return email.type === 'financial' ||
+               includesAny(email.subject, FINANCIAL_KEYWORDS) ||
+               sentByAny(email.sender, FINANCIAL_SENDERS);
+    },
+    // Amounts and account numbers never leave the extension, whatever the policy
+    redact(email: EmailData): EmailData {
+        return {
+            ...email,
+            subject: maskFinancialDetails(email.subject),
+            body: maskFinancialDetails(email.body)
+        };
+    }
+};
+
+export const builtinPredicates: PredicateDefinition[] = [
+    subscriptionPredicate,
+    deliveryPredicate,
+    purchasePredicate,
+    financialPredicate
+];
+
+export function registerBuiltinPredicates(registry: PredicateRegistry): void {
+    builtinPredicates.forEach(definition => registry.register(definition));
+}
@@ -0,0 +1,9 @@
+// Shared predicate registry with the built-in predicates registered
+
+import { PredicateRegistry } from './predicate-registry.js';
+import { registerBuiltinPredicates } from './builtin-predicates.js';
+
+export const predicateRegistry = new PredicateRegistry();
+registerBuiltinPredicates(predicateRegistry);
+
+export * from './predicate-registry.js';
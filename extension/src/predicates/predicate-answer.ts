@@ -0,0 +1,74 @@
+// Predicate answers for DataGuard Extension
+// Reduces matched emails to a boolean/count claim so no email leaves the extension
+
+import { CountDisclosure, EmailData, EmailPredicate, PredicateAnswer } from '../types/index.js';
+
+// Ordered from most to least revealing
+const DISCLOSURE_LEVELS: CountDisclosure[] = ['exact', 'bucketed', 'boolean'];
+
+// Upper bounds of the count buckets; the last bucket is open-ended
+const COUNT_BUCKETS = [0, 4, 9, 19];
+
+/**
+ * Pick the stricter of the requested and policy disclosure levels
+ */
+export function resolveDisclosure(
+    requested: CountDisclosure | undefined,
+    allowed: CountDisclosure
+): CountDisclosure {
+    if (!requested) return allowed;
+
+    return DISCLOSURE_LEVELS.indexOf(requested) > DISCLOSURE_LEVELS.indexOf(allowed)
+        ? requested
+        : allowed;
+}
+
+/**
+ * Map a count to its bucket label, e.g. 7 -> '5-9'
+ */
+export function bucketCount(count: number): string {
+    let lower = 0;
+
+    for (const upper of COUNT_BUCKETS) {
+        if (count <= upper) {
+            return lower === upper ? `${upper}` : `${lower}-${upper}`;
+        }
+        lower = upper + 1;
+    }
+
+    return `${lower}+`;
+}
+
+/**
+ * Compute the answer for emails already filtered by the predicate
+ */
+export function computePredicateAnswer(
+    matchedEmails: EmailData[],
+    predicate: EmailPredicate,
+    disclosure: CountDisclosure,
+    now: Date = new Date()
+): PredicateAnswer {
+    const count = matchedEmails.length;
+    const minCount = Math.max(predicate.minCount ?? 1, 1);
+    const from = new Date(now.getTime() - predicate.maxAge * 24 * 60 * 60 * 1000);
+
+    const answer: PredicateAnswer = {
+        predicate: predicate.type,
+        satisfied: count >= minCount,
+        minCount,
+        disclosure,
+        window: {
+            from: from.toISOString(),
+            to: now.toISOString(),
+            days: predicate.maxAge
+        }
+    };
+
+    if (disclosure === 'exact') {
+        answer.count = count;
+    } else if (disclosure === 'bucketed') {
+        answer.countBucket = bucketCount(count);
+    }
+
+    return answer;
+}
@@ -0,0 +1,105 @@
+// Predicate Registry for DataGuard Extension
+// Single place where email predicates are declared and looked up
+
+import { EmailData, Policy, PredicateId, PredicateToggle } from '../types/index.js';
+
+export interface PredicateOutputSchema {
+    existsClaim: string; // boolean claim, e.g. has_delivery
+    countClaim: string; // count claim, e.g. count_deliveries
+    fields: (keyof EmailData)[]; // email fields that may be disclosed
+}
+
+export interface PredicateDefinition {
+    id: PredicateId;
+    title: string;
+    description: string;
+    icon: string;
+    typicalRange: string;
+    defaultMaxAge: number; // days
+    defaultPrice: number; // USDC
+    policyToggle: PredicateToggle;
+    enabledByDefault: boolean;
+    outputSchema: PredicateOutputSchema;
+    matches(email: EmailData): boolean;
+    redact?(email: EmailData): EmailData; // applied on top of policy redaction
+}
+
+// Serializable view of a predicate, safe to hand to pages and the popup
+export interface PredicateDescriptor {
+    id: PredicateId;
+    title: string;
+    description: string;
+    icon: string;
+    typicalRange: string;
+    defaultMaxAge: number;
+    defaultPrice: number;
+    policyToggle: PredicateToggle;
+    outputSchema: PredicateOutputSchema;
+}
+
+export class PredicateRegistry {
+    private predicates: Map<PredicateId, PredicateDefinition> = new Map();
+
+    /**
+     * Register a predicate definition
+     */
+    register(definition: PredicateDefinition): void {
+        if (this.predicates.has(definition.id)) {
+            throw new Error(`Predicate already registered: ${definition.id}`);
+        }
+
+        this.predicates.set(definition.id, definition);
+    }
+
+    get(id: PredicateId): PredicateDefinition | undefined {
+        return this.predicates.get(id);
+    }
+
+    has(id: PredicateId): boolean {
+        return this.predicates.has(id);
+    }
+
+    list(): PredicateDefinition[] {
+        return Array.from(this.predicates.values());
+    }
+
+    /**
+     * Check if predicate is registered and enabled by policy
+     */
+    isAllowed(id: PredicateId, policy: Policy): boolean {
+        const definition = this.predicates.get(id);
+        if (!definition) return false;
+
+        return policy[definition.policyToggle] ?? definition.enabledByDefault;
+    }
+
+    /**
+     * Get the policy price for a predicate, falling back to its default price
+     */
+    getPrice(id: PredicateId, policy: Policy): number {
+        const definition = this.predicates.get(id);
+        if (!definition) return 0;
+
+        return policy.pricing?.[id] || definition.defaultPrice;
+    }
+
+    /**
+     * Check if an email satisfies the predicate
+     */
+    matches(id: PredicateId, email: EmailData): boolean {
+        const definition = this.predicates.get(id);
+        return definition ? definition.matches(email) : false;
+    }
+
+    /**
+     * Apply the predicate's own redaction, if it declares one
+     */
+    redact(id: PredicateId, email: EmailData): EmailData {
+        const definition = this.predicates.get(id);
+        return definition?.redact ? definition.redact(email) : email;
+    }
+
+    describe(): PredicateDescriptor[] {
+        return this.list().map(({ matches, redact, enabledByDefault, ...descriptor }) => descriptor);
+    }
+}
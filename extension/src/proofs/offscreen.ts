@@ -0,0 +1,56 @@
+// Offscreen document script for DataGuard extension
+// Runs snarkjs Groth16 proving on behalf of the background service worker
+
+// Global from snarkjs.min.js, loaded by offscreen.html
+declare const snarkjs: {
+    groth16: {
+        fullProve(
+            input: unknown,
+            wasmFile: string,
+            zkeyFile: string,
+            logger?: unknown,
+            wtnsCalcOptions?: unknown,
+            proverOptions?: { singleThread?: boolean }
+        ): Promise<{ proof: unknown; publicSignals: string[] }>;
+    };
+};
+
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    // Other extension pages also see runtime messages; only handle our own
+    if (message.target !== 'offscreen') return;
+
+    switch (message.type) {
+        case 'OFFSCREEN_GENERATE_PROOF':
+            generateProof(message.data, sendResponse);
+            return true;
+
+        default:
+            console.warn('Unknown offscreen message type:', message.type);
+            sendResponse({ success: false, error: 'Unknown message type' });
+    }
+});
+
+async function generateProof(
+    request: { input: unknown; wasmUrl: string; zkeyUrl: string },
+    sendResponse: (response: any) => void
+) {
+    try {
+        // Extension CSP does not allow snarkjs' blob: workers, so prove on this thread
+        const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+            request.input,
+            request.wasmUrl,
+            request.zkeyUrl,
+            undefined,
+            undefined,
+            { singleThread: true }
+        );
+
+        sendResponse({ success: true, proof, publicSignals });
+    } catch (error) {
+        console.error('Proof generation failed:', error);
+        sendResponse({
+            success: false,
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+}
@@ -0,0 +1,121 @@
+// Proof inputs for DataGuard Extension
+// Maps emails and predicates onto the field elements of the count circuit
+
+import { EmailData, EmailPredicate, RequestBinding } from '../types/index.js';
+
+export const COUNT_CIRCUIT = {
+    name: 'count_in_window',
+    slots: 32, // must match CountInWindow(N) in circuits/count_in_window.circom
+    wasmPath: 'zk/count_in_window.wasm',
+    zkeyPath: 'zk/count_in_window.zkey',
+    verificationKeyPath: 'zk/count_in_window_vkey.json'
+};
+
+// Order of publicSignals produced by snarkjs: outputs first, then public inputs
+export const COUNT_PUBLIC_SIGNALS = ['commitment', 'predicateId', 'threshold', 'windowStart', 'windowEnd', 'challenge'] as const;
+
+export interface CountCircuitInput {
+    emailHash: string[];
+    timestamp: string[];
+    matched: string[];
+    predicateId: string;
+    threshold: string;
+    windowStart: string;
+    windowEnd: string;
+    challenge: string;
+}
+
+// Field derivations below must stay identical to the ones in @dataguard/verifier
+
+/**
+ * Hash a string into the BN254 scalar field (SHA-256 truncated to 248 bits)
+ */
+export async function hashToField(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    const hex = Array.from(new Uint8Array(digest).slice(0, 31))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+
+    return BigInt('0x' + hex).toString();
+}
+
+/**
+ * Field element identifying a registered predicate in public signals
+ */
+export function predicateFieldId(predicateId: string): Promise<string> {
+    return hashToField(`dataguard:predicate:${predicateId}`);
+}
+
+/**
+ * Field element binding a proof to the requester's nonce, audience and expiry
+ */
+export function challengeField(binding: RequestBinding): Promise<string> {
+    return hashToField(`dataguard:challenge:${binding.nonce}|${binding.audience}|${binding.expiresAt}`);
+}
+
+function toUnixSeconds(date: Date | string): number {
+    return Math.floor(new Date(date).getTime() / 1000);
+}
+
+/**
+ * Build the witness input for "at least minCount matching emails in the window".
+ * The snapshot is the newest emails inside the window, up to the circuit's slot count.
+ */
+export async function buildCountCircuitInput(
+    emails: EmailData[],
+    predicate: EmailPredicate,
+    matches: (email: EmailData) => boolean,
+    binding: RequestBinding,
+    now: Date = new Date()
+): Promise<CountCircuitInput> {
+    const windowEnd = toUnixSeconds(now);
+    const windowStart = windowEnd - predicate.maxAge * 24 * 60 * 60;
+
+    const snapshot = emails
+        .filter(email => {
+            const timestamp = toUnixSeconds(email.date);
+            return timestamp >= windowStart && timestamp <= windowEnd;
+        })
+        .sort((a, b) => toUnixSeconds(b.date) - toUnixSeconds(a.date))
+        .slice(0, COUNT_CIRCUIT.slots);
+
+    const input: CountCircuitInput = {
+        emailHash: [],
+        timestamp: [],
+        matched: [],
+        predicateId: await predicateFieldId(predicate.type),
+        threshold: String(Math.max(predicate.minCount ?? 1, 1)),
+        windowStart: String(windowStart),
+        windowEnd: String(windowEnd),
+        challenge: await challengeField(binding)
+    };
+
+    for (let i = 0; i < COUNT_CIRCUIT.slots; i++) {
+        const email = snapshot[i];
+        if (email) {
+            input.emailHash.push(await hashToField(`${email.id}|${email.sender}|${email.subject}|${email.date}`));
+            input.timestamp.push(String(toUnixSeconds(email.date)));
+            input.matched.push(matches(email) ? '1' : '0');
+        } else {
+            // Unused slots are all zero
+            input.emailHash.push('0');
+            input.timestamp.push('0');
+            input.matched.push('0');
+        }
+    }
+
+    return input;
+}
+
+/**
+ * Number of emails the circuit will count for this input
+ */
+export function countMatchesInWindow(input: CountCircuitInput): number {
+    const start = BigInt(input.windowStart);
+    const end = BigInt(input.windowEnd);
+
+    return input.matched.filter((matched, i) => {
+        const timestamp = BigInt(input.timestamp[i]);
+        return matched === '1' && timestamp >= start && timestamp <= end;
+    }).length;
+}
@@ -0,0 +1,95 @@
+// Proof Service for DataGuard Extension
+// Prepares count-predicate witnesses and proves them in the offscreen document
+
+import { CountProof, EmailData, EmailPredicate, Groth16Proof, RequestBinding } from '../types/index.js';
+import { predicateRegistry } from '../predicates/index.js';
+import { COUNT_CIRCUIT, buildCountCircuitInput, countMatchesInWindow } from './proof-inputs.js';
+
+const OFFSCREEN_DOCUMENT_PATH = 'offscreen.html';
+
+export class ProofService {
+    private creatingOffscreen: Promise<void> | null = null;
+
+    /**
+     * Prove that at least predicate.minCount (default 1) matching emails fall in the window,
+     * bound to the requester's nonce, audience and expiry
+     */
+    async generateCountProof(emails: EmailData[], predicate: EmailPredicate, binding: RequestBinding): Promise<CountProof> {
+        if (!predicateRegistry.has(predicate.type)) {
+            throw new Error(`Unknown predicate type: ${predicate.type}`);
+        }
+
+        const now = new Date();
+        const input = await buildCountCircuitInput(
+            emails,
+            predicate,
+            email => predicateRegistry.matches(predicate.type, email),
+            binding,
+            now
+        );
+
+        // A false statement has no valid witness, so fail before spending time proving
+        const threshold = parseInt(input.threshold, 10);
+        const count = countMatchesInWindow(input);
+        if (count < threshold) {
+            throw new Error(`Predicate not satisfied: fewer than ${threshold} matching emails in the last ${predicate.maxAge} days`);
+        }
+
+        const { proof, publicSignals } = await this.proveInOffscreen(input);
+
+        return {
+            circuit: COUNT_CIRCUIT.name,
+            predicate,
+            threshold,
+            window: {
+                from: new Date(parseInt(input.windowStart, 10) * 1000).toISOString(),
+                to: new Date(parseInt(input.windowEnd, 10) * 1000).toISOString(),
+                days: predicate.maxAge
+            },
+            commitment: publicSignals[0],
+            binding,
+            proof,
+            publicSignals,
+            timestamp: now.toISOString()
+        };
+    }
+
+    private async proveInOffscreen(input: unknown): Promise<{ proof: Groth16Proof; publicSignals: string[] }> {
+        await this.ensureOffscreenDocument();
+
+        const response = await chrome.runtime.sendMessage({
+            target: 'offscreen',
+            type: 'OFFSCREEN_GENERATE_PROOF',
+            data: {
+                input,
+                wasmUrl: chrome.runtime.getURL(COUNT_CIRCUIT.wasmPath),
+                zkeyUrl: chrome.runtime.getURL(COUNT_CIRCUIT.zkeyPath)
+            }
+        });
+
+        if (!response?.success) {
+            throw new Error(response?.error || 'Proof generation failed');
+        }
+
+        return { proof: response.proof, publicSignals: response.publicSignals };
+    }
+
+    /**
+     * snarkjs needs wasm and a DOM-capable context, which the service worker lacks
+     */
+    private async ensureOffscreenDocument(): Promise<void> {
+        if (await chrome.offscreen.hasDocument()) return;
+
+        if (!this.creatingOffscreen) {
+            this.creatingOffscreen = chrome.offscreen.createDocument({
+                url: OFFSCREEN_DOCUMENT_PATH,
+                reasons: [chrome.offscreen.Reason.WORKERS],
+                justification: 'Generate zero-knowledge proofs with snarkjs'
+            }).finally(() => {
+                this.creatingOffscreen = null;
+            });
+        }
+
+        await this.creatingOffscreen;
+    }
+}
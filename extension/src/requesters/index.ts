@@ -0,0 +1,8 @@
+// Shared requester registry backed by chrome.storage
+
+import { RequesterRegistry } from './requester-registry.js';
+
+export const requesterRegistry = new RequesterRegistry();
+
+export * from './requester-registry.js';
+export * from './requester-manifest.js';
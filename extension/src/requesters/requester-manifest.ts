@@ -0,0 +1,108 @@
+// Requester manifests for DataGuard Extension
+// Fetches and verifies the signed manifests requesters publish to prove which origins they call from
+
+import { RequesterManifest } from '../types/index.js';
+import { canonicalJson } from '../attestations/attestation-service.js';
+
+const VERIFY_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+const KEY_ALGORITHM: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+
+// Where each origin a manifest lists, other than the one serving it, confirms it uses the manifest's key
+export const ORIGIN_CONFIRMATION_PATH = '/.well-known/dataguard.json';
+
+/**
+ * Normalize a URL or origin string to its origin, rejecting anything but http(s)
+ */
+export function toOrigin(value: string): string {
+    const url = new URL(value);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        throw new Error(`Not a web origin: ${value}`);
+    }
+    return url.origin;
+}
+
+export async function fetchRequesterManifest(url: string): Promise<RequesterManifest> {
+    const response = await fetch(url, { credentials: 'omit', cache: 'no-store' });
+    if (!response.ok) {
+        throw new Error(`Manifest request failed: HTTP ${response.status}`);
+    }
+
+    return response.json();
+}
+
+/**
+ * Check a manifest's shape, that it was served from one of the origins it lists, its signature, and that every
+ * other origin it lists confirms the same id and key. With a pinned key the manifest must also be signed by that key.
+ */
+export async function verifyRequesterManifest(
+    manifest: RequesterManifest,
+    manifestUrl: string,
+    pinnedKey?: JsonWebKey
+): Promise<void> {
+    if (typeof manifest?.id !== 'string' || !manifest.id || typeof manifest.name !== 'string' || !manifest.name) {
+        throw new Error('Manifest needs an id and a name');
+    }
+    if (!Array.isArray(manifest.origins) || manifest.origins.length === 0) {
+        throw new Error('Manifest lists no origins');
+    }
+    if (manifest.origins.some(origin => typeof origin !== 'string' || toOrigin(origin) !== origin)) {
+        throw new Error('Manifest origins must be bare origins such as https://example.com');
+    }
+
+    // Serving the manifest shows control of that origin only; the key and signature come from the manifest itself
+    const servedFrom = toOrigin(manifestUrl);
+    if (!manifest.origins.includes(servedFrom)) {
+        throw new Error(`Manifest was served from ${servedFrom}, which it does not list`);
+    }
+
+    const { kty, crv, x, y } = manifest.publicKey || {};
+    if (kty !== 'EC' || crv !== 'P-256' || !x || !y) {
+        throw new Error('Manifest key must be an ES256 (P-256) public key');
+    }
+    if (pinnedKey && (pinnedKey.x !== x || pinnedKey.y !== y)) {
+        throw new Error('Manifest is signed with a different key than the one pinned for this requester');
+    }
+
+    const { signature, ...signed } = manifest;
+    const key = await crypto.subtle.importKey('jwk', { kty, crv, x, y }, KEY_ALGORITHM, false, ['verify']);
+    const valid = await crypto.subtle.verify(
+        VERIFY_ALGORITHM,
+        key,
+        fromBase64url(signature || ''),
+        new TextEncoder().encode(canonicalJson(signed))
+    );
+    if (!valid) {
+        throw new Error('Manifest signature is invalid');
+    }
+
+    for (const origin of manifest.origins.filter(origin => origin !== servedFrom)) {
+        await confirmOrigin(origin, manifest);
+    }
+}
+
+/**
+ * An origin shows it belongs to the requester by serving the requester's id and key itself
+ */
+async function confirmOrigin(origin: string, manifest: RequesterManifest): Promise<void> {
+    let confirmation: Partial<RequesterManifest>;
+    try {
+        confirmation = await fetchRequesterManifest(origin + ORIGIN_CONFIRMATION_PATH);
+    } catch (error) {
+        throw new Error(`${origin} does not confirm this manifest: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (confirmation?.id !== manifest.id ||
+        confirmation.publicKey?.x !== manifest.publicKey.x ||
+        confirmation.publicKey?.y !== manifest.publicKey.y) {
+        throw new Error(`${origin} does not confirm this manifest: its ${ORIGIN_CONFIRMATION_PATH} names another id or key`);
+    }
+}
+
+function fromBase64url(value: string): ArrayBuffer {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+    try {
+        return Uint8Array.from(atob(base64), char => char.charCodeAt(0)).buffer;
+    } catch {
+        throw new Error('Manifest signature is not base64url');
+    }
+}
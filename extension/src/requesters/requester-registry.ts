@@ -0,0 +1,318 @@
+// Requester Registry for DataGuard Extension
+// Known requesters with their verified origins, trust level, per-predicate rules and rate limits
+
+import {
+    DataGuardError,
+    Policy,
+    PredicateId,
+    RequesterIdentity,
+    RequesterPredicateRule,
+    RequesterProfile,
+    RequesterRateLimit,
+    RequesterTrustLevel,
+    RequesterType
+} from '../types/index.js';
+import { predicateRegistry } from '../predicates/index.js';
+import { fetchRequesterManifest, toOrigin, verifyRequesterManifest } from './requester-manifest.js';
+import { dataGuardError } from '../errors/dataguard-error.js';
+
+const STORAGE_KEY = 'requesters';
+const REQUEST_LOG_KEY = 'requesterRequests'; // chrome.storage.session, so counts survive worker restarts
+
+// Fields the popup may edit; origins and keys only change through verification
+export interface RequesterChanges extends Partial<Pick<RequesterProfile, 'name' | 'trustLevel' | 'requesterType' | 'predicates'>> {
+    rateLimit?: RequesterRateLimit | null; // null removes the limit
+}
+
+const TRUST_LEVELS: RequesterTrustLevel[] = ['blocked', 'restricted', 'standard'];
+const REQUESTER_TYPES: RequesterType[] = ['ai-agent', 'third-party-app', 'human'];
+
+export class RequesterRegistry {
+    private profiles: Promise<Map<string, RequesterProfile>> | null = null;
+    private requestLog: Promise<Record<string, number[]>> | null = null;
+
+    async list(): Promise<RequesterProfile[]> {
+        return Array.from((await this.load()).values());
+    }
+
+    async get(id: string): Promise<RequesterProfile | undefined> {
+        return (await this.load()).get(id);
+    }
+
+    /**
+     * Identify the requester behind a browser-reported origin. Its type, which prices its requests, is the one the
+     * user set; unregistered origins and new registrations are apps, since a page's own claim would be self-serving.
+     */
+    async resolve(origin: string): Promise<RequesterIdentity> {
+        const profile = (await this.list()).find(candidate => candidate.origins.includes(origin));
+
+        return {
+            id: profile?.id ?? origin,
+            name: profile?.name ?? originName(origin),
+            origin,
+            requesterType: profile?.requesterType ?? 'third-party-app',
+            profile
+        };
+    }
+
+    /**
+     * Register a requester by a single origin, which the browser vouches for on every request
+     */
+    async addByOrigin(value: string, name?: string): Promise<RequesterProfile> {
+        const origin = toOrigin(value);
+        await this.assertOriginsFree([origin]);
+
+        const now = new Date().toISOString();
+        return this.store({
+            id: origin,
+            name: name || new URL(origin).hostname,
+            requesterType: 'third-party-app',
+            origins: [origin],
+            verification: 'origin',
+            trustLevel: 'standard',
+            predicates: {},
+            addedAt: now,
+            updatedAt: now
+        });
+    }
+
+    /**
+     * Register a requester from its signed manifest, pinning the signing key.
+     * Adding the same manifest again refreshes its name and origins if it is still signed by the pinned key;
+     * the user's settings for the requester are kept. The requester type is the user's to set, not the manifest's.
+     */
+    async addFromManifest(manifestUrl: string): Promise<RequesterProfile> {
+        const manifest = await fetchRequesterManifest(manifestUrl);
+        const existing = await this.get(manifest?.id);
+        if (existing && !existing.publicKey) {
+            throw new Error(`${existing.name} is already registered under ${existing.id} without a manifest key`);
+        }
+        await verifyRequesterManifest(manifest, manifestUrl, existing?.publicKey);
+        await this.assertOriginsFree(manifest.origins, manifest.id);
+
+        const now = new Date().toISOString();
+        return this.store({
+            trustLevel: existing?.trustLevel ?? 'standard',
+            predicates: existing?.predicates ?? {},
+            ...(existing?.rateLimit ? { rateLimit: existing.rateLimit } : {}),
+            addedAt: existing?.addedAt ?? now,
+            id: manifest.id,
+            name: manifest.name,
+            requesterType: existing?.requesterType ?? 'third-party-app',
+            origins: manifest.origins,
+            verification: 'manifest',
+            manifestUrl,
+            publicKey: manifest.publicKey,
+            updatedAt: now
+        });
+    }
+
+    async update(id: string, changes: RequesterChanges): Promise<RequesterProfile> {
+        const existing = await this.get(id);
+        if (!existing) {
+            throw new Error(`Unknown requester: ${id}`);
+        }
+
+        const { rateLimit, ...validated } = validateChanges(changes);
+        const updated: RequesterProfile = { ...existing, ...validated, updatedAt: new Date().toISOString() };
+        if (rateLimit === null) {
+            delete updated.rateLimit;
+        } else if (rateLimit) {
+            updated.rateLimit = rateLimit;
+        }
+
+        return this.store(updated);
+    }
+
+    async remove(id: string): Promise<void> {
+        const profiles = await this.load();
+        profiles.delete(id);
+        await this.persist(profiles);
+    }
+
+    /**
+     * Why a requester may not have a predicate, or undefined if it may.
+     * A deny rule always wins; an allow rule opens a predicate the policy leaves off.
+     */
+    denial(requester: RequesterIdentity | undefined, predicateId: PredicateId, policy: Policy): DataGuardError | undefined {
+        if (!predicateRegistry.has(predicateId)) {
+            return dataGuardError('denied_by_policy', 'unknown_predicate', `Unknown predicate: ${predicateId}`);
+        }
+
+        const profile = requester?.profile;
+        if (profile?.trustLevel === 'blocked') {
+            return dataGuardError('denied_by_policy', 'requester_blocked', `${profile.name} is blocked`);
+        }
+
+        const access = profile?.predicates[predicateId]?.access;
+        if (access === 'deny') {
+            return dataGuardError('denied_by_policy', 'predicate_denied_for_requester', `${profile!.name} may not request ${predicateId} data`);
+        }
+        if (access === 'allow') {
+            return undefined;
+        }
+        if (profile?.trustLevel === 'restricted') {
+            return dataGuardError('denied_by_policy', 'requester_restricted', `${profile.name} may only request predicates allowed for it`);
+        }
+
+        return predicateRegistry.isAllowed(predicateId, policy)
+            ? undefined
+            : dataGuardError('denied_by_policy', 'predicate_disabled', `Access to ${predicateId} data is disabled`);
+    }
+
+    /**
+     * The requester's price override, falling back to the policy price
+     */
+    getPrice(requester: RequesterIdentity | undefined, predicateId: PredicateId, policy: Policy): number {
+        return requester?.profile?.predicates[predicateId]?.price ?? predicateRegistry.getPrice(predicateId, policy);
+    }
+
+    /**
+     * A rate_limited error saying when to retry, or undefined if the requester may make another request
+     */
+    async checkRateLimit(requester: RequesterIdentity | undefined, now: number = Date.now()): Promise<DataGuardError | undefined> {
+        const limit = requester?.profile?.rateLimit;
+        if (!requester || !limit) return undefined;
+
+        const recent = this.recentRequests(await this.loadRequestLog(), requester.id, limit, now);
+        if (recent.length >= limit.maxRequests) {
+            const retryIn = Math.ceil((recent[0] + limit.windowSeconds * 1000 - now) / 1000);
+            return dataGuardError(
+                'rate_limited',
+                'requester_rate_limit',
+                `${requester.name} is limited to ${limit.maxRequests} requests per ${limit.windowSeconds}s; retry in ${retryIn}s`,
+                retryIn
+            );
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Count a request against the requester's rate limit
+     */
+    async recordRequest(requester: RequesterIdentity | undefined, now: number = Date.now()): Promise<void> {
+        const limit = requester?.profile?.rateLimit;
+        if (!requester || !limit) return;
+
+        const log = await this.loadRequestLog();
+        log[requester.id] = [...this.recentRequests(log, requester.id, limit, now), now];
+        await chrome.storage.session.set({ [REQUEST_LOG_KEY]: log });
+    }
+
+    private recentRequests(log: Record<string, number[]>, id: string, limit: RequesterRateLimit, now: number): number[] {
+        return (log[id] || []).filter(at => at > now - limit.windowSeconds * 1000);
+    }
+
+    /**
+     * An origin identifies at most one requester
+     */
+    private async assertOriginsFree(origins: string[], exceptId?: string): Promise<void> {
+        for (const profile of await this.list()) {
+            const taken = origins.find(origin => profile.id !== exceptId && profile.origins.includes(origin));
+            if (taken) {
+                throw new Error(`${taken} already belongs to ${profile.name}`);
+            }
+        }
+    }
+
+    private async store(profile: RequesterProfile): Promise<RequesterProfile> {
+        const profiles = await this.load();
+        profiles.set(profile.id, profile);
+        await this.persist(profiles);
+        return profile;
+    }
+
+    private async persist(profiles: Map<string, RequesterProfile>): Promise<void> {
+        await chrome.storage.local.set({ [STORAGE_KEY]: Array.from(profiles.values()) });
+    }
+
+    private load(): Promise<Map<string, RequesterProfile>> {
+        if (!this.profiles) {
+            this.profiles = chrome.storage.local.get([STORAGE_KEY]).then(result => {
+                const stored: RequesterProfile[] = result[STORAGE_KEY] || [];
+                return new Map(stored.map(profile => [profile.id, profile]));
+            }).catch(error => {
+                this.profiles = null;
+                throw error;
+            });
+        }
+        return this.profiles;
+    }
+
+    private loadRequestLog(): Promise<Record<string, number[]>> {
+        if (!this.requestLog) {
+            this.requestLog = chrome.storage.session.get([REQUEST_LOG_KEY])
+                .then(result => result[REQUEST_LOG_KEY] || {})
+                .catch(error => {
+                    this.requestLog = null;
+                    throw error;
+                });
+        }
+        return this.requestLog;
+    }
+}
+
+/**
+ * Host name for display; opaque origins such as file:// pages report 'null'
+ */
+function originName(origin: string): string {
+    try {
+        return new URL(origin).hostname || origin;
+    } catch {
+        return origin;
+    }
+}
+
+function validateChanges(changes: RequesterChanges): RequesterChanges {
+    const validated: RequesterChanges = {};
+
+    if (changes.name !== undefined) {
+        if (!changes.name.trim()) throw new Error('Requester name cannot be empty');
+        validated.name = changes.name.trim();
+    }
+
+    if (changes.trustLevel !== undefined) {
+        if (!TRUST_LEVELS.includes(changes.trustLevel)) throw new Error(`Unknown trust level: ${changes.trustLevel}`);
+        validated.trustLevel = changes.trustLevel;
+    }
+
+    if (changes.requesterType !== undefined) {
+        if (!REQUESTER_TYPES.includes(changes.requesterType)) throw new Error(`Unknown requester type: ${changes.requesterType}`);
+        validated.requesterType = changes.requesterType;
+    }
+
+    if (changes.predicates !== undefined) {
+        validated.predicates = {};
+        for (const [predicateId, rule] of Object.entries(changes.predicates)) {
+            if (!predicateRegistry.has(predicateId)) throw new Error(`Unknown predicate: ${predicateId}`);
+            validated.predicates[predicateId] = validateRule(predicateId, rule);
+        }
+    }
+
+    if (changes.rateLimit === null) {
+        validated.rateLimit = null;
+    } else if (changes.rateLimit !== undefined) {
+        const { maxRequests, windowSeconds } = changes.rateLimit;
+        if (!(maxRequests >= 1) || !(windowSeconds >= 1)) {
+            throw new Error('Rate limit needs at least 1 request per window of at least 1 second');
+        }
+        validated.rateLimit = { maxRequests: Math.floor(maxRequests), windowSeconds: Math.floor(windowSeconds) };
+    }
+
+    return validated;
+}
+
+function validateRule(predicateId: PredicateId, rule: RequesterPredicateRule): RequesterPredicateRule {
+    if (rule.access !== undefined && rule.access !== 'allow' && rule.access !== 'deny') {
+        throw new Error(`Unknown access rule for ${predicateId}: ${rule.access}`);
+    }
+    if (rule.price !== undefined && !(rule.price >= 0 && rule.price <= 100)) {
+        throw new Error(`${predicateId} price must be between $0 and $100`);
+    }
+
+    return {
+        ...(rule.access ? { access: rule.access } : {}),
+        ...(rule.price !== undefined ? { price: rule.price } : {})
+    };
+}
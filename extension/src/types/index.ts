@@ -1,19 +1,170 @@
 // Type definitions for DataGuard extension
 
+// Identifier of a predicate registered in the PredicateRegistry (e.g. 'delivery')
+export type PredicateId = string;
+
+// x402 name of a network registered in the NetworkRegistry (e.g. 'base-sepolia')
+export type NetworkId = string;
+
+// Policy flag that enables a predicate (e.g. 'allowDeliveryProof')
+export type PredicateToggle = `allow${string}Proof`;
+
 export interface EmailData {
   id: string;
   subject: string;
   sender: string;
   date: string;
   body: string;
-  type: 'subscription' | 'delivery' | 'purchase' | 'general';
+  type: 'subscription' | 'delivery' | 'purchase' | 'financial' | 'general';
 }
 
 export interface EmailPredicate {
-  type: 'subscription' | 'delivery' | 'purchase';
+  type: PredicateId;
   maxAge: number; // days
   minCount?: number;
   keywords?: string[];
+  disclosure?: CountDisclosure; // requested count disclosure, capped by policy
+}
+
+// How much of a match count may leave the extension in answer mode
+export type CountDisclosure = 'exact' | 'bucketed' | 'boolean';
+
+// Aggregate answer computed locally instead of returning emails
+export interface PredicateAnswer {
+  predicate: PredicateId;
+  satisfied: boolean; // count >= minCount (default 1)
+  minCount: number;
+  count?: number; // only with exact disclosure
+  countBucket?: string; // only with bucketed disclosure, e.g. '5-9'
+  disclosure: CountDisclosure;
+  window: {
+    from: string;
+    to: string;
+    days: number;
+  };
+  binding?: RequestBinding;
+  attestation?: string; // compact JWS over this answer
+}
+
+// What an approved request will release, shown in the approval dialog before anything leaves
+export interface DataPreview {
+  mode: 'emails' | 'answer';
+  predicate: EmailPredicate; // as it will run, with the window capped by policy
+  emailCount?: number; // emails mode
+  fields?: (keyof EmailData)[]; // emails mode: fields carrying real values
+  redactedFields?: (keyof EmailData)[]; // emails mode: fields redacted in every row
+  samples?: EmailData[]; // emails mode: first rows exactly as they will leave
+  answer?: PredicateAnswer; // answer mode
+}
+
+// Narrower scope the user may approve instead of the request as made
+export interface ApprovalScope {
+  maxEmails?: number;
+  maxAge?: number; // days
+  booleanOnly?: boolean; // answer with satisfied/not satisfied only
+}
+
+// A data request waiting on the user in the approval window
+export interface ApprovalRequest {
+  id: string;
+  origin: string; // browser-reported origin of the requesting page
+  requester: { id: string; name: string; registered: boolean };
+  predicate: EmailPredicate;
+  mode: 'emails' | 'answer';
+  purpose: string; // as the page stated it
+  terms: { price: number; conditions: string[] }; // price in USDC, 0 when free
+  expiresAt: string; // denied if still unanswered
+}
+
+// The user's answer in the approval window
+export interface ApprovalDecision {
+  approved: boolean;
+  remember?: ConsentDuration; // unset asks again next time
+  allPredicates?: boolean; // the decision covers every predicate, not just this one
+  scope?: ApprovalScope;
+  timedOut?: boolean; // set by DataGuard when nobody answered in time, never by the approval window
+}
+
+// A verified X-PAYMENT, settled by the release it pays for
+export interface ApprovedPayment {
+  id: string; // earnings ledger record
+  paymentHeader: string;
+  requirements: PaymentRequirements; // the option the payer chose
+}
+
+// The terms DataGuard quoted a page for one resource; approval is asked at this price, never one the page reports
+export interface IssuedQuote {
+  origin: string;
+  resource: string; // the request URL, or the urn:dataguard resource of a window.DataGuard call
+  predicate: EmailPredicate; // as quoted; the user is asked about this one
+  mode: 'emails' | 'answer';
+  negotiationId?: string;
+  price: number; // USDC, 0 when free
+  priceBreakdown?: PriceBreakdown;
+  conditions: string[];
+  accepts: PaymentRequirements[]; // empty when free
+  payment?: ApprovedPayment; // the payment verified against this quote
+  expiresAt: number;
+}
+
+// What the user approved, redeemed once by a release for the same page
+export interface ApprovalTicket {
+  id: string;
+  origin: string;
+  predicate: EmailPredicate; // narrowed to what was approved
+  mode: 'emails' | 'answer';
+  maxEmails?: number;
+  negotiationId?: string;
+  payment?: ApprovedPayment;
+  expiresAt: number;
+}
+
+// DataGuard error protocol: why a data request was refused or failed (see the extension README)
+export type DataGuardErrorCode =
+  | 'denied_by_user'
+  | 'denied_by_policy'
+  | 'payment_required'
+  | 'timeout'
+  | 'rate_limited'
+  | 'source_unavailable'
+  | 'internal_error';
+
+// The JSON body of every refused or failed data request, in HTTP responses and background messages alike
+export interface DataGuardError {
+  error: DataGuardErrorCode;
+  reason: string; // machine-readable cause within the code, e.g. 'requester_blocked'
+  message: string; // for people, not for parsing
+  retryable: boolean; // whether the same request can succeed later
+  retryAfter?: number; // seconds to wait before retrying
+}
+
+// Ties a response or proof to one requester, one request and a deadline
+export interface RequestBinding {
+  nonce: string; // requester-supplied, single use
+  audience: string; // who the output is meant for, e.g. the requesting origin
+  issuedAt: string;
+  expiresAt: string;
+}
+
+// Claims DataGuard signs for every response and proof (JWS payload)
+export interface AttestationClaims {
+  iss: 'dataguard';
+  kind: 'emails' | 'answer' | 'proof';
+  predicate: EmailPredicate;
+  result: unknown; // answer, proof signals, or the hash of the returned emails
+  policyHash: string; // SHA-256 of the policy the response was produced under
+  aud: string;
+  origin: string; // origin the browser reported for the requester; verifiers require it to equal aud
+  nonce: string;
+  iat: number; // seconds since epoch
+  exp: number;
+}
+
+export interface AttestationPublicKey {
+  kid: string; // RFC 7638 JWK thumbprint
+  alg: 'ES256';
+  jwk: JsonWebKey;
+  createdAt: string;
 }
 
 export interface UserPolicy {
@@ -36,10 +187,13 @@ export interface Policy {
   allowDeliveryProof: boolean;
   allowPurchaseProof: boolean;
   allowFinancialProof: boolean;
+  // Toggles of additionally registered predicates
+  [toggle: PredicateToggle]: boolean;
   
   // Privacy settings
   redactEmailBodies: boolean;
   redactPersonalInfo: boolean;
+  countDisclosure: CountDisclosure;
   
   // Pricing configuration
   pricing: {
@@ -47,7 +201,9 @@ export interface Policy {
     delivery: number;
     purchase: number;
     financial: number;
+    [predicateId: PredicateId]: number;
   };
+  negotiationStrategy: NegotiationStrategy;
   
   // Advanced configuration
   maxEmailAge: number;
@@ -56,8 +212,9 @@ export interface Policy {
   
   // Payment configuration
   walletAddress: string;
-  facilitatorUrl: string;
-  network: 'polygon' | 'polygon-mumbai';
+  facilitatorUrl: string; // overrides every network's facilitator when set
+  acceptedNetworks: NetworkId[];
+  acceptedAssets: string[]; // asset symbols, e.g. USDC
   
   // Legacy fields for backward compatibility
   showSenderInfo: boolean;
@@ -69,35 +226,66 @@ export interface Policy {
 }
 
 
+// Groth16 proof as produced by snarkjs
+export interface Groth16Proof {
+  pi_a: string[];
+  pi_b: string[][];
+  pi_c: string[];
+  protocol: string;
+  curve: string;
+}
+
+// Proof that at least `threshold` emails matching the predicate fall in the window
+export interface CountProof {
+  circuit: string;
+  predicate: EmailPredicate;
+  threshold: number;
+  window: {
+    from: string;
+    to: string;
+    days: number;
+  };
+  commitment: string; // Poseidon commitment to the inbox snapshot
+  binding: RequestBinding; // hashed into the public challenge signal
+  attestation?: string; // compact JWS over the public signals
+  proof: Groth16Proof;
+  publicSignals: string[];
+  timestamp: string;
+}
+
 export interface DataRequest {
   predicate: EmailPredicate;
   requester: string;
   purpose: string;
   timestamp: string;
   originalUrl?: string;
-  originalInit?: RequestInit;
+  negotiationId?: string; // agreed terms the request is made under
+  transport?: 'fetch' | 'xhr' | 'beacon' | 'api'; // how the page sent it, 'api' for window.DataGuard calls
 }
 
 export interface ExtensionMessage {
-  type: 'REQUEST_EMAIL_DATA' | 'GENERATE_PROOF' | 'GET_USER_POLICY' | 'UPDATE_USER_POLICY' | 'PROCESS_PAYMENT' | 'VERIFY_PAYMENT' | 'NEGOTIATE_REQUEST';
+  type: 'REQUEST_EMAIL_DATA' | 'GENERATE_PROOF' | 'GET_USER_POLICY' | 'UPDATE_USER_POLICY' | 'PROCESS_PAYMENT' | 'VERIFY_PAYMENT' | 'NEGOTIATE_REQUEST' | 'GET_PREDICATES' | 'ANSWER_PREDICATE' | 'GET_PUBLIC_KEY' | 'GET_PUBLIC_TERMS' | 'NEGOTIATE_TERMS' | 'SIMULATE_OFFER' | 'QUOTE_DATA_REQUEST' | 'VERIFY_X402_PAYMENT' | 'SETTLE_X402_PAYMENT' | 'RELEASE_X402_PAYMENT' | 'REFUND_X402_PAYMENT' | 'GET_EARNINGS' | 'EXPORT_EARNINGS' | 'GET_REQUESTERS' | 'ADD_REQUESTER' | 'UPDATE_REQUESTER' | 'REMOVE_REQUESTER' | 'GET_CONSENT_GRANTS' | 'REVOKE_CONSENT_GRANT' | 'REQUEST_APPROVAL' | 'CANCEL_APPROVAL' | 'GET_APPROVAL_REQUEST' | 'PREVIEW_APPROVAL_REQUEST' | 'RESOLVE_APPROVAL_REQUEST' | 'GET_INTERCEPT_RULES' | 'ADD_INTERCEPT_RULE' | 'UPDATE_INTERCEPT_RULE' | 'REMOVE_INTERCEPT_RULE';
   data?: any;
 }
 
 // x402 Payment related types
 export interface PaymentRequest {
-  predicateType: string;
+  predicateType: PredicateId;
   price: number; // in USDC
   walletAddress: string;
   facilitatorUrl: string;
-  network: 'polygon' | 'polygon-mumbai';
+  network: NetworkId;
   requestId: string;
   timestamp: number;
+  paymentHeader?: string; // X-PAYMENT payload to settle
+  resource?: string;
 }
 
 export interface PaymentResponse {
   success: boolean;
   paymentProof?: string;
   transactionHash?: string;
+  payer?: string;
   error?: string;
   facilitatorResponse?: any;
 }
@@ -108,13 +296,234 @@ export interface PaymentVerification {
   recipient: string;
   timestamp: number;
   blockNumber?: number;
+  payer?: string;
+  reason?: string; // summary of failures
+  failures?: PaymentFailure[];
+  requirements?: PaymentRequirements; // the quoted option the payment was made against
+}
+
+export type PaymentFailureCode =
+  | 'invalid_payload'
+  | 'unsupported_scheme'
+  | 'network_mismatch'
+  | 'asset_mismatch'
+  | 'recipient_mismatch'
+  | 'insufficient_amount'
+  | 'not_yet_valid'
+  | 'expired'
+  | 'invalid_signature'
+  | 'facilitator_rejected'
+  | 'facilitator_unavailable';
+
+export interface PaymentFailure {
+  code: PaymentFailureCode;
+  message: string;
+}
+
+// x402 wire format: what a 402 response asks for
+export interface PaymentRequirements {
+  scheme: 'exact';
+  network: string;
+  maxAmountRequired: string; // atomic units of the asset
+  resource: string;
+  description: string;
+  mimeType: string;
+  payTo: string;
+  maxTimeoutSeconds: number;
+  asset: string; // token contract address
+  extra?: {
+    name: string;
+    version: string;
+  };
+}
+
+export interface PaymentRequiredResponse {
+  x402Version: number;
+  error: string;
+  accepts: PaymentRequirements[];
+}
+
+// x402 wire format: decoded X-PAYMENT header for the exact EVM scheme
+export interface PaymentPayload {
+  x402Version: number;
+  scheme: 'exact';
+  network: string;
+  payload: {
+    signature: string;
+    authorization: {
+      from: string;
+      to: string;
+      value: string;
+      validAfter: string;
+      validBefore: string;
+      nonce: string;
+    };
+  };
+}
+
+// Payment lifecycle, from a verified X-PAYMENT authorization onwards
+export type PaymentState =
+  | 'authorized' // verified, not yet settled
+  | 'settled'
+  | 'voided' // released unsettled: request denied or data unavailable
+  | 'expired' // authorization lapsed before settlement
+  | 'failed' // facilitator refused to settle
+  | 'refunded' // settled, then returned because the data was not delivered
+  | 'disputed'; // settled and owed back, but the refund did not go through
+
+export type PaymentEvent =
+  | 'authorization_verified'
+  | 'settlement_succeeded'
+  | 'settlement_failed'
+  | 'authorization_expired'
+  | 'authorization_released'
+  | 'refund_succeeded'
+  | 'refund_failed';
+
+export interface PaymentTransition {
+  event: PaymentEvent;
+  from: PaymentState | null;
+  to: PaymentState;
+  at: number;
+  reason?: string;
+}
+
+// Earnings ledger types
+export interface PaymentRecord {
+  id: string; // payer and EIP-3009 authorization nonce; ledger key
+  state: PaymentState;
+  history: PaymentTransition[];
+  requesterId: string;
+  predicateType: PredicateId;
+  amount: number; // in USDC
+  amountAtomic: string; // authorized value in atomic units
+  priceBreakdown?: PriceBreakdown;
+  payer: string;
+  payTo: string;
+  network: NetworkId;
+  asset: string; // asset symbol
+  resource?: string;
+  authorizedAt: number;
+  validBefore: number; // authorization deadline, ms since epoch
+  transactionHash?: string;
+  settledAt?: number;
+  refundTransactionHash?: string;
+}
+
+export type EarningsPeriod = 'day' | 'week' | 'month';
+
+export interface EarningsTotal {
+  key: string; // period label, requester id or predicate id
+  amount: number;
+  count: number;
+}
+
+export interface EarningsSummary {
+  period: EarningsPeriod;
+  total: EarningsTotal;
+  byPeriod: EarningsTotal[]; // newest first
+  byRequester: EarningsTotal[]; // highest first
+  byPredicate: EarningsTotal[]; // highest first
+}
+
+// Requester registry types
+export type RequesterType = 'ai-agent' | 'third-party-app' | 'human';
+
+// blocked: every request refused; restricted: only predicates the requester's rules allow;
+// standard: the policy, adjusted by the requester's rules
+export type RequesterTrustLevel = 'blocked' | 'restricted' | 'standard';
+
+export interface RequesterPredicateRule {
+  access?: 'allow' | 'deny'; // unset follows the trust level and policy
+  price?: number; // USDC, replaces the policy price for this requester
+}
+
+export interface RequesterRateLimit {
+  maxRequests: number;
+  windowSeconds: number;
+}
+
+export interface RequesterProfile {
+  id: string; // manifest id, or the origin for requesters added by origin
+  name: string;
+  requesterType: RequesterType;
+  origins: string[]; // page origins the requester calls from
+  verification: 'origin' | 'manifest';
+  manifestUrl?: string;
+  publicKey?: JsonWebKey; // manifest signing key, pinned when the requester was added
+  trustLevel: RequesterTrustLevel;
+  predicates: Record<PredicateId, RequesterPredicateRule>;
+  rateLimit?: RequesterRateLimit;
+  addedAt: string;
+  updatedAt: string;
+}
+
+// Self-published by a requester at a URL on one of its origins, signed with its ES256 key
+export interface RequesterManifest {
+  id: string;
+  name: string;
+  requesterType?: RequesterType; // self-declared, so never used for pricing
+  origins: string[]; // each origin but the one serving the manifest confirms it at /.well-known/dataguard.json
+  publicKey: JsonWebKey;
+  issuedAt: string;
+  signature: string; // base64url raw r||s over the canonical JSON of the other fields
+}
+
+// Who is calling, as established from the browser-reported origin rather than the page's own claims
+export interface RequesterIdentity {
+  id: string; // profile id, or the origin when the requester is not registered
+  name: string;
+  origin: string;
+  requesterType: RequesterType;
+  profile?: RequesterProfile;
+}
+
+// Consent grant types
+export type ConsentDecision = 'allow' | 'deny';
+
+// How long a remembered decision lasts
+export type ConsentDuration = 'day' | 'month' | 'forever';
+
+// A remembered answer to the approval prompt
+export interface ConsentGrant {
+  id: string;
+  origin: string; // browser-reported origin of the requesting page
+  predicateType?: PredicateId; // unset covers every predicate
+  decision: ConsentDecision;
+  maxAge?: number; // days; an allow grant only covers requests for at most this window
+  mode?: 'emails' | 'answer'; // the approved mode; an allow grant for answers does not cover emails
+  maxPrice?: number; // USDC, the price approved; an allow grant does not cover dearer requests
+  scope?: Pick<ApprovalScope, 'maxEmails' | 'booleanOnly'>; // narrowing the user approved, reapplied on every use
+  createdAt: string;
+  expiresAt?: string; // unset never expires
+}
+
+// Interception rule types
+export type InterceptMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+// A mail-API call DataGuard intercepts, matched by host, path, method and header
+export interface InterceptRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  host: string; // host[:port], '*.' prefix for subdomains
+  pathPattern: string; // starts with '/', '*' matches any run of path characters
+  methods?: InterceptMethod[]; // unset matches every method
+  header?: { name: string; value?: string }; // request header that must be present, optionally with this value
+}
+
+// An enabled rule as the page-world interceptor evaluates it; pattern is the same regex the network rule uses
+export interface InterceptMatcher {
+  pattern: string;
+  methods?: InterceptMethod[];
+  header?: { name: string; value?: string };
 }
 
 // Agent negotiation types
 export interface NegotiationRequest {
-  predicateType: 'subscription' | 'delivery' | 'purchase' | 'financial';
+  predicateType: PredicateId;
   requesterId: string;
-  requesterType: 'ai-agent' | 'third-party-app' | 'human';
+  requesterType: RequesterType;
   requestedData: {
     maxAge: number; // days
     maxEmails: number;
@@ -127,6 +536,7 @@ export interface NegotiationRequest {
 export interface NegotiationResult {
   accepted: boolean;
   finalPrice?: number;
+  priceBreakdown?: PriceBreakdown;
   adjustedPolicy?: Partial<Policy>;
   reason?: string;
   counterOffer?: {
@@ -134,3 +544,101 @@ export interface NegotiationResult {
     conditions: string[];
   };
 }
+
+// How the agent arrived at a quoted price
+export interface PriceBreakdown {
+  basePrice: number;
+  demandMultiplier: number;
+  privacyMultiplier: number;
+  volumeMultiplier: number;
+  requesterMultiplier: number;
+  timeMultiplier: number;
+  finalPrice: number;
+}
+
+// How the PolicyAgent prices requests and concedes in negotiations, set by the user
+export interface NegotiationStrategy {
+  floorPrice: number; // USDC; no priced quote or counter-offer goes below it
+  reservePrice?: number; // USDC; the lowest asking price in a negotiation, by default the price without demand pricing
+  concessionRate: number; // share of the price the asking price drops by with each round
+  requesterPremiums: Record<RequesterType, number>; // multipliers by requester type
+  demandCurve: {
+    step: number; // added to the multiplier for each request in the last hour
+    max: number;
+  };
+  peakHours: {
+    start: number; // hour of day, local time
+    end: number; // exclusive; before start, the window runs past midnight
+    multiplier: number;
+  };
+  privacyPremiums: {
+    body: number; // added to the multiplier when email bodies are released
+    personalInfo: number;
+  };
+  volumeCurve: {
+    step: number; // added to the multiplier for every 10 emails over the first 10
+    max: number;
+  };
+}
+
+// A what-if round against a policy being edited, for the popup's preview
+export interface OfferSimulation {
+  policy: Partial<Policy>;
+  predicateType: PredicateId;
+  requesterType: RequesterType;
+  round: number;
+  hour: number; // local hour of day the offer is priced at
+  offer: NegotiationOffer;
+}
+
+// Email fields a requester can negotiate for; id, date and type are always released
+export type NegotiableField = 'subject' | 'sender' | 'body';
+
+// What a negotiation settles on, bound into the quote, the payment and the released data
+export interface NegotiationTerms {
+  price: number; // USDC per request
+  maxAge: number; // days
+  maxEmails: number;
+  fields: NegotiableField[];
+  countDisclosure: CountDisclosure; // for answers and proofs
+}
+
+// A requester's offer; omitted terms ask for as much as the policy allows, an omitted price asks for DataGuard's
+export type NegotiationOffer = Partial<NegotiationTerms>;
+
+export type NegotiationStatus = 'open' | 'agreed' | 'rejected' | 'expired' | 'used';
+
+export type NegotiationMessage =
+  | { type: 'offer'; from: 'requester'; terms: NegotiationOffer; at: string }
+  | { type: 'counter_offer'; from: 'dataguard'; terms: NegotiationTerms; conditions: string[]; final: boolean; at: string }
+  | { type: 'accept'; from: 'requester' | 'dataguard'; at: string }
+  | { type: 'reject'; from: 'requester' | 'dataguard'; reason: string; at: string };
+
+export interface AgreedTerms extends NegotiationTerms {
+  conditions: string[];
+  priceBreakdown: PriceBreakdown; // finalPrice is the agreed price
+}
+
+export interface NegotiationSession {
+  id: string;
+  party: string; // the requester id, or the origin of an unregistered requester
+  predicateType: PredicateId;
+  mode: 'emails' | 'answer'; // proofs are negotiated as answers
+  status: NegotiationStatus;
+  round: number; // offers the requester has made
+  maxRounds: number;
+  createdAt: string;
+  expiresAt: string; // pushed back by every message
+  messages: NegotiationMessage[];
+  counterOffer?: AgreedTerms & { final: boolean }; // DataGuard's standing offer while open
+  agreed?: AgreedTerms;
+  reason?: string; // why it was rejected
+}
+
+// The outcome of one requester offer, as evaluated by the PolicyAgent
+export interface NegotiationRound {
+  accepted: boolean;
+  terms: NegotiationTerms; // the offer's terms when accepted, else DataGuard's counter-offer
+  conditions: string[];
+  priceBreakdown: PriceBreakdown;
+}
@@ -0,0 +1,235 @@
+// DataGuard Approval Window Script
+// Shows one pending data request and sends the user's answer back to the background
+
+import { ApprovalDecision, ApprovalRequest, ApprovalScope, ConsentDuration, DataPreview } from '../../types/index.js';
+
+// Approve stays disabled briefly so a click aimed at the page cannot land on it as the window opens
+const APPROVE_ARMING_DELAY_MS = 800;
+
+class DataGuardApproval {
+    private id = new URLSearchParams(window.location.search).get('id') || '';
+    private request: ApprovalRequest | null = null;
+    private previewRequest = 0;
+
+    private maxEmails = document.getElementById('maxEmails') as HTMLInputElement;
+    private maxEmailsRow = document.getElementById('maxEmailsRow') as HTMLElement;
+    private maxAge = document.getElementById('maxAge') as HTMLInputElement;
+    private booleanOnly = document.getElementById('booleanOnly') as HTMLInputElement;
+    private remember = document.getElementById('remember') as HTMLSelectElement;
+    private approve = document.getElementById('approve') as HTMLButtonElement;
+    private deny = document.getElementById('deny') as HTMLButtonElement;
+    private never = document.getElementById('never') as HTMLButtonElement;
+    private preview = document.getElementById('preview') as HTMLElement;
+
+    constructor() {
+        this.bindEvents();
+        this.init();
+    }
+
+    async init() {
+        try {
+            const response = await this.sendMessage({ type: 'GET_APPROVAL_REQUEST', data: { id: this.id } });
+            if (!response?.success) {
+                throw new Error(response?.error || 'Request not found');
+            }
+
+            this.request = response.request;
+            this.render(response.request);
+            this.refreshPreview();
+            this.startCountdown(response.request.expiresAt);
+            setTimeout(() => { this.approve.disabled = false; }, APPROVE_ARMING_DELAY_MS);
+        } catch (error) {
+            this.showError(error instanceof Error ? error.message : String(error));
+            this.approve.disabled = true;
+            this.deny.disabled = true;
+            this.never.disabled = true;
+        }
+    }
+
+    bindEvents() {
+        [this.maxEmails, this.maxAge, this.booleanOnly].forEach(control => {
+            control.addEventListener('change', () => this.refreshPreview());
+        });
+
+        // Only real clicks by the user answer the request
+        this.approve.addEventListener('click', event => {
+            if (!event.isTrusted) return;
+            this.answer({ approved: true, remember: this.rememberValue(), scope: this.scope() });
+        });
+        this.deny.addEventListener('click', event => {
+            if (!event.isTrusted) return;
+            this.answer({ approved: false, remember: this.rememberValue() });
+        });
+        this.never.addEventListener('click', event => {
+            if (!event.isTrusted) return;
+            this.answer({ approved: false, remember: 'forever', allPredicates: true });
+        });
+    }
+
+    // Built with textContent: requester names, purposes and email fields must not be parsed as HTML
+    render(request: ApprovalRequest) {
+        this.setText('requestSummary', `Requests ${request.predicate.type} data from the last ${request.predicate.maxAge} days`);
+        this.setText('requesterName', request.requester.name);
+        this.setText('requesterOrigin', request.origin);
+        this.setText('requestPurpose', `Purpose: ${request.purpose || 'not stated'}`);
+
+        const badge = document.getElementById('requesterBadge')!;
+        badge.textContent = request.requester.registered ? '✓ Known requester' : 'Unknown requester';
+        badge.classList.toggle('registered', request.requester.registered);
+
+        this.setText('termsPrice', request.terms.price > 0 ? `Pays $${request.terms.price.toFixed(3)} USDC` : 'No payment');
+        const conditions = document.getElementById('termsConditions')!;
+        request.terms.conditions.forEach(condition => {
+            const item = document.createElement('li');
+            item.textContent = condition;
+            conditions.appendChild(item);
+        });
+
+        this.maxAge.max = String(request.predicate.maxAge);
+        this.maxAge.value = String(request.predicate.maxAge);
+    }
+
+    /**
+     * The narrower scope currently chosen, leaving out anything the user did not change
+     */
+    scope(): ApprovalScope {
+        const emails = parseInt(this.maxEmails.value, 10);
+        const days = parseInt(this.maxAge.value, 10);
+        const requested = this.request?.predicate.maxAge ?? 0;
+
+        return {
+            ...(this.emailsMode() && emails > 0 ? { maxEmails: emails } : {}),
+            ...(days > 0 && days < requested ? { maxAge: days } : {}),
+            ...(this.booleanOnly.checked ? { booleanOnly: true } : {})
+        };
+    }
+
+    emailsMode(): boolean {
+        return this.request?.mode === 'emails' && !this.booleanOnly.checked;
+    }
+
+    async refreshPreview() {
+        if (!this.request) return;
+
+        const current = ++this.previewRequest;
+        this.maxEmailsRow.hidden = !this.emailsMode();
+        this.preview.textContent = 'Loading preview...';
+
+        const response = await this.sendMessage({
+            type: 'PREVIEW_APPROVAL_REQUEST',
+            data: { id: this.id, scope: this.scope() }
+        }).catch(error => ({ error: error instanceof Error ? error.message : String(error) }));
+
+        // A newer scope change may have been answered first
+        if (current === this.previewRequest) {
+            this.renderPreview(response);
+        }
+    }
+
+    renderPreview(response: any) {
+        this.preview.replaceChildren();
+
+        if (!response?.success) {
+            this.preview.textContent = `Preview unavailable: ${response?.message || response?.error || 'unknown error'}`;
+            return;
+        }
+
+        const preview: DataPreview = response.preview;
+        const days = preview.predicate.maxAge;
+
+        if (preview.mode === 'answer' && preview.answer) {
+            const answer = preview.answer;
+            const count = answer.count !== undefined
+                ? `, count ${answer.count}`
+                : answer.countBucket !== undefined ? `, count ${answer.countBucket}` : '';
+            this.preview.append(
+                this.createLine('preview-title', 'Will share an answer only, no emails'),
+                this.createLine('preview-detail', `${answer.satisfied ? 'Yes' : 'No'}${count} (last ${days} days)`)
+            );
+            return;
+        }
+
+        const emailCount = preview.emailCount || 0;
+        const samples = preview.samples || [];
+        this.preview.append(
+            this.createLine('preview-title', `Will share ${emailCount} email${emailCount === 1 ? '' : 's'} from the last ${days} days`),
+            this.createLine('preview-detail', `Fields: ${(preview.fields || []).join(', ')}`)
+        );
+        if (preview.redactedFields?.length) {
+            this.preview.appendChild(this.createLine('preview-detail', `Redacted: ${preview.redactedFields.join(', ')}`));
+        }
+
+        samples.forEach(email => {
+            const line = `${new Date(email.date).toLocaleDateString()} · ${email.sender} · ${email.subject}`;
+            this.preview.appendChild(this.createLine('preview-sample', line));
+        });
+        if (emailCount > samples.length) {
+            this.preview.appendChild(this.createLine('preview-detail', `…and ${emailCount - samples.length} more`));
+        }
+    }
+
+    startCountdown(expiresAt: string) {
+        const expiry = document.getElementById('expiry')!;
+        const update = () => {
+            const seconds = Math.max(0, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / 1000));
+            expiry.textContent = `Denied automatically in ${seconds}s`;
+        };
+        update();
+        setInterval(update, 1000);
+    }
+
+    async answer(decision: ApprovalDecision) {
+        this.approve.disabled = true;
+        this.deny.disabled = true;
+        this.never.disabled = true;
+
+        // The background closes this window once the answer is recorded
+        const response = await this.sendMessage({
+            type: 'RESOLVE_APPROVAL_REQUEST',
+            data: { id: this.id, decision }
+        }).catch(error => ({ error: error instanceof Error ? error.message : String(error) }));
+
+        if (!response?.success) {
+            this.showError(response?.error || 'Could not record your answer');
+        }
+    }
+
+    rememberValue(): ConsentDuration | undefined {
+        return this.remember.value ? this.remember.value as ConsentDuration : undefined;
+    }
+
+    createLine(className: string, text: string): HTMLElement {
+        const line = document.createElement('div');
+        line.className = className;
+        line.textContent = text;
+        return line;
+    }
+
+    setText(id: string, text: string) {
+        const element = document.getElementById(id);
+        if (element) element.textContent = text;
+    }
+
+    showError(message: string) {
+        const error = document.getElementById('error')!;
+        error.textContent = message;
+        error.hidden = false;
+    }
+
+    sendMessage(message: any): Promise<any> {
+        return new Promise((resolve, reject) => {
+            chrome.runtime.sendMessage(message, (response) => {
+                if (chrome.runtime.lastError) {
+                    reject(new Error(chrome.runtime.lastError.message));
+                } else {
+                    resolve(response);
+                }
+            });
+        });
+    }
+}
+
+// Initialize approval window when DOM is loaded
+document.addEventListener('DOMContentLoaded', () => {
+    new DataGuardApproval();
+});
@@ -0,0 +1,154 @@
+// InterceptRuleCard Component
+// Edits one interception rule: host, path pattern, methods and an optional header condition
+
+import { InterceptMethod, InterceptRule } from '../../types/index.js';
+
+export interface InterceptRuleCardChanges {
+    enabled?: boolean;
+    host?: string;
+    pathPattern?: string;
+    methods?: InterceptMethod[] | null;
+    header?: InterceptRule['header'] | null;
+}
+
+const METHODS: InterceptMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+
+export class InterceptRuleCard {
+    private element: HTMLElement;
+    private rule: InterceptRule;
+    private onChange: (id: string, changes: InterceptRuleCardChanges) => void;
+    private onRemove: (id: string) => void;
+
+    constructor(
+        container: HTMLElement,
+        rule: InterceptRule,
+        onChange: (id: string, changes: InterceptRuleCardChanges) => void,
+        onRemove: (id: string) => void
+    ) {
+        this.rule = rule;
+        this.onChange = onChange;
+        this.onRemove = onRemove;
+
+        this.element = this.createCardElement();
+        container.appendChild(this.element);
+    }
+
+    private createCardElement(): HTMLElement {
+        const card = document.createElement('div');
+        card.className = `requester-card intercept-rule${this.rule.enabled ? '' : ' disabled'}`;
+
+        const header = document.createElement('div');
+        header.className = 'requester-header';
+
+        const toggle = document.createElement('label');
+        toggle.className = 'intercept-rule-toggle';
+        const enabled = document.createElement('input');
+        enabled.type = 'checkbox';
+        enabled.checked = this.rule.enabled;
+        enabled.addEventListener('change', () => {
+            card.classList.toggle('disabled', !enabled.checked);
+            this.onChange(this.rule.id, { enabled: enabled.checked });
+        });
+        const name = document.createElement('strong');
+        name.textContent = this.rule.name;
+        toggle.append(enabled, name);
+
+        const remove = document.createElement('button');
+        remove.className = 'requester-remove';
+        remove.textContent = 'Remove';
+        remove.addEventListener('click', () => this.onRemove(this.rule.id));
+
+        header.append(toggle, remove);
+        card.append(
+            header,
+            this.createTextControl('Host', this.rule.host, 'localhost:3000', host => ({ host })),
+            this.createTextControl('Path', this.rule.pathPattern, '/api/emails*', pathPattern => ({ pathPattern })),
+            this.createMethodControl(),
+            this.createHeaderControl()
+        );
+
+        return card;
+    }
+
+    private createTextControl(
+        label: string,
+        value: string,
+        placeholder: string,
+        toChanges: (value: string) => InterceptRuleCardChanges
+    ): HTMLElement {
+        const input = this.createTextInput(value, placeholder);
+        input.addEventListener('change', () => this.onChange(this.rule.id, toChanges(input.value.trim())));
+        return this.createRow(label, input);
+    }
+
+    private createMethodControl(): HTMLElement {
+        const group = document.createElement('div');
+        group.className = 'intercept-rule-methods';
+
+        METHODS.forEach(method => {
+            const option = document.createElement('label');
+            const checkbox = document.createElement('input');
+            checkbox.type = 'checkbox';
+            checkbox.value = method;
+            checkbox.checked = !!this.rule.methods?.includes(method);
+            checkbox.addEventListener('change', () => {
+                // No method checked matches every method
+                const methods = Array.from(group.querySelectorAll<HTMLInputElement>('input:checked'))
+                    .map(input => input.value as InterceptMethod);
+                this.onChange(this.rule.id, { methods: methods.length ? methods : null });
+            });
+            option.append(checkbox, document.createTextNode(method.toUpperCase()));
+            group.appendChild(option);
+        });
+
+        return this.createRow('Methods', group);
+    }
+
+    private createHeaderControl(): HTMLElement {
+        const name = this.createTextInput(this.rule.header?.name, 'any header');
+        const value = this.createTextInput(this.rule.header?.value, 'any value');
+
+        const change = () => {
+            // An empty header name removes the condition
+            const headerName = name.value.trim();
+            this.onChange(this.rule.id, {
+                header: headerName ? { name: headerName, ...(value.value ? { value: value.value } : {}) } : null
+            });
+        };
+        name.addEventListener('change', change);
+        value.addEventListener('change', change);
+
+        return this.createRow('Header', name, value);
+    }
+
+    private createRow(label: string, ...controls: HTMLElement[]): HTMLElement {
+        const row = document.createElement('div');
+        row.className = 'requester-row';
+        const text = document.createElement('label');
+        text.textContent = label;
+        row.append(text, ...controls);
+        return row;
+    }
+
+    private createTextInput(value: string | undefined, placeholder: string): HTMLInputElement {
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.placeholder = placeholder;
+        input.value = value ?? '';
+        return input;
+    }
+
+    public destroy(): void {
+        this.element.remove();
+    }
+}
+
+// Factory function for creating interception rule cards
+export function createInterceptRuleCard(
+    container: HTMLElement,
+    rule: InterceptRule,
+    onChange: (id: string, changes: InterceptRuleCardChanges) => void,
+    onRemove: (id: string) => void
+): InterceptRuleCard {
+    return new InterceptRuleCard(container, rule, onChange, onRemove);
+}
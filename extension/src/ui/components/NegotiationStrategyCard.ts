@@ -0,0 +1,341 @@
+// NegotiationStrategyCard Component
+// Edits how the PolicyAgent prices and concedes, and previews how it would answer an offer
+
+import { NegotiableField, NegotiationRound, NegotiationStrategy, OfferSimulation, RequesterType } from '../../types/index.js';
+
+export type OfferSimulator = (simulation: Omit<OfferSimulation, 'policy'>) => Promise<{ allowed: boolean; round: NegotiationRound }>;
+
+const REQUESTER_TYPES: { type: RequesterType; label: string }[] = [
+    { type: 'ai-agent', label: 'AI agents' },
+    { type: 'third-party-app', label: 'Apps' },
+    { type: 'human', label: 'People' }
+];
+
+const FIELDS: NegotiableField[] = ['subject', 'sender', 'body'];
+
+export class NegotiationStrategyCard {
+    private element: HTMLElement;
+    private predicates: { id: string; title: string }[];
+    private onChange: () => void;
+    private simulate: OfferSimulator;
+
+    constructor(
+        container: HTMLElement,
+        strategy: NegotiationStrategy,
+        predicates: { id: string; title: string }[],
+        onChange: () => void,
+        simulate: OfferSimulator
+    ) {
+        this.predicates = predicates;
+        this.onChange = onChange;
+        this.simulate = simulate;
+
+        this.element = this.createCardElement();
+        container.appendChild(this.element);
+        this.setStrategy(strategy);
+        this.bindEvents();
+    }
+
+    private createCardElement(): HTMLElement {
+        const card = document.createElement('div');
+        card.className = 'policy-advanced negotiation-strategy';
+        card.innerHTML = `
+            <h4>🤝 Negotiation Strategy</h4>
+            <div class="advanced-grid">
+                <div class="strategy-row">
+                    <div class="advanced-item">
+                        <label for="strategyFloorPrice">Floor price (USDC):</label>
+                        <input type="number" id="strategyFloorPrice" min="0" max="100" step="0.001">
+                    </div>
+                    <div class="advanced-item">
+                        <label for="strategyReservePrice">Reserve price (USDC):</label>
+                        <input type="number" id="strategyReservePrice" min="0" max="100" step="0.001" placeholder="Auto">
+                    </div>
+                    <div class="advanced-item">
+                        <label for="strategyConcession">Concession per round (%):</label>
+                        <input type="number" id="strategyConcession" min="0" max="50" step="1">
+                    </div>
+                </div>
+                <small>No priced quote goes below the floor. Counter-offers come down by the concession each round, to the reserve price, or when it is empty to the price without demand pricing.</small>
+
+                <div class="strategy-row">
+                    ${REQUESTER_TYPES.map(({ type, label }) => `
+                        <div class="advanced-item">
+                            <label for="strategyPremium-${type}">${label} (×):</label>
+                            <input type="number" id="strategyPremium-${type}" min="0.1" max="10" step="0.1">
+                        </div>
+                    `).join('')}
+                </div>
+                <small>Price multipliers by requester type</small>
+
+                <div class="strategy-row">
+                    <div class="advanced-item">
+                        <label for="strategyPeakStart">Peak from (hour):</label>
+                        <input type="number" id="strategyPeakStart" min="0" max="23" step="1">
+                    </div>
+                    <div class="advanced-item">
+                        <label for="strategyPeakEnd">Peak until (hour):</label>
+                        <input type="number" id="strategyPeakEnd" min="0" max="23" step="1">
+                    </div>
+                    <div class="advanced-item">
+                        <label for="strategyPeakMultiplier">Peak price (×):</label>
+                        <input type="number" id="strategyPeakMultiplier" min="0.1" max="10" step="0.1">
+                    </div>
+                </div>
+                <small>Time-of-day pricing, in local time</small>
+
+                <div class="strategy-row">
+                    <div class="advanced-item">
+                        <label for="strategyDemandStep">Demand step (+×):</label>
+                        <input type="number" id="strategyDemandStep" min="0" max="1" step="0.01">
+                    </div>
+                    <div class="advanced-item">
+                        <label for="strategyDemandMax">Demand cap (×):</label>
+                        <input type="number" id="strategyDemandMax" min="1" max="10" step="0.1">
+                    </div>
+                </div>
+                <small>Added for every request for the same data in the last hour, up to the cap</small>
+
+                <div class="strategy-row">
+                    <div class="advanced-item">
+                        <label for="strategyBodyPremium">Bodies (+×):</label>
+                        <input type="number" id="strategyBodyPremium" min="0" max="10" step="0.1">
+                    </div>
+                    <div class="advanced-item">
+                        <label for="strategyPersonalPremium">Personal info (+×):</label>
+                        <input type="number" id="strategyPersonalPremium" min="0" max="10" step="0.1">
+                    </div>
+                </div>
+                <small>Added when email bodies or sender details are released</small>
+
+                <div class="strategy-row">
+                    <div class="advanced-item">
+                        <label for="strategyVolumeStep">Volume step (+×):</label>
+                        <input type="number" id="strategyVolumeStep" min="0" max="1" step="0.01">
+                    </div>
+                    <div class="advanced-item">
+                        <label for="strategyVolumeMax">Volume cap (×):</label>
+                        <input type="number" id="strategyVolumeMax" min="1" max="10" step="0.1">
+                    </div>
+                </div>
+                <small>Added for every 10 emails over the first 10, up to the cap</small>
+            </div>
+
+            <div class="offer-simulation">
+                <h4>Simulate this offer</h4>
+                <div class="strategy-row">
+                    <div class="advanced-item">
+                        <label for="simulatePredicate">Data:</label>
+                        <select id="simulatePredicate">
+                            ${this.predicates.map(({ id, title }) => `<option value="${id}">${title}</option>`).join('')}
+                        </select>
+                    </div>
+                    <div class="advanced-item">
+                        <label for="simulateRequesterType">From:</label>
+                        <select id="simulateRequesterType">
+                            ${REQUESTER_TYPES.map(({ type, label }) => `<option value="${type}">${label}</option>`).join('')}
+                        </select>
+                    </div>
+                </div>
+                <div class="strategy-row">
+                    <div class="advanced-item">
+                        <label for="simulatePrice">Offer (USDC):</label>
+                        <input type="number" id="simulatePrice" min="0" step="0.001" value="0.05">
+                    </div>
+                    <div class="advanced-item">
+                        <label for="simulateRound">Round:</label>
+                        <input type="number" id="simulateRound" min="1" max="5" step="1" value="1">
+                    </div>
+                    <div class="advanced-item">
+                        <label for="simulateHour">At (hour):</label>
+                        <input type="number" id="simulateHour" min="0" max="23" step="1" value="${new Date().getHours()}">
+                    </div>
+                </div>
+                <div class="strategy-row">
+                    <div class="advanced-item">
+                        <label for="simulateMaxAge">Days:</label>
+                        <input type="number" id="simulateMaxAge" min="1" max="3650" step="1" value="30">
+                    </div>
+                    <div class="advanced-item">
+                        <label for="simulateMaxEmails">Emails:</label>
+                        <input type="number" id="simulateMaxEmails" min="1" max="10000" step="1" value="10">
+                    </div>
+                </div>
+                <div class="option-list simulate-fields">
+                    ${FIELDS.map(field => `<label><input type="checkbox" value="${field}"${field === 'subject' ? ' checked' : ''}>${field}</label>`).join('')}
+                </div>
+                <button class="export-btn" id="simulateOffer">Simulate</button>
+                <div class="simulation-result" id="simulationResult"></div>
+            </div>
+        `;
+
+        return card;
+    }
+
+    private bindEvents(): void {
+        this.element.querySelectorAll<HTMLInputElement>('.advanced-grid input').forEach(input => {
+            input.addEventListener('change', () => this.onChange());
+        });
+        this.element.querySelector('#simulateOffer')?.addEventListener('click', () => this.runSimulation());
+    }
+
+    public setStrategy(strategy: NegotiationStrategy): void {
+        this.setValue('strategyFloorPrice', strategy.floorPrice);
+        this.setValue('strategyReservePrice', strategy.reservePrice);
+        this.setValue('strategyConcession', Math.round(strategy.concessionRate * 100));
+        REQUESTER_TYPES.forEach(({ type }) => this.setValue(`strategyPremium-${type}`, strategy.requesterPremiums[type]));
+        this.setValue('strategyPeakStart', strategy.peakHours.start);
+        this.setValue('strategyPeakEnd', strategy.peakHours.end);
+        this.setValue('strategyPeakMultiplier', strategy.peakHours.multiplier);
+        this.setValue('strategyDemandStep', strategy.demandCurve.step);
+        this.setValue('strategyDemandMax', strategy.demandCurve.max);
+        this.setValue('strategyBodyPremium', strategy.privacyPremiums.body);
+        this.setValue('strategyPersonalPremium', strategy.privacyPremiums.personalInfo);
+        this.setValue('strategyVolumeStep', strategy.volumeCurve.step);
+        this.setValue('strategyVolumeMax', strategy.volumeCurve.max);
+    }
+
+    public getStrategy(): NegotiationStrategy {
+        const reservePrice = this.getValue('strategyReservePrice');
+        return {
+            floorPrice: this.getValue('strategyFloorPrice') ?? 0,
+            ...(reservePrice !== undefined ? { reservePrice } : {}),
+            concessionRate: (this.getValue('strategyConcession') ?? 0) / 100,
+            requesterPremiums: Object.fromEntries(
+                REQUESTER_TYPES.map(({ type }) => [type, this.getValue(`strategyPremium-${type}`) ?? 1])
+            ) as Record<RequesterType, number>,
+            demandCurve: {
+                step: this.getValue('strategyDemandStep') ?? 0,
+                max: this.getValue('strategyDemandMax') ?? 1
+            },
+            peakHours: {
+                start: this.getValue('strategyPeakStart') ?? 0,
+                end: this.getValue('strategyPeakEnd') ?? 0,
+                multiplier: this.getValue('strategyPeakMultiplier') ?? 1
+            },
+            privacyPremiums: {
+                body: this.getValue('strategyBodyPremium') ?? 0,
+                personalInfo: this.getValue('strategyPersonalPremium') ?? 0
+            },
+            volumeCurve: {
+                step: this.getValue('strategyVolumeStep') ?? 0,
+                max: this.getValue('strategyVolumeMax') ?? 1
+            }
+        };
+    }
+
+    public validate(): string[] {
+        const errors: string[] = [];
+        const strategy = this.getStrategy();
+        const inRange = (value: number, min: number, max: number) => !isNaN(value) && value >= min && value <= max;
+        const isHour = (value: number) => Number.isInteger(value) && inRange(value, 0, 23);
+
+        if (!inRange(strategy.floorPrice, 0, 100)) {
+            errors.push('Floor price must be between $0 and $100');
+        }
+        if (strategy.reservePrice !== undefined && !inRange(strategy.reservePrice, 0, 100)) {
+            errors.push('Reserve price must be between $0 and $100');
+        }
+        if (!inRange(strategy.concessionRate, 0, 0.5)) {
+            errors.push('Concession per round must be between 0% and 50%');
+        }
+        if (!REQUESTER_TYPES.every(({ type }) => inRange(strategy.requesterPremiums[type], 0.1, 10))) {
+            errors.push('Requester multipliers must be between 0.1 and 10');
+        }
+        if (!isHour(strategy.peakHours.start) || !isHour(strategy.peakHours.end)) {
+            errors.push('Peak hours must be whole hours from 0 to 23');
+        }
+        if (!inRange(strategy.peakHours.multiplier, 0.1, 10)) {
+            errors.push('Peak multiplier must be between 0.1 and 10');
+        }
+        if (!inRange(strategy.demandCurve.step, 0, 1) || !inRange(strategy.volumeCurve.step, 0, 1)) {
+            errors.push('Demand and volume steps must be between 0 and 1');
+        }
+        if (!inRange(strategy.demandCurve.max, 1, 10) || !inRange(strategy.volumeCurve.max, 1, 10)) {
+            errors.push('Demand and volume caps must be between 1 and 10');
+        }
+        if (!inRange(strategy.privacyPremiums.body, 0, 10) || !inRange(strategy.privacyPremiums.personalInfo, 0, 10)) {
+            errors.push('Privacy premiums must be between 0 and 10');
+        }
+
+        return errors;
+    }
+
+    private async runSimulation(): Promise<void> {
+        const result = this.element.querySelector('#simulationResult') as HTMLElement;
+        const errors = this.validate();
+        if (errors.length > 0) {
+            result.textContent = errors.join(', ');
+            return;
+        }
+
+        try {
+            const { allowed, round } = await this.simulate({
+                predicateType: (this.element.querySelector('#simulatePredicate') as HTMLSelectElement).value,
+                requesterType: (this.element.querySelector('#simulateRequesterType') as HTMLSelectElement).value as RequesterType,
+                round: Math.min(Math.max(Math.round(this.getValue('simulateRound') ?? 1), 1), 5),
+                hour: Math.min(Math.max(Math.round(this.getValue('simulateHour') ?? 0), 0), 23),
+                offer: {
+                    price: this.getValue('simulatePrice') ?? 0,
+                    maxAge: this.getValue('simulateMaxAge'),
+                    maxEmails: this.getValue('simulateMaxEmails'),
+                    fields: Array.from(this.element.querySelectorAll<HTMLInputElement>('.simulate-fields input'))
+                        .filter(checkbox => checkbox.checked)
+                        .map(checkbox => checkbox.value as NegotiableField)
+                }
+            });
+            this.renderSimulation(result, allowed, round);
+        } catch (error) {
+            result.textContent = `Simulation failed: ${error instanceof Error ? error.message : String(error)}`;
+        }
+    }
+
+    private renderSimulation(result: HTMLElement, allowed: boolean, round: NegotiationRound): void {
+        const { basePrice, demandMultiplier, privacyMultiplier, volumeMultiplier, requesterMultiplier, timeMultiplier } = round.priceBreakdown;
+
+        const verdict = document.createElement('strong');
+        verdict.textContent = round.accepted
+            ? `Accepted at $${round.terms.price}`
+            : `Counter-offer: $${round.terms.price} for ${round.terms.maxAge} days, ${round.terms.maxEmails} emails`;
+
+        const breakdown = document.createElement('small');
+        breakdown.textContent = `Base $${basePrice} × demand ${demandMultiplier} × privacy ${privacyMultiplier} × volume ${volumeMultiplier}` +
+            ` × requester ${requesterMultiplier} × time ${timeMultiplier}`;
+
+        const conditions = document.createElement('ul');
+        round.conditions.forEach(condition => {
+            const item = document.createElement('li');
+            item.textContent = condition;
+            conditions.appendChild(item);
+        });
+
+        result.replaceChildren(verdict, breakdown, conditions);
+        if (!allowed) {
+            const note = document.createElement('small');
+            note.textContent = 'This data is disabled in your policy, so real requests for it are refused.';
+            result.appendChild(note);
+        }
+    }
+
+    private setValue(id: string, value: number | undefined): void {
+        const input = this.element.querySelector(`#${id}`) as HTMLInputElement | null;
+        if (input) input.value = value === undefined ? '' : String(value);
+    }
+
+    // undefined for an empty input
+    private getValue(id: string): number | undefined {
+        const input = this.element.querySelector(`#${id}`) as HTMLInputElement | null;
+        const value = input?.value.trim();
+        return value ? parseFloat(value) : undefined;
+    }
+}
+
+export function createNegotiationStrategyCard(
+    container: HTMLElement,
+    strategy: NegotiationStrategy,
+    predicates: { id: string; title: string }[],
+    onChange: () => void,
+    simulate: OfferSimulator
+): NegotiationStrategyCard {
+    return new NegotiationStrategyCard(container, strategy, predicates, onChange, simulate);
+}
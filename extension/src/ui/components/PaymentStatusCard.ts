@@ -1,11 +1,18 @@
 // PaymentStatusCard Component
 // Displays payment processing status and results
 
+import { NetworkId, PaymentRecord, PaymentState } from '../../types/index.js';
+import { networkRegistry } from '../../networks/index.js';
+
 export interface PaymentStatus {
-    status: 'pending' | 'processing' | 'completed' | 'failed';
+    // pending: 402 quoted, awaiting X-PAYMENT; processing: verifying or settling; otherwise a ledger state
+    status: 'pending' | 'processing' | PaymentState;
     message: string;
     transactionHash?: string;
+    refundTransactionHash?: string;
     amount?: number;
+    asset?: string; // asset symbol, USDC when omitted
+    network?: NetworkId;
     recipient?: string;
     timestamp?: number;
     error?: string;
@@ -48,7 +55,7 @@ export class PaymentStatusCard {
                 </div>
                 <div class="status-info">
                     <h4>${this.getStatusTitle()}</h4>
-                    <p class="status-message">${this.status.message}</p>
+                    <p class="status-message">${this.escapeHtml(this.status.message)}</p>
                 </div>
                 ${this.onClose ? '<button class="close-btn">&times;</button>' : ''}
             </div>
@@ -65,10 +72,20 @@ export class PaymentStatusCard {
                 return '⏳';
             case 'processing':
                 return '🔄';
-            case 'completed':
+            case 'authorized':
+                return '🔐';
+            case 'settled':
                 return '✅';
+            case 'voided':
+                return '🚫';
+            case 'expired':
+                return '⌛';
             case 'failed':
                 return '❌';
+            case 'refunded':
+                return '↩️';
+            case 'disputed':
+                return '⚠️';
             default:
                 return '❓';
         }
@@ -80,50 +97,70 @@ export class PaymentStatusCard {
                 return 'Payment Pending';
             case 'processing':
                 return 'Processing Payment';
-            case 'completed':
-                return 'Payment Completed';
+            case 'authorized':
+                return 'Payment Authorized';
+            case 'settled':
+                return 'Payment Settled';
+            case 'voided':
+                return 'Authorization Released';
+            case 'expired':
+                return 'Authorization Expired';
             case 'failed':
                 return 'Payment Failed';
+            case 'refunded':
+                return 'Payment Refunded';
+            case 'disputed':
+                return 'Payment Disputed';
             default:
                 return 'Unknown Status';
         }
     }
 
     private getStatusDetails(): string {
-        if (this.status.status === 'completed' && this.status.transactionHash) {
+        const hasTransaction = ['settled', 'refunded', 'disputed'].includes(this.status.status);
+        if (hasTransaction && this.status.transactionHash) {
             return `
                 <div class="status-details">
                     <div class="detail-item">
                         <span class="detail-label">Amount:</span>
-                        <span class="detail-value">$${this.status.amount?.toFixed(3)} USDC</span>
+                        <span class="detail-value">$${this.status.amount?.toFixed(3)} ${this.status.asset || 'USDC'}</span>
                     </div>
+                    ${this.status.network ? `
+                    <div class="detail-item">
+                        <span class="detail-label">Network:</span>
+                        <span class="detail-value">${networkRegistry.get(this.status.network)?.title || this.escapeHtml(this.status.network)}</span>
+                    </div>` : ''}
                     <div class="detail-item">
                         <span class="detail-label">Recipient:</span>
                         <span class="detail-value">${this.formatAddress(this.status.recipient || '')}</span>
                     </div>
                     <div class="detail-item">
                         <span class="detail-label">Transaction:</span>
-                        <span class="detail-value">
-                            <a href="https://polygonscan.com/tx/${this.status.transactionHash}" 
-                               target="_blank" 
-                               class="transaction-link">
-                                ${this.formatTransactionHash(this.status.transactionHash)}
-                            </a>
-                        </span>
+                        <span class="detail-value">${this.formatTransactionLink(this.status.transactionHash)}</span>
                     </div>
+                    ${this.status.refundTransactionHash ? `
+                    <div class="detail-item">
+                        <span class="detail-label">Refund:</span>
+                        <span class="detail-value">${this.formatTransactionLink(this.status.refundTransactionHash)}</span>
+                    </div>` : ''}
                     <div class="detail-item">
                         <span class="detail-label">Time:</span>
                         <span class="detail-value">${this.formatTimestamp(this.status.timestamp || Date.now())}</span>
                     </div>
+                    ${this.status.error ? `
+                    <div class="error-message">
+                        <strong>Reason:</strong> ${this.escapeHtml(this.status.error)}
+                    </div>` : ''}
                 </div>
             `;
         }
 
-        if (this.status.status === 'failed' && this.status.error) {
+        const hasError = ['failed', 'expired', 'voided'].includes(this.status.status);
+        if (hasError && this.status.error) {
             return `
                 <div class="status-details error">
                     <div class="error-message">
-                        <strong>Error:</strong> ${this.status.error}
+                        <strong>Error:</strong> ${this.escapeHtml(this.status.error)}
                     </div>
                 </div>
             `;
@@ -167,10 +204,28 @@ export class PaymentStatusCard {
         return `${hash.slice(0, 8)}...${hash.slice(-8)}`;
     }
 
+    /**
+     * Link to the network's block explorer; networks without one (e.g. devnet) show the bare hash
+     */
+    private formatTransactionLink(hash: string): string {
+        const label = this.escapeHtml(this.formatTransactionHash(hash));
+        const url = this.status.network && networkRegistry.getTransactionUrl(this.status.network, hash);
+        if (!url) return label;
+
+        return `<a href="${this.escapeHtml(url)}" target="_blank" class="transaction-link">${label}</a>`;
+    }
+
     private formatTimestamp(timestamp: number): string {
         return new Date(timestamp).toLocaleString();
     }
 
+    // Reasons can come from the facilitator, so never render them as markup
+    private escapeHtml(text: string): string {
+        const div = document.createElement('div');
+        div.textContent = text;
+        return div.innerHTML;
+    }
+
     public updateStatus(newStatus: PaymentStatus): void {
         this.status = newStatus;
         this.element.className = `payment-status-card ${this.status.status}`;
@@ -181,7 +236,7 @@ export class PaymentStatusCard {
                 </div>
                 <div class="status-info">
                     <h4>${this.getStatusTitle()}</h4>
-                    <p class="status-message">${this.status.message}</p>
+                    <p class="status-message">${this.escapeHtml(this.status.message)}</p>
                 </div>
                 ${this.onClose ? '<button class="close-btn">&times;</button>' : ''}
             </div>
@@ -217,14 +272,31 @@ export const paymentStatusCardStyles = `
     border-left: 4px solid #007bff;
 }
 
-.payment-status-card.completed {
+.payment-status-card.authorized {
+    border-left: 4px solid #17a2b8;
+}
+
+.payment-status-card.settled {
     border-left: 4px solid #28a745;
 }
 
+.payment-status-card.voided,
+.payment-status-card.expired {
+    border-left: 4px solid #6c757d;
+}
+
 .payment-status-card.failed {
     border-left: 4px solid #dc3545;
 }
 
+.payment-status-card.refunded {
+    border-left: 4px solid #6f42c1;
+}
+
+.payment-status-card.disputed {
+    border-left: 4px solid #fd7e14;
+}
+
 .status-header {
     display: flex;
     align-items: center;
@@ -327,6 +399,39 @@ export const paymentStatusCardStyles = `
 }
 `;
 
+const PAYMENT_STATE_MESSAGES: Record<PaymentState, string> = {
+    authorized: 'Verified, waiting to settle once the data is released',
+    settled: 'Paid by',
+    voided: 'Not charged: the data was not released',
+    expired: 'Not charged: the authorization ran out before settlement',
+    failed: 'Not charged: the facilitator refused to settle',
+    refunded: 'Returned to the payer',
+    disputed: 'Owed back to the payer, but the refund did not go through'
+};
+
+/**
+ * Card status for a payment in the earnings ledger
+ */
+export function paymentStatusFromRecord(record: PaymentRecord): PaymentStatus {
+    const latest = record.history[record.history.length - 1];
+    const message = record.state === 'settled'
+        ? `${PAYMENT_STATE_MESSAGES.settled} ${record.requesterId} for ${record.predicateType}`
+        : PAYMENT_STATE_MESSAGES[record.state];
+
+    return {
+        status: record.state,
+        message,
+        transactionHash: record.transactionHash,
+        refundTransactionHash: record.refundTransactionHash,
+        amount: record.amount,
+        asset: record.asset,
+        network: record.network,
+        recipient: record.payTo,
+        timestamp: latest?.at ?? record.authorizedAt,
+        error: latest?.reason
+    };
+}
+
 // Factory function
 export function createPaymentStatusCard(
     container: HTMLElement,
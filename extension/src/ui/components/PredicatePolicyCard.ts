@@ -2,7 +2,7 @@
 // Reusable component for configuring individual predicate policies
 
 export interface PredicateConfig {
-    type: 'subscription' | 'delivery' | 'purchase' | 'financial';
+    type: string; // registered predicate id
     title: string;
     description: string;
     icon: string;
@@ -93,6 +93,7 @@ export class PredicatePolicyCard {
 
         if (toggleInput) {
             toggleInput.addEventListener('change', () => {
+                this.config.enabled = toggleInput.checked;
                 this.onToggle(this.config.type, toggleInput.checked);
                 this.updatePricingVisibility(toggleInput.checked);
             });
@@ -101,6 +102,7 @@ export class PredicatePolicyCard {
         if (priceInput) {
             priceInput.addEventListener('change', () => {
                 const price = parseFloat(priceInput.value) || 0;
+                this.config.price = price;
                 this.onPriceChange(this.config.type, price);
             });
 
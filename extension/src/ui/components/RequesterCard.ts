@@ -0,0 +1,209 @@
+// RequesterCard Component
+// Edits one registered requester: trust level, requester type, rate limit and per-predicate access and pricing
+
+import { RequesterPredicateRule, RequesterProfile, RequesterRateLimit, RequesterTrustLevel, RequesterType } from '../../types/index.js';
+
+export interface RequesterPredicateOption {
+    id: string;
+    title: string;
+    policyPrice: number; // shown as the placeholder when the requester has no override
+}
+
+export interface RequesterCardChanges {
+    trustLevel?: RequesterTrustLevel;
+    requesterType?: RequesterType;
+    predicates?: Record<string, RequesterPredicateRule>;
+    rateLimit?: RequesterRateLimit | null;
+}
+
+const TRUST_LEVEL_LABELS: Record<RequesterTrustLevel, string> = {
+    standard: 'Standard: follow my policy',
+    restricted: 'Restricted: only allowed predicates',
+    blocked: 'Blocked: refuse every request'
+};
+
+// The type picks the requester premium the PolicyAgent prices with
+const REQUESTER_TYPE_LABELS: Record<RequesterType, string> = {
+    'ai-agent': 'AI agent',
+    'third-party-app': 'App',
+    human: 'Person'
+};
+
+export class RequesterCard {
+    private element: HTMLElement;
+    private profile: RequesterProfile;
+    private predicates: RequesterPredicateOption[];
+    private onChange: (id: string, changes: RequesterCardChanges) => void;
+    private onRemove: (id: string) => void;
+
+    constructor(
+        container: HTMLElement,
+        profile: RequesterProfile,
+        predicates: RequesterPredicateOption[],
+        onChange: (id: string, changes: RequesterCardChanges) => void,
+        onRemove: (id: string) => void
+    ) {
+        this.profile = profile;
+        this.predicates = predicates;
+        this.onChange = onChange;
+        this.onRemove = onRemove;
+
+        this.element = this.createCardElement();
+        container.appendChild(this.element);
+    }
+
+    // Built with textContent: names and origins come from requester manifests
+    private createCardElement(): HTMLElement {
+        const card = document.createElement('div');
+        card.className = `requester-card trust-${this.profile.trustLevel}`;
+
+        const header = document.createElement('div');
+        header.className = 'requester-header';
+
+        const info = document.createElement('div');
+        info.className = 'requester-info';
+        const name = document.createElement('strong');
+        name.textContent = this.profile.name;
+        const badge = document.createElement('span');
+        badge.className = 'requester-badge';
+        badge.textContent = this.profile.verification === 'manifest' ? '🔏 Signed manifest' : '✓ Verified origin';
+        const origins = document.createElement('small');
+        origins.textContent = this.profile.origins.join(', ');
+        info.append(name, badge, origins);
+
+        const remove = document.createElement('button');
+        remove.className = 'requester-remove';
+        remove.textContent = 'Remove';
+        remove.addEventListener('click', () => this.onRemove(this.profile.id));
+
+        header.append(info, remove);
+        card.append(header, this.createTrustControl(), this.createTypeControl(), this.createRateLimitControl(), this.createPredicateRules());
+
+        return card;
+    }
+
+    private createTrustControl(): HTMLElement {
+        const select = document.createElement('select');
+        (Object.keys(TRUST_LEVEL_LABELS) as RequesterTrustLevel[]).forEach(level => {
+            select.add(new Option(TRUST_LEVEL_LABELS[level], level, false, level === this.profile.trustLevel));
+        });
+        select.addEventListener('change', () => {
+            this.element.className = `requester-card trust-${select.value}`;
+            this.onChange(this.profile.id, { trustLevel: select.value as RequesterTrustLevel });
+        });
+
+        return this.createRow('Trust', select);
+    }
+
+    private createTypeControl(): HTMLElement {
+        const select = document.createElement('select');
+        (Object.keys(REQUESTER_TYPE_LABELS) as RequesterType[]).forEach(type => {
+            select.add(new Option(REQUESTER_TYPE_LABELS[type], type, false, type === this.profile.requesterType));
+        });
+        select.addEventListener('change', () => {
+            this.onChange(this.profile.id, { requesterType: select.value as RequesterType });
+        });
+
+        return this.createRow('Priced as', select);
+    }
+
+    private createRateLimitControl(): HTMLElement {
+        const maxRequests = this.createNumberInput(this.profile.rateLimit?.maxRequests, 'no limit', '1');
+        const windowSeconds = this.createNumberInput(this.profile.rateLimit?.windowSeconds ?? 3600, 'seconds', '1');
+
+        const change = () => {
+            // An empty request count removes the limit
+            this.onChange(this.profile.id, {
+                rateLimit: maxRequests.value === '' ? null : {
+                    maxRequests: parseInt(maxRequests.value, 10),
+                    windowSeconds: parseInt(windowSeconds.value, 10)
+                }
+            });
+        };
+        maxRequests.addEventListener('change', change);
+        windowSeconds.addEventListener('change', change);
+
+        const group = document.createElement('div');
+        group.className = 'requester-rate-limit';
+        group.append(maxRequests, document.createTextNode(' requests per '), windowSeconds, document.createTextNode(' s'));
+
+        return this.createRow('Rate limit', group);
+    }
+
+    private createPredicateRules(): HTMLElement {
+        const table = document.createElement('div');
+        table.className = 'requester-predicates';
+
+        this.predicates.forEach(predicate => {
+            const rule = this.profile.predicates[predicate.id] || {};
+
+            const access = document.createElement('select');
+            access.add(new Option('Default', '', false, !rule.access));
+            access.add(new Option('Allow', 'allow', false, rule.access === 'allow'));
+            access.add(new Option('Deny', 'deny', false, rule.access === 'deny'));
+
+            const price = this.createNumberInput(rule.price, `$${predicate.policyPrice}`, '0.001');
+            price.min = '0';
+            price.max = '100';
+
+            access.addEventListener('change', () => this.emitPredicateRules());
+            price.addEventListener('change', () => this.emitPredicateRules());
+
+            const row = this.createRow(predicate.title, access, price);
+            row.dataset.predicate = predicate.id;
+            table.appendChild(row);
+        });
+
+        return table;
+    }
+
+    private emitPredicateRules(): void {
+        const predicates: Record<string, RequesterPredicateRule> = {};
+
+        this.element.querySelectorAll<HTMLElement>('[data-predicate]').forEach(row => {
+            const [access, price] = Array.from(row.querySelectorAll<HTMLInputElement | HTMLSelectElement>('select, input'));
+            const rule: RequesterPredicateRule = {};
+            if (access.value) rule.access = access.value as 'allow' | 'deny';
+            if (price.value !== '') rule.price = parseFloat(price.value);
+            if (rule.access || rule.price !== undefined) {
+                predicates[row.dataset.predicate!] = rule;
+            }
+        });
+
+        this.onChange(this.profile.id, { predicates });
+    }
+
+    private createRow(label: string, ...controls: HTMLElement[]): HTMLElement {
+        const row = document.createElement('div');
+        row.className = 'requester-row';
+        const text = document.createElement('label');
+        text.textContent = label;
+        row.append(text, ...controls);
+        return row;
+    }
+
+    private createNumberInput(value: number | undefined, placeholder: string, step: string): HTMLInputElement {
+        const input = document.createElement('input');
+        input.type = 'number';
+        input.min = '1';
+        input.step = step;
+        input.placeholder = placeholder;
+        input.value = value === undefined ? '' : String(value);
+        return input;
+    }
+
+    public destroy(): void {
+        this.element.remove();
+    }
+}
+
+// Factory function for creating requester cards
+export function createRequesterCard(
+    container: HTMLElement,
+    profile: RequesterProfile,
+    predicates: RequesterPredicateOption[],
+    onChange: (id: string, changes: RequesterCardChanges) => void,
+    onRemove: (id: string) => void
+): RequesterCard {
+    return new RequesterCard(container, profile, predicates, onChange, onRemove);
+}
@@ -1,5 +1,27 @@
 // DataGuard Extension Popup Script
 
+import { predicateRegistry } from '../../predicates/index.js';
+import { networkRegistry } from '../../networks/index.js';
+import { PredicatePolicyCard, createPredicatePolicyCard } from '../components/PredicatePolicyCard.js';
+import { createPaymentStatusCard, paymentStatusCardStyles, paymentStatusFromRecord } from '../components/PaymentStatusCard.js';
+import { RequesterCardChanges, createRequesterCard } from '../components/RequesterCard.js';
+import { InterceptRuleCardChanges, createInterceptRuleCard } from '../components/InterceptRuleCard.js';
+import { NegotiationStrategyCard, createNegotiationStrategyCard } from '../components/NegotiationStrategyCard.js';
+import { DEFAULT_NEGOTIATION_STRATEGY } from '../../policy/policy-store.js';
+import {
+    ConsentGrant,
+    EarningsSummary,
+    EarningsTotal,
+    InterceptRule,
+    NegotiationRound,
+    OfferSimulation,
+    PaymentRecord,
+    RequesterProfile
+} from '../../types/index.js';
+
+// Most recent payments shown as status cards below the earnings totals
+const RECENT_PAYMENT_CARDS = 5;
+
 class DataGuardPopup {
     // DOM element references
     private statusIndicator!: HTMLElement | null;
@@ -8,38 +30,57 @@ class DataGuardPopup {
     
     // Policy elements
     private globalDataSharing!: HTMLInputElement | null;
-    private allowSubscription!: HTMLInputElement | null;
-    private allowDelivery!: HTMLInputElement | null;
-    private allowPurchase!: HTMLInputElement | null;
-    private allowFinancial!: HTMLInputElement | null;
+    private predicatePolicies!: HTMLElement | null;
+    private predicateCards: Map<string, PredicatePolicyCard> = new Map();
     private redactBodies!: HTMLInputElement | null;
     private redactPersonalInfo!: HTMLInputElement | null;
     
-    // Pricing elements
-    private subscriptionPrice!: HTMLInputElement | null;
-    private deliveryPrice!: HTMLInputElement | null;
-    private purchasePrice!: HTMLInputElement | null;
-    private financialPrice!: HTMLInputElement | null;
-    
     // Advanced configuration elements
     private maxEmailAge!: HTMLInputElement | null;
     private maxEmailsPerRequest!: HTMLInputElement | null;
     private requestTimeout!: HTMLInputElement | null;
+    private countDisclosure!: HTMLSelectElement | null;
+    
+    // Negotiation strategy
+    private strategyCard: NegotiationStrategyCard | null = null;
     
     // Payment configuration elements
     private walletAddress!: HTMLInputElement | null;
     private facilitatorUrl!: HTMLInputElement | null;
+    private acceptedNetworks!: HTMLElement | null;
+    private acceptedAssets!: HTMLElement | null;
+
+    // Requester elements
+    private requesterSource!: HTMLInputElement | null;
+    private addRequesterButton!: HTMLElement | null;
+    private requestersList!: HTMLElement | null;
+
+    // Interception rule elements
+    private interceptRuleName!: HTMLInputElement | null;
+    private interceptRuleHost!: HTMLInputElement | null;
+    private interceptRulePath!: HTMLInputElement | null;
+    private addInterceptRuleButton!: HTMLElement | null;
+    private interceptRulesList!: HTMLElement | null;
+
+    // Consent elements
+    private consentList!: HTMLElement | null;
     
     // Demo elements
-    private demoSubscription!: HTMLElement | null;
-    private demoDelivery!: HTMLElement | null;
-    private demoPurchase!: HTMLElement | null;
+    private demoButtons!: HTMLElement | null;
     
     // Results elements
     private resultsSection!: HTMLElement | null;
     private proofResult!: HTMLElement | null;
     private requestsList!: HTMLElement | null;
     
+    // Earnings elements
+    private earningsPeriod!: HTMLSelectElement | null;
+    private earningsTotal!: HTMLElement | null;
+    private earningsBreakdown!: HTMLElement | null;
+    private paymentsList!: HTMLElement | null;
+    private exportEarningsCsv!: HTMLElement | null;
+    private exportEarningsJson!: HTMLElement | null;
+    
     // Footer elements
     private viewLogs!: HTMLElement | null;
     private settings!: HTMLElement | null;
@@ -56,6 +97,10 @@ class DataGuardPopup {
         await this.loadUserPolicy();
         this.checkMailServiceStatus();
         this.loadRecentRequests();
+        this.loadEarnings();
+        this.loadRequesters();
+        this.loadInterceptRules();
+        this.loadConsentGrants();
     }
 
     initializeElements() {
@@ -66,41 +111,143 @@ class DataGuardPopup {
 
         // Policy elements
         this.globalDataSharing = document.getElementById('globalDataSharing') as HTMLInputElement;
-        this.allowSubscription = document.getElementById('allowSubscription') as HTMLInputElement;
-        this.allowDelivery = document.getElementById('allowDelivery') as HTMLInputElement;
-        this.allowPurchase = document.getElementById('allowPurchase') as HTMLInputElement;
-        this.allowFinancial = document.getElementById('allowFinancial') as HTMLInputElement;
+        this.predicatePolicies = document.getElementById('predicatePolicies');
         this.redactBodies = document.getElementById('redactBodies') as HTMLInputElement;
         this.redactPersonalInfo = document.getElementById('redactPersonalInfo') as HTMLInputElement;
         
-        // Pricing elements
-        this.subscriptionPrice = document.getElementById('subscriptionPrice') as HTMLInputElement;
-        this.deliveryPrice = document.getElementById('deliveryPrice') as HTMLInputElement;
-        this.purchasePrice = document.getElementById('purchasePrice') as HTMLInputElement;
-        this.financialPrice = document.getElementById('financialPrice') as HTMLInputElement;
-        
         // Advanced configuration elements
         this.maxEmailAge = document.getElementById('maxEmailAge') as HTMLInputElement;
         this.maxEmailsPerRequest = document.getElementById('maxEmailsPerRequest') as HTMLInputElement;
         this.requestTimeout = document.getElementById('requestTimeout') as HTMLInputElement;
+        this.countDisclosure = document.getElementById('countDisclosure') as HTMLSelectElement;
         
         // Payment configuration elements
         this.walletAddress = document.getElementById('walletAddress') as HTMLInputElement;
         this.facilitatorUrl = document.getElementById('facilitatorUrl') as HTMLInputElement;
+        this.acceptedNetworks = document.getElementById('acceptedNetworks');
+        this.acceptedAssets = document.getElementById('acceptedAssets');
+
+        // Requester elements
+        this.requesterSource = document.getElementById('requesterSource') as HTMLInputElement;
+        this.addRequesterButton = document.getElementById('addRequester');
+        this.requestersList = document.getElementById('requestersList');
+
+        // Interception rule elements
+        this.interceptRuleName = document.getElementById('interceptRuleName') as HTMLInputElement;
+        this.interceptRuleHost = document.getElementById('interceptRuleHost') as HTMLInputElement;
+        this.interceptRulePath = document.getElementById('interceptRulePath') as HTMLInputElement;
+        this.addInterceptRuleButton = document.getElementById('addInterceptRule');
+        this.interceptRulesList = document.getElementById('interceptRulesList');
+
+        // Consent elements
+        this.consentList = document.getElementById('consentList');
 
         // Demo elements
-        this.demoSubscription = document.getElementById('demoSubscription');
-        this.demoDelivery = document.getElementById('demoDelivery');
-        this.demoPurchase = document.getElementById('demoPurchase');
+        this.demoButtons = document.getElementById('demoButtons');
 
         // Results elements
         this.resultsSection = document.getElementById('resultsSection');
         this.proofResult = document.getElementById('proofResult');
         this.requestsList = document.getElementById('requestsList');
 
+        // Earnings elements
+        this.earningsPeriod = document.getElementById('earningsPeriod') as HTMLSelectElement;
+        this.earningsTotal = document.getElementById('earningsTotal');
+        this.earningsBreakdown = document.getElementById('earningsBreakdown');
+        this.paymentsList = document.getElementById('paymentsList');
+        this.exportEarningsCsv = document.getElementById('exportEarningsCsv');
+        this.exportEarningsJson = document.getElementById('exportEarningsJson');
+
         // Footer elements
         this.viewLogs = document.getElementById('viewLogs');
         this.settings = document.getElementById('settings');
+
+        this.renderPredicateControls();
+        this.renderPaymentOptions();
+        this.renderStrategyControls();
+
+        const cardStyles = document.createElement('style');
+        cardStyles.textContent = paymentStatusCardStyles;
+        document.head.appendChild(cardStyles);
+    }
+
+    renderPredicateControls() {
+        // Every registered predicate gets a policy card and a demo button
+        predicateRegistry.list().forEach(definition => {
+            if (this.predicatePolicies) {
+                const card = createPredicatePolicyCard(
+                    this.predicatePolicies,
+                    {
+                        type: definition.id,
+                        title: definition.title,
+                        description: definition.description,
+                        icon: definition.icon,
+                        enabled: definition.enabledByDefault,
+                        price: definition.defaultPrice,
+                        minPrice: 0,
+                        maxPrice: 10,
+                        typicalRange: definition.typicalRange
+                    },
+                    () => this.savePolicy(),
+                    () => this.savePolicy()
+                );
+                this.predicateCards.set(definition.id, card);
+            }
+
+            if (this.demoButtons) {
+                const button = document.createElement('button');
+                button.className = 'demo-btn';
+                button.textContent = `Test ${definition.title} Filter`;
+                button.addEventListener('click', () => this.runDemo(definition.id));
+                this.demoButtons.appendChild(button);
+            }
+        });
+    }
+
+    renderStrategyControls() {
+        const container = document.getElementById('negotiationStrategy');
+        if (!container) return;
+
+        this.strategyCard = createNegotiationStrategyCard(
+            container,
+            DEFAULT_NEGOTIATION_STRATEGY,
+            predicateRegistry.list().map(({ id, title }) => ({ id, title })),
+            () => this.savePolicy(),
+            simulation => this.simulateOffer(simulation)
+        );
+    }
+
+    renderPaymentOptions() {
+        // One checkbox per registered network and per asset symbol offered on any of them
+        networkRegistry.list().forEach(network => {
+            const label = network.testnet ? `${network.title} (testnet)` : network.title;
+            this.acceptedNetworks?.appendChild(this.createOptionCheckbox(network.id, label));
+        });
+        networkRegistry.listAssetSymbols().forEach(symbol => {
+            this.acceptedAssets?.appendChild(this.createOptionCheckbox(symbol, symbol));
+        });
+    }
+
+    createOptionCheckbox(value: string, text: string): HTMLLabelElement {
+        const label = document.createElement('label');
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.value = value;
+        checkbox.addEventListener('change', () => this.savePolicy());
+        label.append(checkbox, text);
+        return label;
+    }
+
+    getCheckedOptions(container: HTMLElement | null): string[] {
+        return Array.from(container?.querySelectorAll<HTMLInputElement>('input[type="checkbox"]') || [])
+            .filter(checkbox => checkbox.checked)
+            .map(checkbox => checkbox.value);
+    }
+
+    setCheckedOptions(container: HTMLElement | null, values: string[]) {
+        container?.querySelectorAll<HTMLInputElement>('input[type="checkbox"]').forEach(checkbox => {
+            checkbox.checked = values.includes(checkbox.value);
+        });
     }
 
     bindEvents() {
@@ -110,18 +257,6 @@ class DataGuardPopup {
         }
 
         // Policy change events
-        if (this.allowSubscription) {
-            this.allowSubscription.addEventListener('change', () => this.savePolicy());
-        }
-        if (this.allowDelivery) {
-            this.allowDelivery.addEventListener('change', () => this.savePolicy());
-        }
-        if (this.allowPurchase) {
-            this.allowPurchase.addEventListener('change', () => this.savePolicy());
-        }
-        if (this.allowFinancial) {
-            this.allowFinancial.addEventListener('change', () => this.savePolicy());
-        }
         if (this.redactBodies) {
             this.redactBodies.addEventListener('change', () => this.savePolicy());
         }
@@ -129,20 +264,6 @@ class DataGuardPopup {
             this.redactPersonalInfo.addEventListener('change', () => this.savePolicy());
         }
 
-        // Pricing change events
-        if (this.subscriptionPrice) {
-            this.subscriptionPrice.addEventListener('change', () => this.savePolicy());
-        }
-        if (this.deliveryPrice) {
-            this.deliveryPrice.addEventListener('change', () => this.savePolicy());
-        }
-        if (this.purchasePrice) {
-            this.purchasePrice.addEventListener('change', () => this.savePolicy());
-        }
-        if (this.financialPrice) {
-            this.financialPrice.addEventListener('change', () => this.savePolicy());
-        }
-
         // Advanced configuration events
         if (this.maxEmailAge) {
             this.maxEmailAge.addEventListener('change', () => this.savePolicy());
@@ -153,21 +274,42 @@ class DataGuardPopup {
         if (this.requestTimeout) {
             this.requestTimeout.addEventListener('change', () => this.savePolicy());
         }
+        if (this.countDisclosure) {
+            this.countDisclosure.addEventListener('change', () => this.savePolicy());
+        }
 
         // Payment configuration events
         if (this.walletAddress) {
             this.walletAddress.addEventListener('change', () => this.savePolicy());
         }
+        if (this.facilitatorUrl) {
+            this.facilitatorUrl.addEventListener('change', () => this.savePolicy());
+        }
 
-        // Demo button events
-        if (this.demoSubscription) {
-            this.demoSubscription.addEventListener('click', () => this.runDemo('subscription'));
+        // Requester events
+        if (this.addRequesterButton) {
+            this.addRequesterButton.addEventListener('click', () => this.addRequester());
         }
-        if (this.demoDelivery) {
-            this.demoDelivery.addEventListener('click', () => this.runDemo('delivery'));
+        if (this.requesterSource) {
+            this.requesterSource.addEventListener('keydown', (e: KeyboardEvent) => {
+                if (e.key === 'Enter') this.addRequester();
+            });
         }
-        if (this.demoPurchase) {
-            this.demoPurchase.addEventListener('click', () => this.runDemo('purchase'));
+
+        // Interception rule events
+        if (this.addInterceptRuleButton) {
+            this.addInterceptRuleButton.addEventListener('click', () => this.addInterceptRule());
+        }
+
+        // Earnings events
+        if (this.earningsPeriod) {
+            this.earningsPeriod.addEventListener('change', () => this.loadEarnings());
+        }
+        if (this.exportEarningsCsv) {
+            this.exportEarningsCsv.addEventListener('click', () => this.exportEarnings('csv'));
+        }
+        if (this.exportEarningsJson) {
+            this.exportEarningsJson.addEventListener('click', () => this.exportEarnings('json'));
         }
 
         // Footer events
@@ -197,25 +339,25 @@ class DataGuardPopup {
                 
                 // Update UI elements with saved policy
                 if (this.globalDataSharing) this.globalDataSharing.checked = policy.globalDataSharing || false;
-                if (this.allowSubscription) this.allowSubscription.checked = policy.allowSubscriptionProof || false;
-                if (this.allowDelivery) this.allowDelivery.checked = policy.allowDeliveryProof || false;
-                if (this.allowPurchase) this.allowPurchase.checked = policy.allowPurchaseProof || false;
-                if (this.allowFinancial) this.allowFinancial.checked = policy.allowFinancialProof || false;
                 if (this.redactBodies) this.redactBodies.checked = policy.redactEmailBodies || false;
                 if (this.redactPersonalInfo) this.redactPersonalInfo.checked = policy.redactPersonalInfo || false;
                 if (this.maxEmailAge) this.maxEmailAge.value = policy.maxEmailAge || 90;
                 if (this.maxEmailsPerRequest) this.maxEmailsPerRequest.value = policy.maxEmailsPerRequest || 10;
                 if (this.requestTimeout) this.requestTimeout.value = policy.requestTimeout || 60;
+                if (this.countDisclosure) this.countDisclosure.value = policy.countDisclosure || 'bucketed';
                 if (this.walletAddress) this.walletAddress.value = policy.walletAddress || '';
-                if (this.facilitatorUrl) this.facilitatorUrl.value = policy.facilitatorUrl || 'https://x402.org/facilitator';
+                if (this.facilitatorUrl) this.facilitatorUrl.value = policy.facilitatorUrl || '';
+                this.setCheckedOptions(this.acceptedNetworks, policy.acceptedNetworks || []);
+                this.setCheckedOptions(this.acceptedAssets, policy.acceptedAssets || []);
+                this.strategyCard?.setStrategy(policy.negotiationStrategy || DEFAULT_NEGOTIATION_STRATEGY);
                 
-                // Update pricing
-                if (policy.pricing) {
-                    if (this.subscriptionPrice) this.subscriptionPrice.value = policy.pricing.subscription || 0.05;
-                    if (this.deliveryPrice) this.deliveryPrice.value = policy.pricing.delivery || 0.10;
-                    if (this.purchasePrice) this.purchasePrice.value = policy.pricing.purchase || 0.25;
-                    if (this.financialPrice) this.financialPrice.value = policy.pricing.financial || 0.50;
-                }
+                // Update predicate toggles and pricing
+                this.predicateCards.forEach((card, predicateId) => {
+                    card.updateConfig({
+                        enabled: predicateRegistry.isAllowed(predicateId, policy),
+                        price: predicateRegistry.getPrice(predicateId, policy)
+                    });
+                });
                 
                 console.log('Policy loaded successfully');
                 this.showNotification('Policy loaded', 'success');
@@ -234,37 +376,30 @@ class DataGuardPopup {
     loadDefaultPolicy() {
         console.log('Loading default policy');
         if (this.globalDataSharing) this.globalDataSharing.checked = true;
-        if (this.allowSubscription) this.allowSubscription.checked = true;
-        if (this.allowDelivery) this.allowDelivery.checked = true;
-        if (this.allowPurchase) this.allowPurchase.checked = false;
-        if (this.allowFinancial) this.allowFinancial.checked = false;
+        this.predicateCards.forEach((card, predicateId) => {
+            const definition = predicateRegistry.get(predicateId);
+            if (definition) {
+                card.updateConfig({ enabled: definition.enabledByDefault, price: definition.defaultPrice });
+            }
+        });
         if (this.redactBodies) this.redactBodies.checked = true;
         if (this.redactPersonalInfo) this.redactPersonalInfo.checked = true;
         if (this.maxEmailAge) this.maxEmailAge.value = '90';
         if (this.maxEmailsPerRequest) this.maxEmailsPerRequest.value = '10';
         if (this.requestTimeout) this.requestTimeout.value = '60';
-        if (this.subscriptionPrice) this.subscriptionPrice.value = '0.05';
-        if (this.deliveryPrice) this.deliveryPrice.value = '0.10';
-        if (this.purchasePrice) this.purchasePrice.value = '0.25';
-        if (this.financialPrice) this.financialPrice.value = '0.50';
-        if (this.facilitatorUrl) this.facilitatorUrl.value = 'https://x402.org/facilitator';
+        if (this.countDisclosure) this.countDisclosure.value = 'bucketed';
+        if (this.facilitatorUrl) this.facilitatorUrl.value = '';
+        this.setCheckedOptions(this.acceptedNetworks, ['base-sepolia', 'polygon-amoy']);
+        this.setCheckedOptions(this.acceptedAssets, ['USDC']);
+        this.strategyCard?.setStrategy(DEFAULT_NEGOTIATION_STRATEGY);
     }
 
     handleGlobalToggle() {
         const isEnabled = this.globalDataSharing?.checked || false;
         
         // Enable/disable all individual predicates based on global toggle
-        const predicates = [
-            this.allowSubscription,
-            this.allowDelivery,
-            this.allowPurchase,
-            this.allowFinancial
-        ];
-        
-        predicates.forEach(predicate => {
-            if (predicate) {
-                predicate.checked = isEnabled;
-            }
+        this.predicateCards.forEach(card => {
+            card.updateConfig({ enabled: isEnabled });
         });
         
         this.savePolicy();
@@ -279,19 +414,25 @@ class DataGuardPopup {
         if (walletAddress && !this.isValidEthereumAddress(walletAddress)) {
             errors.push('Invalid wallet address format');
         }
+
+        const facilitatorUrl = this.facilitatorUrl?.value?.trim();
+        if (facilitatorUrl && !this.isValidHttpUrl(facilitatorUrl)) {
+            errors.push('Invalid facilitator URL');
+        }
+
+        // Every 402 quote needs at least one network/asset pair to offer
+        if (this.getCheckedOptions(this.acceptedNetworks).length === 0) {
+            errors.push('Select at least one network');
+        }
+        if (this.getCheckedOptions(this.acceptedAssets).length === 0) {
+            errors.push('Select at least one asset');
+        }
         
         // Validate pricing values
-        const prices = [
-            { name: 'Subscription', value: this.subscriptionPrice?.value },
-            { name: 'Delivery', value: this.deliveryPrice?.value },
-            { name: 'Purchase', value: this.purchasePrice?.value },
-            { name: 'Financial', value: this.financialPrice?.value }
-        ];
-        
-        prices.forEach(price => {
-            const numValue = parseFloat(price.value || '0');
-            if (isNaN(numValue) || numValue < 0 || numValue > 100) {
-                errors.push(`${price.name} price must be between $0 and $100`);
+        this.predicateCards.forEach(card => {
+            const config = card.getConfig();
+            if (isNaN(config.price) || config.price < 0 || config.price > 100) {
+                errors.push(`${config.title} price must be between $0 and $100`);
             }
         });
         
@@ -311,6 +452,8 @@ class DataGuardPopup {
             errors.push('Request timeout must be between 10 and 300 seconds');
         }
         
+        errors.push(...(this.strategyCard?.validate() || []));
+        
         return errors;
     }
     
@@ -318,6 +461,14 @@ class DataGuardPopup {
         return /^0x[a-fA-F0-9]{40}$/.test(address);
     }
 
+    isValidHttpUrl(value: string): boolean {
+        try {
+            return ['http:', 'https:'].includes(new URL(value).protocol);
+        } catch {
+            return false;
+        }
+    }
+
     async savePolicy() {
         // Validate policy before saving
         const validationErrors = this.validatePolicy();
@@ -326,27 +477,59 @@ class DataGuardPopup {
             return;
         }
 
-        const policy = {
+        const policy = this.collectPolicy();
+        console.log('Saving policy:', policy);
+
+        try {
+            const response = await this.sendMessage({
+                type: 'UPDATE_USER_POLICY',
+                data: policy
+            }) as any;
+
+            if (response.success) {
+                console.log('Policy saved successfully');
+                this.showNotification('Policy updated successfully');
+            } else {
+                console.error('Failed to save policy:', response.error);
+                this.showNotification('Failed to update policy', 'error');
+            }
+        } catch (error) {
+            console.error('Failed to save policy:', error);
+            this.showNotification('Failed to update policy', 'error');
+        }
+    }
+
+    /**
+     * The policy as currently set in the popup
+     */
+    collectPolicy() {
+        // Predicate permissions and pricing come from the registered predicate cards
+        const predicatePermissions: Record<string, boolean> = {};
+        const pricing: Record<string, number> = {};
+        this.predicateCards.forEach((card, predicateId) => {
+            const definition = predicateRegistry.get(predicateId);
+            const config = card.getConfig();
+            if (definition) {
+                predicatePermissions[definition.policyToggle] = config.enabled;
+                pricing[predicateId] = config.price;
+            }
+        });
+
+        return {
             // Global settings
             globalDataSharing: this.globalDataSharing?.checked || false,
             
             // Predicate permissions
-            allowSubscriptionProof: this.allowSubscription?.checked || false,
-            allowDeliveryProof: this.allowDelivery?.checked || false,
-            allowPurchaseProof: this.allowPurchase?.checked || false,
-            allowFinancialProof: this.allowFinancial?.checked || false,
+            ...predicatePermissions,
             
             // Privacy settings
             redactEmailBodies: this.redactBodies?.checked || false,
             redactPersonalInfo: this.redactPersonalInfo?.checked || false,
+            countDisclosure: this.countDisclosure?.value || 'bucketed',
             
             // Pricing configuration
-            pricing: {
-                subscription: parseFloat(this.subscriptionPrice?.value || '0.05'),
-                delivery: parseFloat(this.deliveryPrice?.value || '0.10'),
-                purchase: parseFloat(this.purchasePrice?.value || '0.25'),
-                financial: parseFloat(this.financialPrice?.value || '0.50')
-            },
+            pricing,
+            ...(this.strategyCard ? { negotiationStrategy: this.strategyCard.getStrategy() } : {}),
             
             // Advanced configuration
             maxEmailAge: parseInt(this.maxEmailAge?.value || '90'),
@@ -355,8 +538,9 @@ class DataGuardPopup {
             
             // Payment configuration
             walletAddress: this.walletAddress?.value?.trim() || '',
-            facilitatorUrl: this.facilitatorUrl?.value || 'https://x402.org/facilitator',
-            network: 'polygon', // Default to Polygon for x402
+            facilitatorUrl: this.facilitatorUrl?.value?.trim() || '',
+            acceptedNetworks: this.getCheckedOptions(this.acceptedNetworks),
+            acceptedAssets: this.getCheckedOptions(this.acceptedAssets),
             
             // Legacy fields for backward compatibility
             showSenderInfo: !(this.redactPersonalInfo?.checked || false),
@@ -366,26 +550,21 @@ class DataGuardPopup {
             lastUpdated: new Date().toISOString(),
             version: '1.0.0'
         };
+    }
 
-        console.log('Saving policy:', policy);
+    /**
+     * How the PolicyAgent would answer an offer under the policy as set here, saved or not
+     */
+    async simulateOffer(simulation: Omit<OfferSimulation, 'policy'>): Promise<{ allowed: boolean; round: NegotiationRound }> {
+        const response = await this.sendMessage({
+            type: 'SIMULATE_OFFER',
+            data: { ...simulation, policy: this.collectPolicy() }
+        }) as any;
 
-        try {
-            const response = await this.sendMessage({
-                type: 'UPDATE_USER_POLICY',
-                data: policy
-            }) as any;
-
-            if (response.success) {
-                console.log('Policy saved successfully');
-                this.showNotification('Policy updated successfully');
-            } else {
-                console.error('Failed to save policy:', response.error);
-                this.showNotification('Failed to update policy', 'error');
-            }
-        } catch (error) {
-            console.error('Failed to save policy:', error);
-            this.showNotification('Failed to update policy', 'error');
+        if (!response?.success) {
+            throw new Error(response?.error || 'Simulation failed');
         }
+        return { allowed: response.allowed, round: response.round };
     }
 
     async runDemo(predicateType: string) {
@@ -404,7 +583,7 @@ class DataGuardPopup {
             const policy = policyResponse.policy;
             
             // Check if this predicate type is allowed
-            const isAllowed = this.isPredicateAllowed(predicateType, policy);
+            const isAllowed = predicateRegistry.isAllowed(predicateType, policy);
             
             if (!isAllowed) {
                 this.showNotification(`${predicateType} data access is disabled in your policy`, 'error');
@@ -418,12 +597,15 @@ class DataGuardPopup {
                     predicate: {
                         type: predicateType,
                         maxAge: policy.maxEmailAge
-                    }
+                    },
+                    // Responses are always bound; the popup is its own requester
+                    nonce: crypto.randomUUID(),
+                    audience: new URL(chrome.runtime.getURL('')).origin
                 }
             }) as any;
 
             if (!dataResponse.success) {
-                throw new Error(dataResponse.error || 'Failed to get email data');
+                throw new Error(dataResponse.message || dataResponse.error || 'Failed to get email data');
             }
 
             // Show the filtered results
@@ -436,21 +618,6 @@ class DataGuardPopup {
         }
     }
 
-    isPredicateAllowed(predicateType: string, policy: any) {
-        switch (predicateType) {
-            case 'subscription':
-                return policy.allowSubscriptionProof;
-            case 'delivery':
-                return policy.allowDeliveryProof;
-            case 'purchase':
-                return policy.allowPurchaseProof;
-            case 'financial':
-                return policy.allowFinancialProof;
-            default:
-                return false;
-        }
-    }
-
     displayFilteredResults(predicateType: string, emailData: any[], policy: any) {
         // Create a results display in the popup
         let resultsHtml = `
@@ -482,6 +649,7 @@ class DataGuardPopup {
 
         resultsHtml += `
                 </div>
+                <button class="demo-btn prove-btn">Prove at least one match (Groth16)</button>
             </div>
         `;
 
@@ -501,9 +669,43 @@ class DataGuardPopup {
         if (footer && footer.parentNode) {
             footer.parentNode.insertBefore(resultsSection, footer);
         }
+
+        resultsSection.querySelector('.prove-btn')?.addEventListener('click', () => {
+            this.generateProof(predicateType, policy);
+        });
+    }
+
+    async generateProof(predicateType: string, policy: any) {
+        this.showNotification(`Generating ${predicateType} proof...`);
+
+        try {
+            const response = await this.sendMessage({
+                type: 'GENERATE_PROOF',
+                data: {
+                    predicate: {
+                        type: predicateType,
+                        maxAge: policy.maxEmailAge,
+                        minCount: 1
+                    },
+                    // The popup is its own requester
+                    nonce: crypto.randomUUID(),
+                    audience: new URL(chrome.runtime.getURL('')).origin
+                }
+            }) as any;
+
+            if (!response.success) {
+                throw new Error(response.message || response.error || 'Failed to generate proof');
+            }
+
+            this.displayProofResult(response.proof);
+            this.showNotification('Proof generated');
+        } catch (error: any) {
+            console.error('Proof generation failed:', error);
+            this.showNotification(`Proof failed: ${error.message}`, 'error');
+        }
     }
 
-    displayProofResult(proof: any, emailData: any) {
+    displayProofResult(proof: any) {
         if (this.proofResult) {
             this.proofResult.innerHTML = `
             <div class="proof-item">
@@ -511,17 +713,25 @@ class DataGuardPopup {
                 <div class="proof-value">${proof.predicate.type}</div>
             </div>
             <div class="proof-item">
-                <div class="proof-label">Email Count:</div>
-                <div class="proof-value">${proof.emailCount}</div>
+                <div class="proof-label">Statement:</div>
+                <div class="proof-value">At least ${proof.threshold} matching emails in the last ${proof.window.days} days</div>
             </div>
             <div class="proof-item">
-                <div class="proof-label">Proof:</div>
-                <div class="proof-value">${proof.proof.substring(0, 50)}...</div>
+                <div class="proof-label">Inbox Commitment:</div>
+                <div class="proof-value">${proof.commitment.substring(0, 24)}...</div>
+            </div>
+            <div class="proof-item">
+                <div class="proof-label">Proof (${proof.proof.protocol}/${proof.proof.curve}):</div>
+                <div class="proof-value">${proof.proof.pi_a[0].substring(0, 50)}...</div>
             </div>
             <div class="proof-item">
                 <div class="proof-label">Public Signals:</div>
                 <div class="proof-value">${proof.publicSignals.join(', ')}</div>
             </div>
+            <div class="proof-item">
+                <div class="proof-label">Bound To:</div>
+                <div class="proof-value">${proof.binding.audience} (nonce ${proof.binding.nonce.substring(0, 8)}..., expires ${new Date(proof.binding.expiresAt).toLocaleTimeString()})</div>
+            </div>
             <div class="proof-item">
                 <div class="proof-label">Timestamp:</div>
                 <div class="proof-value">${new Date(proof.timestamp).toLocaleString()}</div>
@@ -572,7 +782,7 @@ class DataGuardPopup {
                 <div class="request-item">
                     <strong>${request.predicate.type}</strong> - ${request.timestamp}
                     <br>
-                    <small>${request.emailCount} emails found</small>
+                    <small>${request.mode === 'answer' ? 'Answer only, no emails shared' : `${request.emailCount} emails found`}</small>
                 </div>
             `).join('');
             }
@@ -581,6 +791,348 @@ class DataGuardPopup {
         }
     }
 
+    async loadRequesters() {
+        try {
+            const response = await this.sendMessage({ type: 'GET_REQUESTERS' }) as any;
+            if (!response.success) {
+                throw new Error(response.error || 'Failed to load requesters');
+            }
+
+            this.renderRequesters(response.requesters);
+        } catch (error) {
+            console.error('Failed to load requesters:', error);
+        }
+    }
+
+    renderRequesters(requesters: RequesterProfile[]) {
+        if (!this.requestersList) return;
+
+        this.requestersList.replaceChildren();
+        const predicates = predicateRegistry.list().map(definition => ({
+            id: definition.id,
+            title: definition.title,
+            policyPrice: this.predicateCards.get(definition.id)?.getConfig().price ?? definition.defaultPrice
+        }));
+
+        requesters.forEach(requester => {
+            createRequesterCard(
+                this.requestersList!,
+                requester,
+                predicates,
+                (id, changes) => this.updateRequester(id, changes),
+                id => this.removeRequester(id)
+            );
+        });
+    }
+
+    async addRequester() {
+        const source = this.requesterSource?.value?.trim();
+        if (!source) return;
+
+        // A bare origin registers that origin; a URL with a path is a manifest to fetch and verify
+        let data: { origin?: string; manifestUrl?: string };
+        try {
+            data = new URL(source).pathname === '/' ? { origin: source } : { manifestUrl: source };
+        } catch {
+            this.showNotification('Enter an origin such as https://app.example or a manifest URL', 'error');
+            return;
+        }
+
+        const response = await this.sendMessage({ type: 'ADD_REQUESTER', data }) as any;
+        if (!response.success) {
+            this.showNotification(`Could not add requester: ${response.error}`, 'error');
+            return;
+        }
+
+        if (this.requesterSource) this.requesterSource.value = '';
+        this.showNotification(`Added ${response.requester.name}`);
+        this.loadRequesters();
+    }
+
+    async updateRequester(id: string, changes: RequesterCardChanges) {
+        const response = await this.sendMessage({ type: 'UPDATE_REQUESTER', data: { id, changes } }) as any;
+        if (!response.success) {
+            this.showNotification(`Could not update requester: ${response.error}`, 'error');
+            this.loadRequesters();
+            return;
+        }
+
+        this.showNotification(`Updated ${response.requester.name}`);
+    }
+
+    async removeRequester(id: string) {
+        const response = await this.sendMessage({ type: 'REMOVE_REQUESTER', data: { id } }) as any;
+        if (!response.success) {
+            this.showNotification(`Could not remove requester: ${response.error}`, 'error');
+            return;
+        }
+
+        this.loadRequesters();
+    }
+
+    async loadInterceptRules() {
+        try {
+            const response = await this.sendMessage({ type: 'GET_INTERCEPT_RULES' }) as any;
+            if (!response.success) {
+                throw new Error(response.error || 'Failed to load interception rules');
+            }
+
+            this.renderInterceptRules(response.rules);
+        } catch (error) {
+            console.error('Failed to load interception rules:', error);
+        }
+    }
+
+    renderInterceptRules(rules: InterceptRule[]) {
+        if (!this.interceptRulesList) return;
+
+        this.interceptRulesList.replaceChildren();
+        if (rules.length === 0) {
+            const empty = document.createElement('p');
+            empty.className = 'no-requests';
+            empty.textContent = 'No rules: pages reach mail APIs directly';
+            this.interceptRulesList.appendChild(empty);
+            return;
+        }
+
+        rules.forEach(rule => {
+            createInterceptRuleCard(
+                this.interceptRulesList!,
+                rule,
+                (id, changes) => this.updateInterceptRule(id, changes),
+                id => this.removeInterceptRule(id)
+            );
+        });
+    }
+
+    async addInterceptRule() {
+        const host = this.interceptRuleHost?.value?.trim();
+        const pathPattern = this.interceptRulePath?.value?.trim();
+        if (!host || !pathPattern) return;
+
+        const rule = {
+            name: this.interceptRuleName?.value?.trim() || host,
+            enabled: true,
+            host,
+            pathPattern
+        };
+        const response = await this.sendMessage({ type: 'ADD_INTERCEPT_RULE', data: { rule } }) as any;
+        if (!response.success) {
+            this.showNotification(`Could not add rule: ${response.error}`, 'error');
+            return;
+        }
+
+        [this.interceptRuleName, this.interceptRuleHost, this.interceptRulePath].forEach(input => {
+            if (input) input.value = '';
+        });
+        this.showNotification(`Added ${response.rule.name}`);
+        this.loadInterceptRules();
+    }
+
+    async updateInterceptRule(id: string, changes: InterceptRuleCardChanges) {
+        const response = await this.sendMessage({ type: 'UPDATE_INTERCEPT_RULE', data: { id, changes } }) as any;
+        if (!response.success) {
+            this.showNotification(`Could not update rule: ${response.error}`, 'error');
+            this.loadInterceptRules();
+            return;
+        }
+
+        this.showNotification(`Updated ${response.rule.name}`);
+    }
+
+    async removeInterceptRule(id: string) {
+        const response = await this.sendMessage({ type: 'REMOVE_INTERCEPT_RULE', data: { id } }) as any;
+        if (!response.success) {
+            this.showNotification(`Could not remove rule: ${response.error}`, 'error');
+            return;
+        }
+
+        this.loadInterceptRules();
+    }
+
+    async loadConsentGrants() {
+        try {
+            const response = await this.sendMessage({ type: 'GET_CONSENT_GRANTS' }) as any;
+            if (!response.success) {
+                throw new Error(response.error || 'Failed to load remembered decisions');
+            }
+
+            this.renderConsentGrants(response.grants);
+        } catch (error) {
+            console.error('Failed to load consent grants:', error);
+        }
+    }
+
+    renderConsentGrants(grants: ConsentGrant[]) {
+        if (!this.consentList) return;
+
+        this.consentList.replaceChildren();
+        if (grants.length === 0) {
+            const empty = document.createElement('p');
+            empty.className = 'no-requests';
+            empty.textContent = 'No remembered decisions';
+            this.consentList.appendChild(empty);
+            return;
+        }
+
+        // Built with textContent: origins come from web pages
+        grants.forEach(grant => {
+            const row = document.createElement('div');
+            row.className = `consent-row consent-${grant.decision}`;
+
+            const details = document.createElement('div');
+            details.className = 'consent-details';
+            const origin = document.createElement('strong');
+            origin.className = 'consent-origin';
+            origin.textContent = grant.origin;
+            const scope = document.createElement('span');
+            const predicate = grant.predicateType
+                ? predicateRegistry.get(grant.predicateType)?.title || grant.predicateType
+                : 'all data';
+            const limits = [
+                grant.maxAge !== undefined ? ` up to ${grant.maxAge} days back` : '',
+                grant.mode === 'answer' && !grant.scope?.booleanOnly ? ', answers only' : '',
+                grant.scope?.maxEmails !== undefined ? `, at most ${grant.scope.maxEmails} emails` : '',
+                grant.scope?.booleanOnly ? ', yes/no answers only' : '',
+                grant.maxPrice !== undefined ? `, up to $${grant.maxPrice}` : ''
+            ].join('');
+            scope.textContent = grant.decision === 'allow'
+                ? `Allow ${predicate}${limits}`
+                : `Deny ${predicate} without asking`;
+            const expiry = document.createElement('small');
+            expiry.textContent = grant.expiresAt
+                ? `Until ${new Date(grant.expiresAt).toLocaleString()}`
+                : 'Until revoked';
+            details.append(origin, scope, expiry);
+
+            const revoke = document.createElement('button');
+            revoke.className = 'requester-remove';
+            revoke.textContent = 'Revoke';
+            revoke.addEventListener('click', () => this.revokeConsentGrant(grant.id));
+
+            row.append(details, revoke);
+            this.consentList!.appendChild(row);
+        });
+    }
+
+    async revokeConsentGrant(id: string) {
+        const response = await this.sendMessage({ type: 'REVOKE_CONSENT_GRANT', data: { id } }) as any;
+        if (!response.success) {
+            this.showNotification(`Could not revoke decision: ${response.error}`, 'error');
+            return;
+        }
+
+        this.showNotification('Decision revoked');
+        this.loadConsentGrants();
+    }
+
+    async loadEarnings() {
+        try {
+            const response = await this.sendMessage({
+                type: 'GET_EARNINGS',
+                data: { period: this.earningsPeriod?.value || 'day' }
+            }) as any;
+
+            if (!response.success) {
+                throw new Error(response.error || 'Failed to load earnings');
+            }
+
+            this.renderEarnings(response.summary);
+            this.renderRecentPayments(response.recent);
+        } catch (error) {
+            console.error('Failed to load earnings:', error);
+            if (this.earningsTotal) this.earningsTotal.textContent = 'Earnings unavailable';
+        }
+    }
+
+    renderEarnings(summary: EarningsSummary) {
+        if (this.earningsTotal) {
+            this.earningsTotal.textContent = summary.total.count === 0
+                ? 'No settled payments yet'
+                : `${this.formatUsdc(summary.total.amount)} from ${summary.total.count} payment${summary.total.count === 1 ? '' : 's'}`;
+        }
+
+        if (!this.earningsBreakdown) return;
+        this.earningsBreakdown.replaceChildren();
+        if (summary.total.count === 0) return;
+
+        this.earningsBreakdown.append(
+            this.createEarningsGroup(`By ${summary.period}`, summary.byPeriod),
+            this.createEarningsGroup('By requester', summary.byRequester),
+            this.createEarningsGroup('By predicate', summary.byPredicate.map(total => ({
+                ...total,
+                key: predicateRegistry.get(total.key)?.title || total.key
+            })))
+        );
+    }
+
+    renderRecentPayments(payments: PaymentRecord[]) {
+        if (!this.paymentsList) return;
+
+        this.paymentsList.replaceChildren();
+        payments.slice(0, RECENT_PAYMENT_CARDS).forEach(payment => {
+            createPaymentStatusCard(this.paymentsList!, paymentStatusFromRecord(payment));
+        });
+    }
+
+    createEarningsGroup(title: string, totals: EarningsTotal[]): HTMLElement {
+        // Built with textContent: requester ids come from web pages
+        const group = document.createElement('div');
+        group.className = 'earnings-group';
+
+        const heading = document.createElement('h4');
+        heading.textContent = title;
+        group.appendChild(heading);
+
+        totals.forEach(total => {
+            const row = document.createElement('div');
+            row.className = 'earnings-row';
+
+            const key = document.createElement('span');
+            key.className = 'earnings-key';
+            key.textContent = total.key;
+            key.title = total.key;
+
+            const amount = document.createElement('span');
+            amount.className = 'earnings-amount';
+            amount.textContent = `${this.formatUsdc(total.amount)} (${total.count})`;
+
+            row.append(key, amount);
+            group.appendChild(row);
+        });
+
+        return group;
+    }
+
+    async exportEarnings(format: 'csv' | 'json') {
+        try {
+            const response = await this.sendMessage({
+                type: 'EXPORT_EARNINGS',
+                data: { format }
+            }) as any;
+
+            if (!response.success) {
+                throw new Error(response.error || 'Export failed');
+            }
+
+            const url = URL.createObjectURL(new Blob([response.content], { type: response.mimeType }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = response.filename;
+            link.click();
+            setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+            this.showNotification(`Exported earnings as ${format.toUpperCase()}`);
+        } catch (error: any) {
+            console.error('Failed to export earnings:', error);
+            this.showNotification(`Export failed: ${error.message}`, 'error');
+        }
+    }
+
+    formatUsdc(amount: number): string {
+        return `$${amount.toFixed(3)} USDC`;
+    }
+
     showNotification(message: string, type = 'success') {
         // Create notification element
         const notification = document.createElement('div');
@@ -0,0 +1,88 @@
+// One-time approvals outside the browser, over an in-memory chrome.storage.session
+
+import { beforeEach, describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { APPROVAL_TICKET_TTL_SECONDS, ApprovalTickets } from '../src/consent/approval-tickets.js';
+import { DataGuardRequestError } from '../src/errors/dataguard-error.js';
+
+const SHOP = 'https://shop.example';
+const OTHER = 'https://other.example';
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+
+function stubSessionStorage() {
+    let stored: Record<string, unknown> = {};
+    (globalThis as { chrome?: unknown }).chrome = {
+        storage: {
+            session: {
+                async get(keys: string[]) {
+                    return Object.fromEntries(keys.filter(key => key in stored).map(key => [key, structuredClone(stored[key])]));
+                },
+                async set(items: Record<string, unknown>) {
+                    stored = { ...stored, ...structuredClone(items) };
+                }
+            }
+        }
+    };
+}
+
+// The error reason a rejected promise carries
+async function reasonOf(promise: Promise<unknown>): Promise<string> {
+    const error = await promise.then(() => undefined, (caught: unknown) => caught);
+    assert.ok(error instanceof DataGuardRequestError, 'Expected the call to be refused');
+    return error.body.reason;
+}
+
+describe('ApprovalTickets', () => {
+    let tickets: ApprovalTickets;
+
+    beforeEach(() => {
+        stubSessionStorage();
+        tickets = new ApprovalTickets();
+    });
+
+    function issue() {
+        return tickets.issue({ origin: SHOP, predicate: { type: 'delivery', maxAge: 30 }, mode: 'answer' }, NOW);
+    }
+
+    it('redeems an approval once', async () => {
+        const ticket = await issue();
+
+        const used = await tickets.consume(ticket.id, SHOP, 'answer', NOW);
+        assert.deepEqual(used, ticket);
+        assert.equal(await reasonOf(tickets.consume(ticket.id, SHOP, 'answer', NOW)), 'approval_missing');
+    });
+
+    it('redeems an approval once when two releases race for it', async () => {
+        const ticket = await issue();
+
+        const results = await Promise.allSettled([
+            tickets.consume(ticket.id, SHOP, 'answer', NOW),
+            tickets.consume(ticket.id, SHOP, 'answer', NOW)
+        ]);
+
+        assert.deepEqual(results.map(result => result.status), ['fulfilled', 'rejected']);
+    });
+
+    it('does not let another page redeem an approval', async () => {
+        const ticket = await issue();
+
+        assert.equal(await reasonOf(tickets.consume(ticket.id, OTHER, 'answer', NOW)), 'approval_missing');
+
+        // Still there for its own page
+        await tickets.consume(ticket.id, SHOP, 'answer', NOW);
+    });
+
+    it('uses up an approval redeemed for another mode', async () => {
+        const ticket = await issue();
+
+        assert.equal(await reasonOf(tickets.consume(ticket.id, SHOP, 'emails', NOW)), 'approval_mismatch');
+        assert.equal(await reasonOf(tickets.consume(ticket.id, SHOP, 'answer', NOW)), 'approval_missing');
+    });
+
+    it('rejects an approval after its time to live and a missing one', async () => {
+        const ticket = await issue();
+
+        assert.equal(await reasonOf(tickets.consume(ticket.id, SHOP, 'answer', NOW + APPROVAL_TICKET_TTL_SECONDS * 1000)), 'approval_missing');
+        assert.equal(await reasonOf(tickets.consume(undefined, SHOP, 'answer', NOW)), 'approval_missing');
+    });
+});
@@ -0,0 +1,25 @@
+// Sender matching of the built-in predicates
+
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { financialPredicate } from '../src/predicates/builtin-predicates.js';
+import { EmailData } from '../src/types/index.js';
+
+function emailFrom(sender: string): EmailData {
+    return { id: '1', subject: 'Hello', sender, date: '2026-01-01T12:00:00Z', body: '', type: 'general' };
+}
+
+describe('financialPredicate', () => {
+    it('matches banks by a word of the sender', () => {
+        assert.equal(financialPredicate.matches(emailFrom('alerts@chase.com')), true);
+        assert.equal(financialPredicate.matches(emailFrom('estatements@hdfcbank.com')), true);
+        assert.equal(financialPredicate.matches(emailFrom('Citi <no-reply@citi.com>')), true);
+        assert.equal(financialPredicate.matches(emailFrom('payroll@acmecorp.com')), true);
+    });
+
+    it('does not match a bank name inside another word', () => {
+        assert.equal(financialPredicate.matches(emailFrom('purchase@shop.example')), false);
+        assert.equal(financialPredicate.matches(emailFrom('hello@citizen.example')), false);
+        assert.equal(financialPredicate.matches(emailFrom('news@bankruptcy-weekly.example')), false);
+    });
+});
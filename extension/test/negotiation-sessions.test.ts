@@ -0,0 +1,116 @@
+// Negotiation sessions outside the browser, over an in-memory chrome.storage.session
+
+import { beforeEach, describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { MAX_NEGOTIATION_ROUNDS, NegotiationSessions } from '../src/agents/negotiation-sessions.js';
+import { PolicyAgent } from '../src/agents/policy-agent.js';
+import { DataGuardRequestError } from '../src/errors/dataguard-error.js';
+import { getDefaultPolicy } from '../src/policy/policy-store.js';
+import { Policy } from '../src/types/index.js';
+
+const SHOP = 'https://shop.example';
+const OTHER = 'https://other.example';
+
+function stubSessionStorage() {
+    let stored: Record<string, unknown> = {};
+    (globalThis as { chrome?: unknown }).chrome = {
+        storage: {
+            session: {
+                async get(keys: string[]) {
+                    return Object.fromEntries(keys.filter(key => key in stored).map(key => [key, structuredClone(stored[key])]));
+                },
+                async set(items: Record<string, unknown>) {
+                    stored = { ...stored, ...structuredClone(items) };
+                }
+            }
+        }
+    };
+}
+
+function pricedPolicy(): Policy {
+    return { ...getDefaultPolicy(), walletAddress: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' };
+}
+
+// The error reason a rejected promise carries
+async function reasonOf(promise: Promise<unknown>): Promise<string> {
+    const error = await promise.then(() => undefined, (caught: unknown) => caught);
+    assert.ok(error instanceof DataGuardRequestError, 'Expected the call to be refused');
+    return error.body.reason;
+}
+
+describe('NegotiationSessions', () => {
+    let sessions: NegotiationSessions;
+    let policy: Policy;
+
+    beforeEach(() => {
+        stubSessionStorage();
+        sessions = new NegotiationSessions(new PolicyAgent());
+        policy = pricedPolicy();
+    });
+
+    it('counters an offer below the asking price and agrees when the counter is accepted', async () => {
+        const opened = await sessions.open(SHOP, 'delivery', 'answer', { price: 0 }, policy);
+
+        assert.equal(opened.status, 'open');
+        assert.ok(opened.counterOffer!.price > 0);
+
+        const accepted = await sessions.accept(opened.id, SHOP);
+        assert.equal(accepted.status, 'agreed');
+        assert.equal(accepted.agreed!.price, opened.counterOffer!.price);
+    });
+
+    it('releases agreed terms once', async () => {
+        const opened = await sessions.open(SHOP, 'delivery', 'answer', { price: 0 }, policy);
+        await sessions.accept(opened.id, SHOP);
+
+        const quoted = await sessions.agreedTerms(opened.id, SHOP, 'delivery', 'answer');
+        const used = await sessions.consume(opened.id, SHOP, 'delivery', 'answer');
+
+        assert.deepEqual(used, quoted);
+        assert.equal(await reasonOf(sessions.consume(opened.id, SHOP, 'delivery', 'answer')), 'negotiation_used');
+        assert.equal(await reasonOf(sessions.agreedTerms(opened.id, SHOP, 'delivery', 'answer')), 'negotiation_used');
+    });
+
+    it('releases agreed terms once when two requests race for them', async () => {
+        const opened = await sessions.open(SHOP, 'delivery', 'answer', { price: 0 }, policy);
+        await sessions.accept(opened.id, SHOP);
+
+        const results = await Promise.allSettled([
+            sessions.consume(opened.id, SHOP, 'delivery', 'answer'),
+            sessions.consume(opened.id, SHOP, 'delivery', 'answer')
+        ]);
+
+        assert.deepEqual(results.map(result => result.status), ['fulfilled', 'rejected']);
+    });
+
+    it('hides a session from other parties', async () => {
+        const opened = await sessions.open(SHOP, 'delivery', 'answer', { price: 0 }, policy);
+        await sessions.accept(opened.id, SHOP);
+
+        assert.equal(await reasonOf(sessions.consume(opened.id, OTHER, 'delivery', 'answer')), 'negotiation_not_found');
+        assert.equal(await reasonOf(sessions.offer(opened.id, OTHER, { price: 1 }, policy)), 'negotiation_not_found');
+
+        // Still there for its own party
+        await sessions.consume(opened.id, SHOP, 'delivery', 'answer');
+    });
+
+    it('does not apply agreed terms to another predicate or mode', async () => {
+        const opened = await sessions.open(SHOP, 'delivery', 'answer', { price: 0 }, policy);
+        await sessions.accept(opened.id, SHOP);
+
+        assert.equal(await reasonOf(sessions.consume(opened.id, SHOP, 'delivery', 'emails')), 'negotiation_mismatch');
+        assert.equal(await reasonOf(sessions.consume(opened.id, SHOP, 'subscription', 'answer')), 'negotiation_mismatch');
+    });
+
+    it('rejects offers after the last round', async () => {
+        let session = await sessions.open(SHOP, 'delivery', 'answer', { price: 0 }, policy);
+        while (session.round < MAX_NEGOTIATION_ROUNDS) {
+            session = await sessions.offer(session.id, SHOP, { price: 0 }, policy);
+        }
+        assert.equal(session.counterOffer!.final, true);
+
+        session = await sessions.offer(session.id, SHOP, { price: 0 }, policy);
+        assert.equal(session.status, 'rejected');
+        assert.equal(await reasonOf(sessions.accept(session.id, SHOP)), 'negotiation_closed');
+    });
+});
@@ -29,6 +29,8 @@ app.get('/api/emails', (req, res) => {
         emails = getEmailsByType('delivery');
     } else if (type === 'purchase') {
         emails = getEmailsByType('purchase');
+    } else if (type === 'financial') {
+        emails = getEmailsByType('financial');
     } else if (type === 'unread') {
         emails = getUnreadEmails();
     }
@@ -5,7 +5,7 @@ export interface Email {
   subject: string;
   body: string;
   timestamp: string;
-  type: 'subscription' | 'delivery' | 'purchase' | 'general';
+  type: 'subscription' | 'delivery' | 'purchase' | 'financial' | 'general';
   isRead: boolean;
 }
 
@@ -165,6 +165,38 @@ export const sampleEmails: Email[] = [
     type: 'purchase',
     isRead: false
   },
+
+  // Financial emails
+  {
+    id: '16',
+    from: 'estatements@hdfcbank.com',
+    to: 'user@example.com',
+    subject: 'Your account statement for December 2023',
+    body: 'Your statement for savings account XXXX4521 is ready. Closing balance: INR 84,312.50. Log in to net banking to download.',
+    timestamp: '2024-01-04T08:00:00Z',
+    type: 'financial',
+    isRead: false
+  },
+  {
+    id: '17',
+    from: 'payroll@acmecorp.com',
+    to: 'user@example.com',
+    subject: 'Salary slip for December 2023',
+    body: 'Your salary of $4,250.00 has been credited to account ending 7788. Your payslip is attached.',
+    timestamp: '2024-01-03T10:30:00Z',
+    type: 'financial',
+    isRead: true
+  },
+  {
+    id: '18',
+    from: 'alerts@chase.com',
+    to: 'user@example.com',
+    subject: 'Credit card transaction alert',
+    body: 'A transaction of $249.00 was made on your credit card ending in 3104 at APPLE STORE.',
+    timestamp: '2024-01-05T14:02:00Z',
+    type: 'financial',
+    isRead: false
+  },
 ];
 
 export const getEmailsByType = (type: Email['type']): Email[] => {
@@ -175,6 +207,6 @@ export const getUnreadEmails = (): Email[] => {
   return sampleEmails.filter(email => !email.isRead);
 };
 
-export const getEmailsByPredicate = (predicate: 'subscription' | 'delivery' | 'purchase'): Email[] => {
+export const getEmailsByPredicate = (predicate: 'subscription' | 'delivery' | 'purchase' | 'financial'): Email[] => {
   return sampleEmails.filter(email => email.type === predicate);
 };
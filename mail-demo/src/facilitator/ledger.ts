@@ -0,0 +1,226 @@
+import { createHash } from 'crypto';
+import { verifyTypedData, type Address, type Hex } from 'viem';
+
+// x402 "exact" scheme on EVM: an EIP-3009 transferWithAuthorization
+export interface PaymentRequirements {
+  scheme: 'exact';
+  network: string;
+  maxAmountRequired: string;
+  resource: string;
+  description: string;
+  mimeType: string;
+  payTo: string;
+  maxTimeoutSeconds: number;
+  asset: string;
+  extra?: { name: string; version: string };
+}
+
+export interface PaymentPayload {
+  x402Version: number;
+  scheme: 'exact';
+  network: string;
+  payload: {
+    signature: string;
+    authorization: {
+      from: string;
+      to: string;
+      value: string;
+      validAfter: string;
+      validBefore: string;
+      nonce: string;
+    };
+  };
+}
+
+export interface Settlement {
+  transaction: string;
+  network: string;
+  payer: string;
+  payTo: string;
+  value: string;
+  asset: string;
+  settledAt: string;
+  refundTransaction?: string;
+}
+
+// Chain ids for the EIP-712 domain of each network's USDC contract
+export const CHAIN_IDS: Record<string, number> = {
+  'polygon': 137,
+  'polygon-amoy': 80002,
+  'base': 8453,
+  'base-sepolia': 84532,
+  'devnet': 31337
+};
+
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' }
+  ]
+} as const;
+
+/**
+ * In-memory stand-in for the USDC contract: balances, used authorization nonces and settlements.
+ * Transaction hashes are derived from the authorization, so the same payment always settles to the same hash.
+ */
+export class FacilitatorLedger {
+  private balances = new Map<string, bigint>();
+  private usedNonces = new Set<string>();
+  private settlements: Settlement[] = [];
+
+  fund(address: string, amount: bigint) {
+    const key = address.toLowerCase();
+    this.balances.set(key, this.balanceOf(key) + amount);
+  }
+
+  balanceOf(address: string): bigint {
+    return this.balances.get(address.toLowerCase()) ?? 0n;
+  }
+
+  /**
+   * Why the payment cannot be settled, or null if it can
+   */
+  async check(payment: PaymentPayload, requirements: PaymentRequirements, now: Date = new Date()): Promise<string | null> {
+    const authorization = payment?.payload?.authorization;
+    if (!authorization || !payment.payload.signature) {
+      return 'invalid_payload';
+    }
+
+    const amounts = [authorization.value, authorization.validAfter, authorization.validBefore];
+    if (!amounts.every(amount => /^\d+$/.test(String(amount)))) {
+      return 'invalid_payload';
+    }
+
+    if (payment.scheme !== requirements.scheme || payment.network !== requirements.network) {
+      return 'unsupported_scheme';
+    }
+
+    const chainId = CHAIN_IDS[requirements.network];
+    if (!chainId) {
+      return 'invalid_network';
+    }
+
+    if (authorization.to.toLowerCase() !== requirements.payTo.toLowerCase()) {
+      return 'invalid_exact_evm_payload_recipient_mismatch';
+    }
+
+    const value = BigInt(authorization.value);
+    if (value < BigInt(requirements.maxAmountRequired)) {
+      return 'invalid_exact_evm_payload_authorization_value';
+    }
+
+    const nowSeconds = BigInt(Math.floor(now.getTime() / 1000));
+    if (BigInt(authorization.validAfter) > nowSeconds) {
+      return 'invalid_exact_evm_payload_authorization_valid_after';
+    }
+    if (BigInt(authorization.validBefore) <= nowSeconds) {
+      return 'invalid_exact_evm_payload_authorization_valid_before';
+    }
+
+    const signed = await verifyTypedData({
+      address: authorization.from as Address,
+      domain: {
+        name: requirements.extra?.name ?? 'USD Coin',
+        version: requirements.extra?.version ?? '2',
+        chainId,
+        verifyingContract: requirements.asset as Address
+      },
+      types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+      primaryType: 'TransferWithAuthorization',
+      message: {
+        from: authorization.from as Address,
+        to: authorization.to as Address,
+        value,
+        validAfter: BigInt(authorization.validAfter),
+        validBefore: BigInt(authorization.validBefore),
+        nonce: authorization.nonce as Hex
+      },
+      signature: payment.payload.signature as Hex
+    }).catch(() => false);
+
+    if (!signed) {
+      return 'invalid_exact_evm_payload_signature';
+    }
+
+    if (this.usedNonces.has(this.nonceKey(payment, requirements))) {
+      return 'invalid_exact_evm_payload_authorization_nonce_used';
+    }
+
+    if (this.balanceOf(authorization.from) < value) {
+      return 'insufficient_funds';
+    }
+
+    return null;
+  }
+
+  /**
+   * Move the funds and burn the authorization nonce
+   */
+  async settle(payment: PaymentPayload, requirements: PaymentRequirements, now: Date = new Date()): Promise<Settlement> {
+    const reason = await this.check(payment, requirements, now);
+    if (reason) {
+      throw new Error(reason);
+    }
+
+    const { from, to, value } = payment.payload.authorization;
+    const nonceKey = this.nonceKey(payment, requirements);
+
+    this.usedNonces.add(nonceKey);
+    this.balances.set(from.toLowerCase(), this.balanceOf(from) - BigInt(value));
+    this.fund(to, BigInt(value));
+
+    const settlement: Settlement = {
+      transaction: '0x' + createHash('sha256').update(nonceKey).digest('hex'),
+      network: requirements.network,
+      payer: from,
+      payTo: to,
+      value,
+      asset: requirements.asset,
+      settledAt: now.toISOString()
+    };
+    this.settlements.push(settlement);
+
+    return settlement;
+  }
+
+  /**
+   * Send a settlement back from the payee to the payer; each settlement can be refunded once
+   */
+  refund(transaction: string): Settlement {
+    const settlement = this.settlements.find(candidate => candidate.transaction === transaction);
+    if (!settlement) {
+      throw new Error('unknown_transaction');
+    }
+    if (settlement.refundTransaction) {
+      throw new Error('already_refunded');
+    }
+
+    const value = BigInt(settlement.value);
+    if (this.balanceOf(settlement.payTo) < value) {
+      throw new Error('insufficient_funds');
+    }
+
+    this.balances.set(settlement.payTo.toLowerCase(), this.balanceOf(settlement.payTo) - value);
+    this.fund(settlement.payer, value);
+    settlement.refundTransaction = '0x' + createHash('sha256').update(`refund:${transaction}`).digest('hex');
+
+    return settlement;
+  }
+
+  snapshot() {
+    return {
+      balances: Object.fromEntries([...this.balances].map(([address, amount]) => [address, amount.toString()])),
+      settlements: this.settlements
+    };
+  }
+
+  // EIP-3009 nonces are unique per payer and token contract
+  private nonceKey(payment: PaymentPayload, requirements: PaymentRequirements): string {
+    const { from, nonce } = payment.payload.authorization;
+    return `${requirements.network}:${requirements.asset}:${from}:${nonce}`.toLowerCase();
+  }
+}
@@ -0,0 +1,130 @@
+import express from 'express';
+import { FacilitatorLedger, CHAIN_IDS, type PaymentPayload, type PaymentRequirements } from './ledger.js';
+
+// Local x402 facilitator for offline testing: /verify and /settle against an in-memory ledger
+const app = express();
+const PORT = process.env.FACILITATOR_PORT || 3402;
+
+// Well-known development account (Hardhat/Anvil #0), funded so payments work out of the box
+const DEMO_PAYER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const DEMO_PAYER_BALANCE = 100_000_000n; // 100 USDC
+
+const ledger = new FacilitatorLedger();
+ledger.fund(DEMO_PAYER, DEMO_PAYER_BALANCE);
+
+app.use((req, res, next) => {
+  res.header('Access-Control-Allow-Origin', '*');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.sendStatus(200);
+  } else {
+    next();
+  }
+});
+
+app.use(express.json({ limit: '100kb' }));
+
+function readBody(body: any): { payment: PaymentPayload; requirements: PaymentRequirements } | null {
+  if (!body?.paymentPayload || !body?.paymentRequirements) {
+    return null;
+  }
+  return { payment: body.paymentPayload, requirements: body.paymentRequirements };
+}
+
+app.get('/supported', (req, res) => {
+  res.json({
+    kinds: Object.keys(CHAIN_IDS).map(network => ({ x402Version: 1, scheme: 'exact', network }))
+  });
+});
+
+app.post('/verify', async (req, res) => {
+  const request = readBody(req.body);
+  if (!request) {
+    res.status(400).json({ isValid: false, invalidReason: 'invalid_payload' });
+    return;
+  }
+
+  const invalidReason = await ledger.check(request.payment, request.requirements);
+  res.json({
+    isValid: !invalidReason,
+    ...(invalidReason ? { invalidReason } : {}),
+    payer: request.payment.payload?.authorization?.from
+  });
+});
+
+app.post('/settle', async (req, res) => {
+  const request = readBody(req.body);
+  if (!request) {
+    res.status(400).json({ success: false, errorReason: 'invalid_payload', transaction: '', network: '' });
+    return;
+  }
+
+  try {
+    const settlement = await ledger.settle(request.payment, request.requirements);
+    console.log(`💸 Settled ${settlement.value} from ${settlement.payer} to ${settlement.payTo}: ${settlement.transaction}`);
+    res.json({
+      success: true,
+      transaction: settlement.transaction,
+      network: settlement.network,
+      payer: settlement.payer
+    });
+  } catch (error) {
+    res.json({
+      success: false,
+      errorReason: error instanceof Error ? error.message : String(error),
+      transaction: '',
+      network: request.requirements.network,
+      payer: request.payment.payload?.authorization?.from
+    });
+  }
+});
+
+// Not part of x402: lets DataGuard return a settled payment whose data was never delivered
+app.post('/refund', (req, res) => {
+  const transaction = req.body?.transaction;
+  if (typeof transaction !== 'string') {
+    res.status(400).json({ success: false, errorReason: 'invalid_payload', transaction: '', network: '' });
+    return;
+  }
+
+  try {
+    const settlement = ledger.refund(transaction);
+    console.log(`↩️  Refunded ${settlement.value} from ${settlement.payTo} to ${settlement.payer}: ${settlement.refundTransaction}`);
+    res.json({
+      success: true,
+      transaction: settlement.refundTransaction,
+      network: settlement.network
+    });
+  } catch (error) {
+    res.json({
+      success: false,
+      errorReason: error instanceof Error ? error.message : String(error),
+      transaction: '',
+      network: req.body?.paymentRequirements?.network || ''
+    });
+  }
+});
+
+// Test helpers: inspect the ledger and fund payers
+app.get('/ledger', (req, res) => {
+  res.json(ledger.snapshot());
+});
+
+app.post('/fund', (req, res) => {
+  const { address, amount } = req.body || {};
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address) || !/^\d+$/.test(String(amount))) {
+    res.status(400).json({ error: 'address and amount (atomic units) are required' });
+    return;
+  }
+
+  ledger.fund(address, BigInt(amount));
+  res.json({ address, balance: ledger.balanceOf(address).toString() });
+});
+
+app.listen(PORT, () => {
+  console.log(`🏦 Local x402 facilitator running at http://localhost:${PORT}`);
+  console.log(`🔗 POST /verify, POST /settle, POST /refund, GET /supported, GET /ledger, POST /fund`);
+  console.log(`💰 Demo payer ${DEMO_PAYER} funded with ${DEMO_PAYER_BALANCE} atomic USDC`);
+});
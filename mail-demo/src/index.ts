@@ -5,7 +5,7 @@ interface Email {
     subject: string;
     body: string;
     timestamp: string;
-    type: 'subscription' | 'delivery' | 'purchase';
+    type: 'subscription' | 'delivery' | 'purchase' | 'financial' | 'general';
     isRead: boolean;
 }
 
@@ -49,6 +49,7 @@ class EmailServiceDemo {
         document.getElementById('subscription-emails')?.addEventListener('click', () => this.filterEmails('subscription'));
         document.getElementById('delivery-emails')?.addEventListener('click', () => this.filterEmails('delivery'));
         document.getElementById('purchase-emails')?.addEventListener('click', () => this.filterEmails('purchase'));
+        document.getElementById('financial-emails')?.addEventListener('click', () => this.filterEmails('financial'));
         document.getElementById('unread-emails')?.addEventListener('click', () => this.filterEmails('unread'));
 
         console.log('Event listeners initialized');
@@ -1,6 +1,7 @@
 import express from 'express';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { AttestationPublicKey, MemoryNonceStore, loadVerificationKey, verifyCountProof } from '@dataguard/verifier';
 import { sampleEmails, getEmailsByType, getUnreadEmails } from './data/sampleEmails.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -9,6 +10,20 @@ const __dirname = path.dirname(__filename);
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Verification key published with the extension's circuit build
+const VKEY_PATH = process.env.DATAGUARD_VKEY_PATH
+  || path.join(__dirname, '../../extension/src/assets/zk/count_in_window_vkey.json');
+let verificationKey: Promise<object> | null = null;
+
+// Proofs must be bound to this audience and to a nonce issued by /api/proof-challenge
+const AUDIENCE = process.env.DATAGUARD_AUDIENCE || `http://localhost:${PORT}`;
+const nonces = new MemoryNonceStore();
+
+// The DataGuard install whose proofs are accepted; without one, each request names the install it trusts
+const PINNED_ATTESTATION_KEY: AttestationPublicKey | undefined = process.env.DATAGUARD_ATTESTATION_KEY
+  ? JSON.parse(process.env.DATAGUARD_ATTESTATION_KEY)
+  : undefined;
+
 // Enable CORS for all origins
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
@@ -23,6 +38,8 @@ app.use((req, res, next) => {
   }
 });
 
+app.use(express.json({ limit: '100kb' }));
+
 // Serve static files from the current directory (dist)
 app.use(express.static(__dirname));
 
@@ -43,6 +60,8 @@ app.get('/api/emails', (req, res) => {
         emails = getEmailsByType('delivery');
     } else if (type === 'purchase') {
         emails = getEmailsByType('purchase');
+    } else if (type === 'financial') {
+        emails = getEmailsByType('financial');
     } else if (type === 'unread') {
         emails = getUnreadEmails();
     }
@@ -50,6 +69,77 @@ app.get('/api/emails', (req, res) => {
     res.json(emails);
 });
 
+// Single-use nonce to pass to window.DataGuard.prove()
+app.get('/api/proof-challenge', (req, res) => {
+    res.json({ ...nonces.issue(), audience: AUDIENCE });
+});
+
+// Reference verifier for proofs from window.DataGuard.prove()
+// Only proofs the install attested are accepted: a Groth16 proof alone does not say who generated it
+app.post('/api/verify-proof', async (req, res) => {
+    const { proof, predicate, minCount, minWindowDays, attestationKey } = req.body || {};
+    const key = PINNED_ATTESTATION_KEY ?? attestationKey;
+
+    const problem = verifyProofInputProblem(proof, predicate, minCount, minWindowDays, key);
+    if (problem) {
+        res.status(400).json({ valid: false, reasons: [problem] });
+        return;
+    }
+
+    let vkey: object;
+    try {
+        verificationKey ??= loadVerificationKey(VKEY_PATH);
+        vkey = await verificationKey;
+    } catch (error) {
+        // Loaded again on the next request, e.g. once the circuit is built
+        verificationKey = null;
+        console.error('Verification key could not be loaded:', error);
+        res.status(500).json({ valid: false, reasons: ['Verification key unavailable'] });
+        return;
+    }
+
+    try {
+        const result = await verifyCountProof(proof, vkey, {
+            predicate,
+            audience: AUDIENCE,
+            nonceStore: nonces,
+            minCount,
+            minWindowDays,
+            attestationKey: key
+        });
+        res.json(result);
+    } catch (error) {
+        // The verifier only throws on input it cannot read
+        res.status(400).json({ valid: false, reasons: [error instanceof Error ? error.message : String(error)] });
+    }
+});
+
+// Why a verify-proof body cannot be checked, if it cannot
+function verifyProofInputProblem(
+    proof: unknown,
+    predicate: unknown,
+    minCount: unknown,
+    minWindowDays: unknown,
+    attestationKey: unknown
+): string | undefined {
+    if (!proof || typeof proof !== 'object') {
+        return 'proof is required';
+    }
+    if (typeof predicate !== 'string' || !predicate) {
+        return 'predicate is required';
+    }
+    for (const [name, value] of Object.entries({ minCount, minWindowDays })) {
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+            return `${name} must be a non-negative number`;
+        }
+    }
+    const key = attestationKey as Partial<AttestationPublicKey> | undefined;
+    if (!key || typeof key !== 'object' || key.alg !== 'ES256' || typeof key.kid !== 'string' || !key.jwk || typeof key.jwk !== 'object') {
+        return 'attestationKey { kid, alg: "ES256", jwk } is required, as returned by window.DataGuard.capabilities()';
+    }
+    return undefined;
+}
+
 // Export the app for Vercel
 export default app;
 
@@ -57,7 +147,8 @@ export default app;
 if (process.env.NODE_ENV !== 'production' || !process.env.VERCEL) {
   app.listen(PORT, () => {
     console.log(`📧 Email Service Demo running at http://localhost:${PORT}`);
-    console.log(`🔗 API endpoint: GET /api/emails?type=subscription|delivery|purchase|unread`);
+    console.log(`🔗 API endpoint: GET /api/emails?type=subscription|delivery|purchase|financial|unread`);
+    console.log(`🔐 Proof verifier: GET /api/proof-challenge, then POST /api/verify-proof`);
     console.log(`🤖 This service simulates a normal email API that AI agents would access`);
   });
 }
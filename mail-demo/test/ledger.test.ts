@@ -0,0 +1,124 @@
+// Settlement rules of the facilitator ledger, with payments signed by a local account
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { privateKeyToAccount } from 'viem/accounts';
+import type { Address, Hex } from 'viem';
+import { CHAIN_IDS, FacilitatorLedger, PaymentPayload, PaymentRequirements } from '../src/facilitator/ledger.js';
+
+// Hardhat/Anvil development account #0
+const payer = privateKeyToAccount('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+const PAY_TO = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const NOW = new Date('2026-01-01T12:00:00Z');
+
+const requirements: PaymentRequirements = {
+  scheme: 'exact',
+  network: 'base-sepolia',
+  maxAmountRequired: '10000',
+  resource: 'http://localhost:3000/api/emails',
+  description: 'Email data',
+  mimeType: 'application/json',
+  payTo: PAY_TO,
+  maxTimeoutSeconds: 300,
+  asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  extra: { name: 'USDC', version: '2' }
+};
+
+async function pay(value: string, nonce: string = '0x' + '01'.repeat(32)): Promise<PaymentPayload> {
+  const nowSeconds = Math.floor(NOW.getTime() / 1000);
+  const authorization = {
+    from: payer.address,
+    to: PAY_TO,
+    value,
+    validAfter: String(nowSeconds - 60),
+    validBefore: String(nowSeconds + 300),
+    nonce
+  };
+
+  const signature = await payer.signTypedData({
+    domain: {
+      name: requirements.extra!.name,
+      version: requirements.extra!.version,
+      chainId: CHAIN_IDS[requirements.network],
+      verifyingContract: requirements.asset as Address
+    },
+    types: {
+      TransferWithAuthorization: [
+        { name: 'from', type: 'address' },
+        { name: 'to', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'validAfter', type: 'uint256' },
+        { name: 'validBefore', type: 'uint256' },
+        { name: 'nonce', type: 'bytes32' }
+      ]
+    },
+    primaryType: 'TransferWithAuthorization',
+    message: {
+      from: payer.address,
+      to: PAY_TO,
+      value: BigInt(value),
+      validAfter: BigInt(authorization.validAfter),
+      validBefore: BigInt(authorization.validBefore),
+      nonce: nonce as Hex
+    }
+  });
+
+  return { x402Version: 1, scheme: 'exact', network: requirements.network, payload: { signature, authorization } };
+}
+
+function fundedLedger(): FacilitatorLedger {
+  const ledger = new FacilitatorLedger();
+  ledger.fund(payer.address, 1_000_000n);
+  return ledger;
+}
+
+describe('FacilitatorLedger', () => {
+  it('settles a payment and moves the funds', async () => {
+    const ledger = fundedLedger();
+    const settlement = await ledger.settle(await pay('10000'), requirements, NOW);
+
+    assert.equal(settlement.value, '10000');
+    assert.equal(ledger.balanceOf(payer.address), 990_000n);
+    assert.equal(ledger.balanceOf(PAY_TO), 10_000n);
+  });
+
+  it('rejects spending the same authorization twice', async () => {
+    const ledger = fundedLedger();
+    const payment = await pay('10000');
+    await ledger.settle(payment, requirements, NOW);
+
+    assert.equal(await ledger.check(payment, requirements, NOW), 'invalid_exact_evm_payload_authorization_nonce_used');
+    await assert.rejects(ledger.settle(payment, requirements, NOW), /nonce_used/);
+    assert.equal(ledger.balanceOf(payer.address), 990_000n);
+  });
+
+  it('rejects a payment below the required amount', async () => {
+    const ledger = fundedLedger();
+
+    assert.equal(await ledger.check(await pay('9999'), requirements, NOW), 'invalid_exact_evm_payload_authorization_value');
+    assert.equal(ledger.balanceOf(payer.address), 1_000_000n);
+  });
+
+  it('rejects a payment whose value was raised after signing', async () => {
+    const ledger = fundedLedger();
+    const payment = await pay('10000');
+    payment.payload.authorization.value = '20000';
+
+    assert.equal(await ledger.check(payment, requirements, NOW), 'invalid_exact_evm_payload_signature');
+  });
+
+  it('rejects a payer without the funds', async () => {
+    const ledger = new FacilitatorLedger();
+
+    assert.equal(await ledger.check(await pay('10000'), requirements, NOW), 'insufficient_funds');
+  });
+
+  it('refunds a settlement once', async () => {
+    const ledger = fundedLedger();
+    const { transaction } = await ledger.settle(await pay('10000'), requirements, NOW);
+
+    ledger.refund(transaction);
+    assert.throws(() => ledger.refund(transaction), /already_refunded/);
+    assert.equal(ledger.balanceOf(payer.address), 1_000_000n);
+  });
+});
@@ -0,0 +1,113 @@
+// Offline checks for DataGuard attestations (compact JWS, ES256)
+
+export interface AttestationClaims {
+    iss: 'dataguard';
+    kind: 'emails' | 'answer' | 'proof';
+    predicate: { type: string; maxAge: number; minCount?: number };
+    result: any;
+    policyHash: string;
+    aud: string;
+    origin: string; // the requester's origin as the browser reported it; the page chooses aud
+    nonce: string;
+    iat: number;
+    exp: number;
+}
+
+/**
+ * Public key as returned by window.DataGuard.capabilities() (attestationKey)
+ */
+export interface AttestationPublicKey {
+    kid: string;
+    alg: 'ES256';
+    jwk: JsonWebKey;
+}
+
+export interface AttestationExpectations {
+    audience?: string;
+    nonce?: string;
+    body?: string; // raw body of an intercepted email response, checked against result.dataHash
+    now?: Date;
+}
+
+export interface AttestationResult {
+    valid: boolean;
+    reasons: string[];
+    claims?: AttestationClaims;
+}
+
+function base64urlDecode(value: string): Uint8Array<ArrayBuffer> {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function sha256Hex(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Check an attestation's signature against the install's public key, then its claims
+ */
+export async function verifyAttestation(
+    jws: string,
+    publicKey: AttestationPublicKey,
+    expectations: AttestationExpectations = {}
+): Promise<AttestationResult> {
+    const parts = typeof jws === 'string' ? jws.split('.') : [];
+    if (parts.length !== 3) {
+        return { valid: false, reasons: ['Attestation is not a compact JWS'] };
+    }
+
+    let header: { alg?: string; kid?: string };
+    let claims: AttestationClaims;
+    try {
+        header = JSON.parse(new TextDecoder().decode(base64urlDecode(parts[0])));
+        claims = JSON.parse(new TextDecoder().decode(base64urlDecode(parts[1])));
+    } catch {
+        return { valid: false, reasons: ['Attestation is not valid JSON'] };
+    }
+
+    if (header.alg !== 'ES256') {
+        return { valid: false, reasons: [`Unsupported algorithm: ${header.alg}`] };
+    }
+    if (header.kid !== publicKey.kid) {
+        return { valid: false, reasons: ['Attestation was signed by a different key'] };
+    }
+
+    const key = await crypto.subtle.importKey('jwk', publicKey.jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+    const signed = await crypto.subtle.verify(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        key,
+        base64urlDecode(parts[2]),
+        new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+    );
+    if (!signed) {
+        return { valid: false, reasons: ['Signature is invalid'] };
+    }
+
+    const reasons: string[] = [];
+    const now = Math.floor((expectations.now ?? new Date()).getTime() / 1000);
+
+    if (claims.iss !== 'dataguard') {
+        reasons.push(`Unexpected issuer: ${claims.iss}`);
+    }
+    if (claims.exp <= now) {
+        reasons.push('Attestation has expired');
+    }
+    // Otherwise a page could obtain an attestation bound to another site and replay it there
+    if (claims.origin !== claims.aud) {
+        reasons.push(`Attestation was requested by "${claims.origin}", not its audience "${claims.aud}"`);
+    }
+    if (expectations.audience !== undefined && claims.aud !== expectations.audience) {
+        reasons.push(`Attested for audience "${claims.aud}", expected "${expectations.audience}"`);
+    }
+    if (expectations.nonce !== undefined && claims.nonce !== expectations.nonce) {
+        reasons.push('Attested for a different nonce');
+    }
+    if (expectations.body !== undefined && claims.result?.dataHash !== await sha256Hex(expectations.body)) {
+        reasons.push('Response body does not match the attested data');
+    }
+
+    return { valid: reasons.length === 0, reasons, claims };
+}
@@ -0,0 +1,28 @@
+// Field derivations shared with the DataGuard extension
+// Must stay identical to extension/src/proofs/proof-inputs.ts
+
+/**
+ * Hash a string into the BN254 scalar field (SHA-256 truncated to 248 bits)
+ */
+export async function hashToField(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    const hex = Array.from(new Uint8Array(digest).slice(0, 31))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+
+    return BigInt('0x' + hex).toString();
+}
+
+/**
+ * Field element identifying a registered predicate in public signals
+ */
+export function predicateFieldId(predicateId: string): Promise<string> {
+    return hashToField(`dataguard:predicate:${predicateId}`);
+}
+
+/**
+ * Field element binding a proof to the requester's nonce, audience and expiry
+ */
+export function challengeField(binding: { nonce: string; audience: string; expiresAt: string }): Promise<string> {
+    return hashToField(`dataguard:challenge:${binding.nonce}|${binding.audience}|${binding.expiresAt}`);
+}
@@ -0,0 +1,285 @@
+// DataGuard proof verifier
+// Checks count proofs produced by the extension against a published verification key
+
+import { groth16 } from 'snarkjs';
+import { challengeField, predicateFieldId } from './fields.js';
+import { NonceStore } from './nonce-store.js';
+import { AttestationPublicKey, verifyAttestation } from './attestation.js';
+
+export { challengeField, hashToField, predicateFieldId } from './fields.js';
+export { MemoryNonceStore, NonceStore } from './nonce-store.js';
+export {
+    AttestationClaims,
+    AttestationExpectations,
+    AttestationPublicKey,
+    AttestationResult,
+    verifyAttestation
+} from './attestation.js';
+
+export const COUNT_CIRCUIT_NAME = 'count_in_window';
+
+// Order of publicSignals produced by snarkjs: outputs first, then public inputs
+export const COUNT_PUBLIC_SIGNALS = ['commitment', 'predicateId', 'threshold', 'windowStart', 'windowEnd', 'challenge'] as const;
+
+export interface Groth16Proof {
+    pi_a: string[];
+    pi_b: string[][];
+    pi_c: string[];
+    protocol: string;
+    curve: string;
+}
+
+/**
+ * Nonce, audience and expiry DataGuard stamps on proofs, answers and email responses
+ */
+export interface RequestBinding {
+    nonce: string;
+    audience: string;
+    issuedAt: string;
+    expiresAt: string;
+}
+
+/**
+ * Proof as returned by window.DataGuard.prove()
+ */
+export interface CountProof {
+    circuit: string;
+    predicate: { type: string; maxAge: number; minCount?: number };
+    threshold: number;
+    window: { from: string; to: string; days: number };
+    commitment: string;
+    binding: RequestBinding;
+    attestation?: string;
+    proof: Groth16Proof;
+    publicSignals: string[];
+    timestamp: string;
+}
+
+export interface BindingExpectations {
+    audience: string; // the verifier's own identity, e.g. its origin
+    nonce?: string; // nonce the verifier issued for this request
+    nonceStore?: NonceStore; // rejects nonces that were never issued or already used
+    now?: Date;
+}
+
+export interface VerificationExpectations extends BindingExpectations {
+    predicate: string; // predicate id the proof must be about
+    minCount?: number; // lowest acceptable threshold, default 1
+    minWindowDays?: number; // window must cover at least this many days
+    maxProofAgeSeconds?: number; // how old windowEnd may be, default 300
+    attestationKey?: AttestationPublicKey; // the install's key; its attestation of the proof must sign these public signals
+}
+
+export interface VerificationResult {
+    valid: boolean;
+    reasons: string[]; // why the proof was rejected, empty when valid
+    signals?: {
+        commitment: string;
+        threshold: number;
+        windowStart: Date;
+        windowEnd: Date;
+    };
+}
+
+const DEFAULT_MAX_PROOF_AGE_SECONDS = 300;
+
+// Allow for small clock differences between prover and verifier
+const CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Read a verification key from a JSON file (Node) or URL (browser)
+ */
+export async function loadVerificationKey(location: string): Promise<object> {
+    if (/^https?:\/\//.test(location)) {
+        const response = await fetch(location);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch verification key: ${response.status}`);
+        }
+        return response.json();
+    }
+
+    const { readFile } = await import('fs/promises');
+    return JSON.parse(await readFile(location, 'utf8'));
+}
+
+/**
+ * Stop the curve worker threads snarkjs keeps between verifications, so short-lived scripts can exit
+ */
+export async function releaseVerifier(): Promise<void> {
+    const curve = (globalThis as { curve_bn128?: { terminate(): Promise<void> } | null }).curve_bn128;
+    await curve?.terminate();
+}
+
+/**
+ * Check who a binding is for and whether it is still usable, without consuming the nonce
+ */
+export function checkBinding(binding: RequestBinding | undefined, expectations: BindingExpectations): string[] {
+    if (!binding?.nonce || !binding.audience || !binding.expiresAt) {
+        return ['Response is not bound to a request'];
+    }
+
+    const reasons: string[] = [];
+    const now = expectations.now ?? new Date();
+
+    if (binding.audience !== expectations.audience) {
+        reasons.push(`Bound to audience "${binding.audience}", expected "${expectations.audience}"`);
+    }
+
+    const expiresAt = new Date(binding.expiresAt);
+    if (isNaN(expiresAt.getTime()) || expiresAt <= now) {
+        reasons.push('Binding has expired');
+    }
+
+    if (expectations.nonce !== undefined && binding.nonce !== expectations.nonce) {
+        reasons.push('Bound to a different nonce');
+    } else if (expectations.nonce === undefined && !expectations.nonceStore) {
+        reasons.push('No nonce or nonce store to check the binding against');
+    }
+
+    return reasons;
+}
+
+/**
+ * Accept a binding once: check it, then consume its nonce
+ */
+export async function verifyBinding(
+    binding: RequestBinding | undefined,
+    expectations: BindingExpectations
+): Promise<VerificationResult> {
+    const reasons = checkBinding(binding, expectations);
+
+    if (reasons.length === 0) {
+        reasons.push(...await consumeNonce(binding!, expectations));
+    }
+
+    return { valid: reasons.length === 0, reasons };
+}
+
+/**
+ * Reasons the install's attestation does not vouch for this proof's public signals, if any
+ */
+async function checkProofAttestation(
+    countProof: CountProof,
+    key: AttestationPublicKey,
+    expectations: VerificationExpectations
+): Promise<string[]> {
+    if (!countProof.attestation) {
+        return ['Proof carries no attestation'];
+    }
+
+    const attested = await verifyAttestation(countProof.attestation, key, {
+        audience: expectations.audience,
+        nonce: countProof.binding?.nonce,
+        now: expectations.now
+    });
+    const reasons = [...attested.reasons];
+
+    const claims = attested.claims;
+    if (claims && attested.reasons.length === 0) {
+        const signed = claims.result?.publicSignals;
+        if (claims.kind !== 'proof' ||
+            !Array.isArray(signed) ||
+            signed.length !== countProof.publicSignals.length ||
+            signed.some((signal: unknown, i: number) => signal !== countProof.publicSignals[i])) {
+            reasons.push('Attestation does not cover these public signals');
+        }
+    }
+
+    return reasons;
+}
+
+async function consumeNonce(binding: RequestBinding, expectations: BindingExpectations): Promise<string[]> {
+    if (!expectations.nonceStore) return [];
+
+    const fresh = await expectations.nonceStore.consume(binding.nonce, expectations.now);
+    return fresh ? [] : ['Nonce was never issued, has expired or was already used'];
+}
+
+/**
+ * Validate the public signals against what the verifier asked for, then check the Groth16 proof.
+ *
+ * The circuit takes the inbox snapshot, and which of its emails match, from the prover; nothing anchors the
+ * commitment to a real inbox. A valid proof alone only shows that whoever ran the prover claims such a snapshot.
+ * Pass `attestationKey` to also require that the DataGuard install holding that key signed exactly these public
+ * signals. The count then rests on trusting that install, and on nothing stronger.
+ */
+export async function verifyCountProof(
+    countProof: CountProof,
+    verificationKey: object,
+    expectations: VerificationExpectations
+): Promise<VerificationResult> {
+    const signals = countProof?.publicSignals;
+
+    if (!Array.isArray(signals) || signals.length !== COUNT_PUBLIC_SIGNALS.length) {
+        return { valid: false, reasons: [`Expected ${COUNT_PUBLIC_SIGNALS.length} public signals`] };
+    }
+
+    const reasons = checkBinding(countProof.binding, expectations);
+
+    if (countProof.circuit !== COUNT_CIRCUIT_NAME) {
+        reasons.push(`Unsupported circuit: ${countProof.circuit}`);
+    }
+
+    const [commitment, predicateId, threshold, windowStart, windowEnd, challenge] = signals;
+
+    if (predicateId !== await predicateFieldId(expectations.predicate)) {
+        reasons.push(`Proof is not about predicate "${expectations.predicate}"`);
+    }
+
+    const minCount = Math.max(expectations.minCount ?? 1, 1);
+    if (Number(threshold) < minCount) {
+        reasons.push(`Proof threshold ${threshold} is below the required ${minCount}`);
+    }
+
+    const start = Number(windowStart);
+    const end = Number(windowEnd);
+    const now = Math.floor((expectations.now ?? new Date()).getTime() / 1000);
+    const maxAge = expectations.maxProofAgeSeconds ?? DEFAULT_MAX_PROOF_AGE_SECONDS;
+
+    if (end > now + CLOCK_SKEW_SECONDS) {
+        reasons.push('Proof window ends in the future');
+    } else if (now - end > maxAge) {
+        reasons.push(`Proof window ended more than ${maxAge} seconds ago`);
+    }
+
+    if (expectations.minWindowDays && end - start < expectations.minWindowDays * 24 * 60 * 60) {
+        reasons.push(`Proof window is shorter than ${expectations.minWindowDays} days`);
+    }
+
+    if (countProof.binding && challenge !== await challengeField(countProof.binding)) {
+        reasons.push('Proof was generated for a different binding');
+    }
+
+    if (countProof.commitment !== commitment) {
+        reasons.push('Commitment does not match public signals');
+    }
+
+    if (expectations.attestationKey) {
+        reasons.push(...await checkProofAttestation(countProof, expectations.attestationKey, expectations));
+    }
+
+    // Only spend time on the pairing check once the statement itself is acceptable
+    if (reasons.length === 0) {
+        const verified = await groth16.verify(verificationKey, signals, countProof.proof)
+            .catch(() => false);
+        if (!verified) {
+            reasons.push('Groth16 proof is invalid');
+        }
+    }
+
+    // Burn the nonce last, so a rejected proof does not use it up
+    if (reasons.length === 0) {
+        reasons.push(...await consumeNonce(countProof.binding, expectations));
+    }
+
+    return {
+        valid: reasons.length === 0,
+        reasons,
+        signals: {
+            commitment,
+            threshold: Number(threshold),
+            windowStart: new Date(start * 1000),
+            windowEnd: new Date(end * 1000)
+        }
+    };
+}
@@ -0,0 +1,47 @@
+// Single-use nonces for DataGuard requesters
+
+/**
+ * Where a verifier keeps the nonces it handed out
+ */
+export interface NonceStore {
+    /** Mark the nonce used; false if it was never issued, already used or expired */
+    consume(nonce: string, now?: Date): boolean | Promise<boolean>;
+}
+
+const DEFAULT_NONCE_TTL_SECONDS = 300;
+
+/**
+ * In-memory store for a single verifier process
+ */
+export class MemoryNonceStore implements NonceStore {
+    private issued = new Map<string, number>(); // nonce -> expiry (ms)
+
+    constructor(private ttlSeconds: number = DEFAULT_NONCE_TTL_SECONDS) {}
+
+    issue(now: Date = new Date()): { nonce: string; expiresAt: string } {
+        this.prune(now);
+
+        const bytes = crypto.getRandomValues(new Uint8Array(24));
+        const nonce = Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+        const expiresAt = now.getTime() + this.ttlSeconds * 1000;
+        this.issued.set(nonce, expiresAt);
+
+        return { nonce, expiresAt: new Date(expiresAt).toISOString() };
+    }
+
+    consume(nonce: string, now: Date = new Date()): boolean {
+        const expiresAt = this.issued.get(nonce);
+        if (expiresAt === undefined) return false;
+
+        this.issued.delete(nonce);
+        return expiresAt >= now.getTime();
+    }
+
+    private prune(now: Date) {
+        for (const [nonce, expiresAt] of this.issued) {
+            if (expiresAt < now.getTime()) {
+                this.issued.delete(nonce);
+            }
+        }
+    }
+}
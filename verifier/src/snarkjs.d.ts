@@ -0,0 +1,7 @@
+// Minimal typings for the parts of snarkjs used by the verifier
+
+declare module 'snarkjs' {
+    export const groth16: {
+        verify(verificationKey: object, publicSignals: string[], proof: object, logger?: unknown): Promise<boolean>;
+    };
+}
@@ -0,0 +1,173 @@
+// Binding, nonce replay and attestation checks; none of these need a verification key
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    AttestationClaims,
+    AttestationPublicKey,
+    MemoryNonceStore,
+    RequestBinding,
+    checkBinding,
+    verifyAttestation,
+    verifyBinding
+} from '../src/index.js';
+
+const AUDIENCE = 'https://shop.example';
+const NOW = new Date('2026-01-01T12:00:00Z');
+
+function bindingFor(nonce: string, overrides: Partial<RequestBinding> = {}): RequestBinding {
+    return {
+        nonce,
+        audience: AUDIENCE,
+        issuedAt: NOW.toISOString(),
+        expiresAt: new Date(NOW.getTime() + 5 * 60 * 1000).toISOString(),
+        ...overrides
+    };
+}
+
+function base64url(data: Uint8Array | string): string {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    return Buffer.from(bytes).toString('base64url');
+}
+
+/**
+ * A throwaway install key and a signer for claims, as the extension's attestation service produces them
+ */
+async function createInstall(): Promise<{ publicKey: AttestationPublicKey; sign(claims: AttestationClaims): Promise<string> }> {
+    const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+    const jwk = await crypto.subtle.exportKey('jwk', pair.publicKey);
+    const publicKey: AttestationPublicKey = { kid: 'test-key', alg: 'ES256', jwk };
+
+    return {
+        publicKey,
+        async sign(claims) {
+            const input = `${base64url(JSON.stringify({ alg: 'ES256', typ: 'JWT', kid: publicKey.kid }))}.${base64url(JSON.stringify(claims))}`;
+            const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, pair.privateKey, new TextEncoder().encode(input));
+            return `${input}.${base64url(new Uint8Array(signature))}`;
+        }
+    };
+}
+
+function claimsFor(nonce: string, overrides: Partial<AttestationClaims> = {}): AttestationClaims {
+    return {
+        iss: 'dataguard',
+        kind: 'answer',
+        predicate: { type: 'delivery', maxAge: 30 },
+        result: { satisfied: true },
+        policyHash: 'policy',
+        aud: AUDIENCE,
+        origin: AUDIENCE,
+        nonce,
+        iat: Math.floor(NOW.getTime() / 1000),
+        exp: Math.floor(NOW.getTime() / 1000) + 300,
+        ...overrides
+    };
+}
+
+describe('checkBinding', () => {
+    it('accepts a binding for the expected audience and nonce', () => {
+        assert.deepEqual(checkBinding(bindingFor('n1'), { audience: AUDIENCE, nonce: 'n1', now: NOW }), []);
+    });
+
+    it('rejects a missing binding', () => {
+        assert.deepEqual(checkBinding(undefined, { audience: AUDIENCE, nonce: 'n1', now: NOW }), ['Response is not bound to a request']);
+    });
+
+    it('rejects another audience, an expired binding and another nonce', () => {
+        const reasons = checkBinding(
+            bindingFor('n2', { audience: 'https://other.example', expiresAt: NOW.toISOString() }),
+            { audience: AUDIENCE, nonce: 'n1', now: NOW }
+        );
+
+        assert.equal(reasons.length, 3);
+        assert.match(reasons[0], /audience "https:\/\/other\.example"/);
+        assert.equal(reasons[1], 'Binding has expired');
+        assert.equal(reasons[2], 'Bound to a different nonce');
+    });
+
+    it('rejects a binding with nothing to check the nonce against', () => {
+        assert.deepEqual(
+            checkBinding(bindingFor('n1'), { audience: AUDIENCE, now: NOW }),
+            ['No nonce or nonce store to check the binding against']
+        );
+    });
+});
+
+describe('verifyBinding', () => {
+    it('accepts an issued nonce once and rejects its replay', async () => {
+        const nonceStore = new MemoryNonceStore();
+        const { nonce } = nonceStore.issue(NOW);
+
+        const first = await verifyBinding(bindingFor(nonce), { audience: AUDIENCE, nonceStore, now: NOW });
+        const replay = await verifyBinding(bindingFor(nonce), { audience: AUDIENCE, nonceStore, now: NOW });
+
+        assert.equal(first.valid, true);
+        assert.equal(replay.valid, false);
+        assert.deepEqual(replay.reasons, ['Nonce was never issued, has expired or was already used']);
+    });
+
+    it('rejects a nonce the store never issued', async () => {
+        const result = await verifyBinding(bindingFor('made-up'), { audience: AUDIENCE, nonceStore: new MemoryNonceStore(), now: NOW });
+        assert.equal(result.valid, false);
+    });
+
+    it('does not consume the nonce of a binding for another audience', async () => {
+        const nonceStore = new MemoryNonceStore();
+        const { nonce } = nonceStore.issue(NOW);
+
+        const wrong = await verifyBinding(bindingFor(nonce, { audience: 'https://other.example' }), { audience: AUDIENCE, nonceStore, now: NOW });
+        const right = await verifyBinding(bindingFor(nonce), { audience: AUDIENCE, nonceStore, now: NOW });
+
+        assert.equal(wrong.valid, false);
+        assert.equal(right.valid, true);
+    });
+});
+
+describe('MemoryNonceStore', () => {
+    it('rejects a nonce after its time to live', () => {
+        const store = new MemoryNonceStore(60);
+        const { nonce } = store.issue(NOW);
+
+        assert.equal(store.consume(nonce, new Date(NOW.getTime() + 61 * 1000)), false);
+    });
+});
+
+describe('verifyAttestation', () => {
+    it('accepts claims signed by the install for the expected audience and nonce', async () => {
+        const install = await createInstall();
+        const result = await verifyAttestation(await install.sign(claimsFor('n1')), install.publicKey, { audience: AUDIENCE, nonce: 'n1', now: NOW });
+
+        assert.deepEqual(result.reasons, []);
+        assert.equal(result.valid, true);
+    });
+
+    it('rejects an attestation requested by another origin than its audience', async () => {
+        const install = await createInstall();
+        const jws = await install.sign(claimsFor('n1', { origin: 'https://attacker.example' }));
+        const result = await verifyAttestation(jws, install.publicKey, { audience: AUDIENCE, nonce: 'n1', now: NOW });
+
+        assert.equal(result.valid, false);
+        assert.match(result.reasons[0], /requested by "https:\/\/attacker\.example"/);
+    });
+
+    it('rejects claims altered after signing', async () => {
+        const install = await createInstall();
+        const [header, , signature] = (await install.sign(claimsFor('n1'))).split('.');
+        const forged = `${header}.${base64url(JSON.stringify(claimsFor('n1', { result: { satisfied: false } })))}.${signature}`;
+
+        const result = await verifyAttestation(forged, install.publicKey, { now: NOW });
+        assert.deepEqual(result.reasons, ['Signature is invalid']);
+    });
+
+    it('rejects another audience and nonce', async () => {
+        const install = await createInstall();
+        const result = await verifyAttestation(await install.sign(claimsFor('n1')), install.publicKey, {
+            audience: 'https://other.example',
+            nonce: 'n2',
+            now: NOW
+        });
+
+        assert.equal(result.valid, false);
+        assert.equal(result.reasons.length, 2);
+    });
+});